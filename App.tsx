@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useDeferredValue, useEffect, useMemo, useState } from 'react';
 import { 
   FileText, 
   Upload, 
@@ -9,73 +9,425 @@ import {
   Clock,
   Activity,
   RefreshCcw,
-  CalendarDays,
   ArrowLeftRight,
-  Database
+  Database,
+  Settings,
+  BookOpen,
+  Coins,
+  LayoutTemplate,
+  GitCompare,
+  X
 } from 'lucide-react';
-import { parseShopifyCSV, parsePaypalCSV } from './services/csvProcessor';
-import { generateTransactionPDF } from './services/pdfGenerator';
-import { ReportSummary, ReportStatus } from './types';
+import { parseTransactionCSV, buildReportSummary, readCsvPreview } from './services/csvProcessor';
+import { PROCESSORS, getProcessor, getReportLabels, planFileImport } from './services/processors';
+import { generateTransactionPDF, generateReconciliationPDF } from './services/pdfGenerator';
+import { parseBankStatements } from './services/bankStatement';
+import { DailyJournalBatch } from './services/dailyJournal';
+import { DEFAULT_CURRENCY_SETTINGS, formatMoney, loadCurrencySettings, saveCurrencySettings } from './services/currency';
+import {
+  DEFAULT_LEDGER_SORT,
+  EMPTY_LEDGER_FILTER,
+  filterReportSummary,
+  getLedgerFilterOptions,
+  isLedgerFiltered
+} from './services/ledgerFilter';
+import { buildLedgerCsv, buildLedgerWorkbook, getLedgerFileName } from './services/ledgerExport';
+import { downloadBinaryFile, downloadTextFile } from './services/download';
+import { XLSX_MIME_TYPE } from './services/xlsxWriter';
+import { DEFAULT_REPORT_TEMPLATE, loadReportTemplate, saveReportTemplate } from './services/reportTemplate';
+import { createReportSnapshot, deleteReportSnapshot, loadReportSnapshots, saveReportSnapshot } from './services/reportSnapshots';
+import {
+  DEFAULT_RECONCILIATION_SETTINGS,
+  loadReconciliationSettings,
+  reconcileDeposits,
+  saveReconciliationSettings
+} from './services/reconciliation';
+import {
+  DEFAULT_REPORTING_SETTINGS,
+  describeReportingSettings,
+  loadReportingSettings,
+  saveReportingSettings
+} from './services/reportingSettings';
+import {
+  deleteImportProfile,
+  getHeaderFingerprint,
+  loadImportProfiles,
+  saveImportProfile,
+  suggestColumnMapping
+} from './services/importProfiles';
+import {
+  VerificationMap,
+  createVerification,
+  deleteVerification,
+  getVerificationKey,
+  loadVerifications,
+  saveVerification
+} from './services/verification';
+import {
+  ReportSummary,
+  ReportStatus,
+  ReportingSettings,
+  CurrencySettings,
+  ReportTemplate,
+  ReportSnapshot,
+  ColumnMapping,
+  CsvPreview,
+  FileImportPlan,
+  ImportProfile,
+  BankDeposit,
+  ReconciliationSettings,
+  ShopifyTransaction,
+  LedgerFilter,
+  LedgerSort
+} from './types';
 import { IIFConverter } from './components/IIFConverter';
+import { ReportingSettingsPanel } from './components/ReportingSettingsPanel';
+import { ColumnMappingWizard } from './components/ColumnMappingWizard';
+import { ReconciliationPanel } from './components/ReconciliationPanel';
+import { LedgerView, SOURCE_BADGES } from './components/LedgerView';
+import { LedgerFilterBar } from './components/LedgerFilterBar';
+import { AnalyticsView } from './components/AnalyticsView';
+import { DailyJournalPanel } from './components/DailyJournalPanel';
+import { CurrencySettingsPanel } from './components/CurrencySettingsPanel';
+import { ReportTemplatePanel } from './components/ReportTemplatePanel';
+import { SnapshotComparisonPanel } from './components/SnapshotComparisonPanel';
 
 type ViewMode = 'SHOPIFY' | 'IIF';
 
+// An upload waiting on the mapping wizard: files already planned, plus one entry per unknown layout
+interface PendingImport {
+  files: File[];
+  plans: Record<string, FileImportPlan>;
+  layouts: { fingerprint: string, preview: CsvPreview, fileNames: string[] }[];
+}
+
 const App: React.FC = () => {
   const [viewMode, setViewMode] = useState<ViewMode>('SHOPIFY');
   
-  // Shopify/PayPal State
-  const [reportSource, setReportSource] = useState<'SHOPIFY' | 'PAYPAL'>('SHOPIFY');
+  // Payment Report State
   const [status, setStatus] = useState<ReportStatus>(ReportStatus.IDLE);
   const [summary, setSummary] = useState<ReportSummary | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [reportingSettings, setReportingSettings] = useState<ReportingSettings>(DEFAULT_REPORTING_SETTINGS);
+  const [showSettings, setShowSettings] = useState(false);
+  const [currencySettings, setCurrencySettings] = useState<CurrencySettings>(DEFAULT_CURRENCY_SETTINGS);
+  const [showCurrencySettings, setShowCurrencySettings] = useState(false);
+  const [reportTemplate, setReportTemplate] = useState<ReportTemplate>(DEFAULT_REPORT_TEMPLATE);
+  const [showTemplateSettings, setShowTemplateSettings] = useState(false);
+  // Every processed report is kept for period comparisons, newest first
+  const [snapshots, setSnapshots] = useState<ReportSnapshot[]>([]);
+  const [showComparison, setShowComparison] = useState(false);
+  const [importProfiles, setImportProfiles] = useState<ImportProfile[]>([]);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [showJournals, setShowJournals] = useState(false);
+  // Daily journals handed to the IIF/QBO view for syncing
+  const [journalBatch, setJournalBatch] = useState<DailyJournalBatch | null>(null);
+  const reportLabels = getReportLabels(summary ? summary.sourceTotals.map(t => t.source) : []);
+  // Report totals are in the currency the summary was built with
+  const homeCurrency = summary?.currencySettings.homeCurrency ?? currencySettings.homeCurrency;
+  const money = (amount: number) => formatMoney(amount, homeCurrency);
+
+  // Bank Reconciliation State
+  const [bankDeposits, setBankDeposits] = useState<BankDeposit[]>([]);
+  const [statementFiles, setStatementFiles] = useState<string[]>([]);
+  const [reconciliationSettings, setReconciliationSettings] = useState<ReconciliationSettings>(DEFAULT_RECONCILIATION_SETTINGS);
+  const [isImportingStatement, setIsImportingStatement] = useState(false);
+  const [reconciliationError, setReconciliationError] = useState<string | null>(null);
+
+  // Verification State
+  const [verifications, setVerifications] = useState<VerificationMap>({});
+  const [reviewer, setReviewer] = useState('');
+  const [verificationError, setVerificationError] = useState<string | null>(null);
+
+  // Ledger State: typing in the search box stays responsive while a large ledger refilters
+  const [ledgerFilter, setLedgerFilter] = useState<LedgerFilter>(EMPTY_LEDGER_FILTER);
+  const [ledgerSort, setLedgerSort] = useState<LedgerSort>(DEFAULT_LEDGER_SORT);
+  const [exportFiltered, setExportFiltered] = useState(true);
+  const [ledgerTab, setLedgerTab] = useState<'LEDGER' | 'ANALYTICS'>('LEDGER');
+  const deferredFilter = useDeferredValue(ledgerFilter);
+  const isFiltered = isLedgerFiltered(ledgerFilter);
+  const filteredSummary = useMemo(
+    () => summary && filterReportSummary(summary, deferredFilter, ledgerSort),
+    [summary, deferredFilter, ledgerSort]
+  );
+  const ledgerFilterOptions = useMemo(
+    () => summary ? getLedgerFilterOptions(summary) : { types: [], cardBrands: [], sourceFiles: [] },
+    [summary]
+  );
+  // PDF and CSV cover the filtered rows while a filter is on, unless switched off
+  const exportSummary = isFiltered && exportFiltered ? filteredSummary : summary;
+
+  // Recomputed whenever the report is regrouped or the tolerances change
+  const reconciliation = useMemo(() => {
+    if (!summary || statementFiles.length === 0) return null;
+    return reconcileDeposits(summary.dailyGroups, bankDeposits, reconciliationSettings);
+  }, [summary, bankDeposits, statementFiles, reconciliationSettings]);
+
+  useEffect(() => {
+    loadReportingSettings()
+      .then(setReportingSettings)
+      .catch(err => console.error('Failed to load reporting settings', err));
+    loadCurrencySettings()
+      .then(setCurrencySettings)
+      .catch(err => console.error('Failed to load currency settings', err));
+    loadReportTemplate()
+      .then(setReportTemplate)
+      .catch(err => console.error('Failed to load the report template', err));
+    loadImportProfiles()
+      .then(setImportProfiles)
+      .catch(err => console.error('Failed to load import profiles', err));
+    loadReportSnapshots()
+      .then(setSnapshots)
+      .catch(err => console.error('Failed to load report snapshots', err));
+    loadReconciliationSettings()
+      .then(setReconciliationSettings)
+      .catch(err => console.error('Failed to load reconciliation settings', err));
+    loadVerifications()
+      .then(saved => {
+        setVerifications(saved);
+        // Start with whoever signed off last
+        const latest = Object.keys(saved)
+          .map(key => saved[key])
+          .sort((a, b) => b.verifiedAt.localeCompare(a.verifiedAt))[0];
+        if (latest) setReviewer(latest.reviewer);
+      })
+      .catch(err => console.error('Failed to load verifications', err));
+  }, []);
+
+  // Saved settings apply straight away: a loaded report is regrouped under the new rules
+  const handleSaveSettings = async (settings: ReportingSettings) => {
+    await saveReportingSettings(settings);
+    setReportingSettings(settings);
+    if (summary) {
+      setSummary(buildReportSummary(summary.allTransactions, settings, currencySettings));
+    }
+  };
+
+  // Same for currency settings: a loaded report is re-totalled at the new rates
+  const handleSaveCurrencySettings = async (settings: CurrencySettings) => {
+    await saveCurrencySettings(settings);
+    setCurrencySettings(settings);
+    if (summary) {
+      setSummary(buildReportSummary(summary.allTransactions, reportingSettings, settings));
+    }
+  };
+
+  const handleSaveReportTemplate = async (template: ReportTemplate) => {
+    await saveReportTemplate(template);
+    setReportTemplate(template);
+  };
+
+  const handleRenameSnapshot = async (snapshot: ReportSnapshot, name: string) => {
+    const saved = await saveReportSnapshot({ ...snapshot, name });
+    setSnapshots(prev => prev.map(s => s.id === saved.id ? saved : s));
+  };
+
+  const handleDeleteSnapshot = async (snapshot: ReportSnapshot) => {
+    await deleteReportSnapshot(snapshot.id);
+    setSnapshots(prev => prev.filter(s => s.id !== snapshot.id));
+  };
 
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
     if (!files || files.length === 0) return;
 
-    setStatus(ReportStatus.PROCESSING);
+    const fileArray: File[] = Array.from(files);
+    event.target.value = '';
+
     setError(null);
 
     try {
-      let parsedSummary: ReportSummary;
-      if (reportSource === 'PAYPAL') {
-        parsedSummary = await parsePaypalCSV(files);
-      } else {
-        parsedSummary = await parseShopifyCSV(files);
+      // Each file's headers pick its source; unknown layouts go to the mapping wizard
+      const previews = await Promise.all(fileArray.map(readCsvPreview));
+      const plans: Record<string, FileImportPlan> = {};
+      const layouts: PendingImport['layouts'] = [];
+
+      previews.forEach(preview => {
+        const plan = planFileImport(preview, importProfiles);
+        if (plan) {
+          plans[preview.fileName] = plan;
+          return;
+        }
+        const fingerprint = getHeaderFingerprint(preview.headers);
+        const layout = layouts.find(l => l.fingerprint === fingerprint);
+        if (layout) {
+          layout.fileNames.push(preview.fileName);
+        } else {
+          layouts.push({ fingerprint, preview, fileNames: [preview.fileName] });
+        }
+      });
+
+      if (layouts.length > 0) {
+        setPendingImport({ files: fileArray, plans, layouts });
+        setStatus(ReportStatus.MAPPING);
+        return;
       }
+      await processFiles(fileArray, plans);
+    } catch (err) {
+      console.error(err);
+      setError('Failed to read CSV headers. Please ensure the files are valid.');
+      setStatus(ReportStatus.ERROR);
+    }
+  };
+
+  const processFiles = async (files: File[], plans: Record<string, FileImportPlan>) => {
+    setStatus(ReportStatus.PROCESSING);
+    setError(null);
+
+    try {
+      const parsedSummary = await parseTransactionCSV(files, plans, reportingSettings, currencySettings);
       setSummary(parsedSummary);
+      setLedgerFilter(EMPTY_LEDGER_FILTER);
       setStatus(ReportStatus.READY);
+      // A snapshot that fails to save shouldn't hold up the report
+      saveReportSnapshot(createReportSnapshot(parsedSummary))
+        .then(snapshot => setSnapshots(prev => [snapshot, ...prev]))
+        .catch(err => console.error('Failed to save the report snapshot', err));
     } catch (err) {
       console.error(err);
-      setError(`Failed to parse ${reportSource} CSV files. Please ensure they are valid.`);
+      const detail = err instanceof Error ? ` ${err.message}` : '';
+      setError(`Failed to parse CSV files. Please ensure they are valid.${detail}`);
       setStatus(ReportStatus.ERROR);
     }
   };
 
+  // Saves the wizard's mapping as a profile, then moves on to the next unknown layout or parses
+  const handleSaveColumnMapping = async (name: string, mapping: ColumnMapping) => {
+    if (!pendingImport) return;
+    const [layout, ...remaining] = pendingImport.layouts;
+
+    const profile = await saveImportProfile(name, layout.preview.headers, mapping);
+    setImportProfiles(prev => [...prev.filter(p => p.fingerprint !== profile.fingerprint), profile]);
+
+    // Hand-mapped layouts are read as Shopify-style exports
+    const plans = { ...pendingImport.plans };
+    layout.fileNames.forEach(fileName => { plans[fileName] = { source: 'SHOPIFY', columnMapping: mapping }; });
+
+    if (remaining.length > 0) {
+      setPendingImport({ ...pendingImport, plans, layouts: remaining });
+      return;
+    }
+    setPendingImport(null);
+    await processFiles(pendingImport.files, plans);
+  };
+
+  const handleCancelColumnMapping = () => {
+    setPendingImport(null);
+    setStatus(ReportStatus.IDLE);
+  };
+
+  const handleDeleteImportProfile = async (profile: ImportProfile) => {
+    if (!confirm(`Delete the import profile "${profile.name}"? Files with this layout will ask for a mapping again.`)) return;
+    try {
+      await deleteImportProfile(profile.id);
+      setImportProfiles(prev => prev.filter(p => p.id !== profile.id));
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to delete import profile');
+    }
+  };
+
+  const handleImportStatements = async (files: File[]) => {
+    setIsImportingStatement(true);
+    setReconciliationError(null);
+    try {
+      const deposits = await parseBankStatements(files);
+      const newNames = files.map(f => f.name);
+      // Re-importing a statement replaces its earlier deposits
+      setBankDeposits(prev => [...prev.filter(d => !newNames.includes(d.sourceFile)), ...deposits]);
+      setStatementFiles(prev => [...prev.filter(name => !newNames.includes(name)), ...newNames]);
+    } catch (err) {
+      console.error(err);
+      setReconciliationError(err instanceof Error ? err.message : 'Failed to read the bank statement');
+    } finally {
+      setIsImportingStatement(false);
+    }
+  };
+
+  const handleReconciliationSettingsChange = async (settings: ReconciliationSettings) => {
+    setReconciliationSettings(settings);
+    try {
+      await saveReconciliationSettings(settings);
+      setReconciliationError(null);
+    } catch (err) {
+      setReconciliationError(err instanceof Error ? err.message : 'Failed to save reconciliation settings');
+    }
+  };
+
+  const handleClearStatements = () => {
+    setBankDeposits([]);
+    setStatementFiles([]);
+    setReconciliationError(null);
+  };
+
+  // Checking a row signs it off as the current reviewer; unchecking removes the sign-off
+  const handleToggleVerification = async (t: ShopifyTransaction) => {
+    const key = getVerificationKey(t);
+    setVerificationError(null);
+    try {
+      if (verifications[key]) {
+        await deleteVerification(key);
+        setVerifications(prev => {
+          const next = { ...prev };
+          delete next[key];
+          return next;
+        });
+      } else {
+        const saved = await saveVerification(key, createVerification(reviewer));
+        setVerifications(prev => ({ ...prev, [key]: saved }));
+      }
+    } catch (err) {
+      console.error(err);
+      setVerificationError(err instanceof Error ? err.message : 'Failed to save verification');
+    }
+  };
+
+  // Notes keep the original reviewer and timestamp
+  const handleVerificationNote = async (t: ShopifyTransaction, note: string) => {
+    const key = getVerificationKey(t);
+    const existing = verifications[key];
+    if (!existing) return;
+    setVerificationError(null);
+    try {
+      const saved = await saveVerification(key, { ...existing, note: note.trim() });
+      setVerifications(prev => ({ ...prev, [key]: saved }));
+    } catch (err) {
+      console.error(err);
+      setVerificationError(err instanceof Error ? err.message : 'Failed to save verification note');
+    }
+  };
+
+  const handlePostJournals = (batch: DailyJournalBatch) => {
+    setJournalBatch(batch);
+    setShowJournals(false);
+    setViewMode('IIF');
+  };
+
+  // A clicked chart segment narrows the ledger, which is then shown
+  const handleChartFilter = (changes: Partial<LedgerFilter>) => {
+    setLedgerFilter(prev => ({ ...prev, ...changes }));
+    setLedgerTab('LEDGER');
+  };
+
   const handleDownloadPDF = () => {
-    if (summary) {
-      generateTransactionPDF(summary, reportSource);
+    if (exportSummary) {
+      generateTransactionPDF(exportSummary, verifications, reportTemplate);
     }
   };
 
-  const getStatusColor = (type: string) => {
-    const t = type.toLowerCase();
-    if (t.includes('pending')) return 'text-amber-400 border-amber-500/50';
-    if (t.includes('paid') || t.includes('success') || t.includes('captured') || t.includes('authorized')) 
-      return 'text-cyan-400 border-cyan-500/50 shadow-[0_0_10px_-4px_rgba(34,211,238,0.5)]';
-    if (t.includes('refund') || t.includes('voided') || t.includes('failed'))
-      return 'text-pink-500 border-pink-500/50 shadow-[0_0_10px_-4px_rgba(236,72,153,0.5)]';
-    return 'text-zinc-400 border-zinc-600';
+  const handleDownloadCsv = () => {
+    if (exportSummary) {
+      downloadTextFile(buildLedgerCsv(exportSummary), getLedgerFileName(exportSummary, 'csv'), 'text/csv;charset=utf-8;');
+    }
   };
 
-  const getCardTypeColor = (brand: string) => {
-    const b = brand.toLowerCase();
-    if (b.includes('visa')) return 'text-blue-400 border-blue-500/30';
-    if (b.includes('mastercard')) return 'text-orange-400 border-orange-500/30';
-    if (b.includes('amex') || b.includes('american express')) return 'text-cyan-300 border-cyan-500/30';
-    return 'text-zinc-500 border-zinc-700';
+  const handleDownloadXlsx = () => {
+    if (exportSummary) {
+      downloadBinaryFile(buildLedgerWorkbook(exportSummary), getLedgerFileName(exportSummary, 'xlsx'), XLSX_MIME_TYPE);
+    }
   };
 
+
   return (
     <div className="min-h-screen bg-zinc-950 text-zinc-50 flex flex-col font-sans selection:bg-pink-500 selection:text-white">
       {/* Unified Header */}
@@ -91,32 +443,120 @@ const App: React.FC = () => {
             </div>
             <div>
               <h1 className="text-xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-white tracking-tight">
-                {viewMode === 'SHOPIFY' ? `${reportSource === 'SHOPIFY' ? 'Shopify' : 'PayPal'} Reporter` : 'IIF//QBO Converter'}
+                {viewMode === 'SHOPIFY' ? `${reportLabels.label} Reporter` : 'IIF//QBO Converter'}
               </h1>
             </div>
           </div>
           
-          <button
-            onClick={() => setViewMode(viewMode === 'SHOPIFY' ? 'IIF' : 'SHOPIFY')}
-            className={`group relative px-6 py-2 bg-zinc-900 border ${viewMode === 'SHOPIFY' ? 'border-pink-500/50 hover:border-pink-500 text-pink-400' : 'border-cyan-500/50 hover:border-cyan-500 text-cyan-400'} hover:text-white rounded flex items-center gap-3 text-xs font-bold font-mono uppercase tracking-wider transition-all shadow-lg overflow-hidden`}
-           >
-            {/* Gloss effect */}
-            <div className="absolute inset-0 bg-white/5 translate-x-[-100%] group-hover:translate-x-[100%] transition-transform duration-700 skew-x-12"></div>
-            
-            <ArrowLeftRight className="w-4 h-4" />
-            <span>SWITCH TO {viewMode === 'SHOPIFY' ? 'IIF CONVERTER' : 'SHOPIFY REPORT'}</span>
-          </button>
+          <div className="flex items-center gap-3">
+            {viewMode === 'SHOPIFY' && (
+              <button
+                onClick={() => { setShowSettings(!showSettings); setShowCurrencySettings(false); setShowTemplateSettings(false); setShowComparison(false); }}
+                title={describeReportingSettings(reportingSettings)}
+                className={`px-4 py-2 bg-zinc-900 border rounded flex items-center gap-2 text-xs font-bold font-mono uppercase tracking-wider transition-all ${showSettings ? 'border-cyan-500 text-cyan-400' : 'border-zinc-700 text-zinc-400 hover:text-white hover:border-zinc-500'}`}
+              >
+                <Settings className="w-4 h-4" />
+                <span>REPORTING DAY</span>
+              </button>
+            )}
+
+            {viewMode === 'SHOPIFY' && (
+              <button
+                onClick={() => { setShowCurrencySettings(!showCurrencySettings); setShowSettings(false); setShowTemplateSettings(false); setShowComparison(false); }}
+                title={`Totals in ${currencySettings.homeCurrency}`}
+                className={`px-4 py-2 bg-zinc-900 border rounded flex items-center gap-2 text-xs font-bold font-mono uppercase tracking-wider transition-all ${showCurrencySettings ? 'border-cyan-500 text-cyan-400' : 'border-zinc-700 text-zinc-400 hover:text-white hover:border-zinc-500'}`}
+              >
+                <Coins className="w-4 h-4" />
+                <span>CURRENCY</span>
+              </button>
+            )}
+
+            {viewMode === 'SHOPIFY' && (
+              <button
+                onClick={() => { setShowTemplateSettings(!showTemplateSettings); setShowSettings(false); setShowCurrencySettings(false); setShowComparison(false); }}
+                title={reportTemplate.layout === 'consolidated' ? 'One PDF for the period' : 'One PDF per reporting day'}
+                className={`px-4 py-2 bg-zinc-900 border rounded flex items-center gap-2 text-xs font-bold font-mono uppercase tracking-wider transition-all ${showTemplateSettings ? 'border-cyan-500 text-cyan-400' : 'border-zinc-700 text-zinc-400 hover:text-white hover:border-zinc-500'}`}
+              >
+                <LayoutTemplate className="w-4 h-4" />
+                <span>PDF TEMPLATE</span>
+              </button>
+            )}
+
+            {viewMode === 'SHOPIFY' && (
+              <button
+                onClick={() => { setShowComparison(!showComparison); setShowSettings(false); setShowCurrencySettings(false); setShowTemplateSettings(false); }}
+                title={`${snapshots.length} saved report snapshot(s)`}
+                className={`px-4 py-2 bg-zinc-900 border rounded flex items-center gap-2 text-xs font-bold font-mono uppercase tracking-wider transition-all ${showComparison ? 'border-cyan-500 text-cyan-400' : 'border-zinc-700 text-zinc-400 hover:text-white hover:border-zinc-500'}`}
+              >
+                <GitCompare className="w-4 h-4" />
+                <span>COMPARE</span>
+              </button>
+            )}
+
+            <button
+              onClick={() => { setViewMode(viewMode === 'SHOPIFY' ? 'IIF' : 'SHOPIFY'); setJournalBatch(null); }}
+              className={`group relative px-6 py-2 bg-zinc-900 border ${viewMode === 'SHOPIFY' ? 'border-pink-500/50 hover:border-pink-500 text-pink-400' : 'border-cyan-500/50 hover:border-cyan-500 text-cyan-400'} hover:text-white rounded flex items-center gap-3 text-xs font-bold font-mono uppercase tracking-wider transition-all shadow-lg overflow-hidden`}
+             >
+              {/* Gloss effect */}
+              <div className="absolute inset-0 bg-white/5 translate-x-[-100%] group-hover:translate-x-[100%] transition-transform duration-700 skew-x-12"></div>
+              
+              <ArrowLeftRight className="w-4 h-4" />
+              <span>SWITCH TO {viewMode === 'SHOPIFY' ? 'IIF CONVERTER' : 'SHOPIFY REPORT'}</span>
+            </button>
+          </div>
         </div>
       </header>
 
       <main className="flex-1 w-full relative">
         {viewMode === 'IIF' ? (
           <div className="absolute inset-0">
-             <IIFConverter />
+             <IIFConverter journalBatch={journalBatch} />
           </div>
         ) : (
           <div className="max-w-7xl mx-auto p-6 space-y-8">
-            {status === ReportStatus.IDLE || status === ReportStatus.ERROR ? (
+            {showSettings ? (
+              <ReportingSettingsPanel
+                settings={reportingSettings}
+                onSave={handleSaveSettings}
+                onClose={() => setShowSettings(false)}
+              />
+            ) : showCurrencySettings ? (
+              <CurrencySettingsPanel
+                settings={currencySettings}
+                conversionRates={summary?.conversionRates ?? {}}
+                onSave={handleSaveCurrencySettings}
+                onClose={() => setShowCurrencySettings(false)}
+              />
+            ) : showTemplateSettings ? (
+              <ReportTemplatePanel
+                template={reportTemplate}
+                onSave={handleSaveReportTemplate}
+                onClose={() => setShowTemplateSettings(false)}
+              />
+            ) : showComparison ? (
+              <SnapshotComparisonPanel
+                snapshots={snapshots}
+                onRename={handleRenameSnapshot}
+                onDelete={handleDeleteSnapshot}
+                onClose={() => setShowComparison(false)}
+              />
+            ) : showJournals && summary ? (
+              <DailyJournalPanel
+                summary={summary}
+                homeCurrency={currencySettings.homeCurrency}
+                onPostToQBO={handlePostJournals}
+                onClose={() => setShowJournals(false)}
+              />
+            ) : status === ReportStatus.MAPPING && pendingImport ? (
+              <ColumnMappingWizard
+                key={pendingImport.layouts[0].fingerprint}
+                preview={pendingImport.layouts[0].preview}
+                fileNames={pendingImport.layouts[0].fileNames}
+                suggestedMapping={suggestColumnMapping(pendingImport.layouts[0].preview.headers)}
+                onSave={handleSaveColumnMapping}
+                onCancel={handleCancelColumnMapping}
+              />
+            ) : status === ReportStatus.IDLE || status === ReportStatus.ERROR ? (
               <div className="flex-1 flex flex-col items-center justify-center min-h-[400px]">
                 <label className="w-full max-w-xl p-10 border border-dashed rounded-none transition-all duration-300 cursor-pointer flex flex-col items-center justify-center gap-4 group relative overflow-hidden backdrop-blur-sm border-zinc-700 bg-zinc-900/30 hover:border-cyan-500 hover:bg-cyan-950/20 hover:shadow-[0_0_30px_-5px_rgba(34,211,238,0.3)]">
                   {/* Corner Markers */}
@@ -139,7 +579,7 @@ const App: React.FC = () => {
                   
                   <div className="text-center">
                     <p className="text-lg font-bold text-zinc-200 group-hover:text-white transition-colors tracking-wide">
-                        DROP {reportSource} .CSV(s)
+                        DROP PAYMENT .CSV(s)
                     </p>
                     <p className="text-zinc-500 font-mono text-sm mt-1 group-hover:text-cyan-500/70">or click to browse files</p>
                   </div>
@@ -151,31 +591,36 @@ const App: React.FC = () => {
                   )}
                 </label>
 
-                {/* Report Source Toggle */}
-                <div className="mt-8 flex p-1 bg-zinc-900 rounded-lg border border-zinc-800 w-full max-w-sm mx-auto shadow-xl relative">
-                    <button 
-                      onClick={() => setReportSource('SHOPIFY')} 
-                      className={`flex-1 py-2 text-sm font-bold font-mono rounded-md transition-all duration-300 relative z-10 ${reportSource === 'SHOPIFY' ? 'text-black' : 'text-zinc-400'}`}
-                    >
-                      SHOPIFY
-                    </button>
-                    <button 
-                      onClick={() => setReportSource('PAYPAL')} 
-                      className={`flex-1 py-2 text-sm font-bold font-mono rounded-md transition-all duration-300 relative z-10 ${reportSource === 'PAYPAL' ? 'text-black' : 'text-zinc-400'}`}
-                    >
-                      PAYPAL
-                    </button>
-                    
-                    {/* Sliding Background */}
-                    <div 
-                      className={`absolute top-1 bottom-1 rounded-md transition-all duration-300 shadow-lg w-[calc(50%-4px)] ${
-                        reportSource === 'SHOPIFY' 
-                          ? 'left-1 bg-cyan-500' 
-                          : 'translate-x-full bg-blue-500'
-                      }`}
-                    ></div>
+                {/* Supported Sources (detected per file) */}
+                <div className="mt-8 flex flex-wrap justify-center gap-2 w-full max-w-xl mx-auto">
+                    {PROCESSORS.map(processor => (
+                      <span key={processor.source} className={`text-[10px] font-bold font-mono px-3 py-1 rounded border uppercase tracking-wider ${SOURCE_BADGES[processor.source]}`}>
+                        {processor.label}
+                      </span>
+                    ))}
                 </div>
 
+                {/* Saved Import Profiles */}
+                {importProfiles.length > 0 && (
+                  <div className="mt-6 w-full max-w-sm mx-auto">
+                    <p className="text-[10px] font-bold font-mono text-zinc-500 uppercase tracking-widest mb-2">Import Profiles</p>
+                    <div className="flex flex-wrap gap-2">
+                      {importProfiles.map(profile => (
+                        <span
+                          key={profile.id}
+                          title={profile.headers.join(', ')}
+                          className="flex items-center gap-2 px-2 py-1 text-xs font-mono text-zinc-300 border border-zinc-700 rounded"
+                        >
+                          {profile.name}
+                          <button onClick={() => handleDeleteImportProfile(profile)} className="text-zinc-600 hover:text-pink-500 transition-colors">
+                            <X className="w-3 h-3" />
+                          </button>
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
               </div>
             ) : status === ReportStatus.PROCESSING ? (
               <div className="flex flex-col items-center justify-center min-h-[70vh]">
@@ -184,7 +629,7 @@ const App: React.FC = () => {
                   <RefreshCcw className="absolute inset-0 m-auto w-10 h-10 text-cyan-500 animate-pulse" />
                 </div>
                 <p className="mt-8 text-cyan-400 font-mono font-bold text-xl animate-pulse tracking-widest uppercase">
-                    PROCESSING {reportSource} FILES...
+                    PROCESSING PAYMENT FILES...
                 </p>
               </div>
             ) : (
@@ -193,7 +638,7 @@ const App: React.FC = () => {
                 <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
                   <StatCard 
                     label="Total Balance" 
-                    value={`$${summary?.totalAmount.toLocaleString(undefined, { minimumFractionDigits: 2 })}`} 
+                    value={money(summary?.totalAmount ?? 0)} 
                     icon={<BarChart3 className="text-cyan-400" />}
                     trend="LEDGER SUM"
                   />
@@ -224,96 +669,167 @@ const App: React.FC = () => {
                   </div>
                 </div>
 
+                <ReconciliationPanel
+                  reconciliation={reconciliation}
+                  settings={reconciliationSettings}
+                  currency={homeCurrency}
+                  statementFiles={statementFiles}
+                  isImporting={isImportingStatement}
+                  errorMessage={reconciliationError}
+                  onImport={handleImportStatements}
+                  onSettingsChange={handleReconciliationSettingsChange}
+                  onClear={handleClearStatements}
+                  onDownloadPDF={() => summary && reconciliation && generateReconciliationPDF(summary, reconciliation)}
+                />
+
+                {/* Source Breakdown */}
+                {summary && summary.sourceTotals.length > 0 && (
+                  <div className="flex flex-wrap gap-4 mb-8">
+                    {summary.sourceTotals.map(totals => (
+                      <div key={totals.source} className={`bg-zinc-900 border-l-2 ${SOURCE_BADGES[totals.source]} px-5 py-3 shadow-lg`}>
+                        <p className="text-[10px] font-bold font-mono uppercase tracking-widest">{getProcessor(totals.source).label}</p>
+                        <p className="text-lg font-bold text-white font-mono mt-1">
+                          {money(totals.amount)}
+                        </p>
+                        <p className="text-[10px] font-mono text-zinc-500 uppercase tracking-wider">
+                          {totals.count} Txns · Net {money(totals.net)}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {/* Currency Breakdown, in each currency's own units */}
+                {summary && summary.currencyTotals.length > 1 && (
+                  <div className="flex flex-wrap gap-4 mb-8">
+                    {summary.currencyTotals.map(totals => (
+                      <div key={totals.currency} className={`bg-zinc-900 border-l-2 px-5 py-3 shadow-lg ${totals.homeRate === null ? 'border-pink-500 text-pink-400' : 'border-zinc-500 text-zinc-300'}`}>
+                        <p className="text-[10px] font-bold font-mono uppercase tracking-widest">
+                          {totals.currency}
+                          {totals.currency !== homeCurrency && (
+                            <span className="text-zinc-500 ml-2">
+                              {totals.homeRate === null
+                                ? 'NO RATE · NOT IN TOTALS'
+                                : `@ ${totals.homeRate.toFixed(4)}${summary.conversionRates[totals.currency]?.source === 'paypal' ? ' PAYPAL' : ''}`}
+                            </span>
+                          )}
+                        </p>
+                        <p className="text-lg font-bold text-white font-mono mt-1">
+                          {formatMoney(totals.amount, totals.currency)}
+                        </p>
+                        <p className="text-[10px] font-mono text-zinc-500 uppercase tracking-wider">
+                          {totals.count} Txns · Net {formatMoney(totals.net, totals.currency)}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
                 <div className="w-full">
                   <div className="bg-zinc-900/50 border border-zinc-800 backdrop-blur-sm shadow-2xl">
                     <div className="px-6 py-6 border-b border-zinc-800 flex items-center justify-between bg-zinc-900">
                       <div>
                         <h3 className="font-bold text-white text-xl tracking-tight flex items-center gap-2">
                             <span className="w-2 h-6 bg-cyan-500 block"></span>
-                            LEDGER BREAKDOWN
+                            {(['LEDGER', 'ANALYTICS'] as const).map(tab => (
+                              <button
+                                key={tab}
+                                onClick={() => setLedgerTab(tab)}
+                                className={`px-2 transition-colors ${ledgerTab === tab ? 'text-white' : 'text-zinc-600 hover:text-zinc-300'}`}
+                              >
+                                {tab === 'LEDGER' ? 'LEDGER BREAKDOWN' : 'ANALYTICS'}
+                              </button>
+                            ))}
                         </h3>
                       </div>
-                      <button 
-                        onClick={() => { setSummary(null); setStatus(ReportStatus.IDLE); }}
-                        className="text-xs font-mono font-bold px-4 py-2 bg-zinc-800 hover:bg-zinc-700 hover:text-white text-zinc-400 border border-zinc-700 hover:border-zinc-500 uppercase tracking-widest transition-all flex items-center gap-2"
-                      >
-                        <RefreshCcw className="w-3 h-3" /> UPLOAD NEW
-                      </button>
+                      <div className="flex items-center gap-3">
+                        <label className="flex items-center gap-2 text-[10px] font-bold font-mono text-zinc-500 uppercase tracking-widest">
+                          Reviewer
+                          <input
+                            value={reviewer}
+                            onChange={(e) => { setReviewer(e.target.value); setVerificationError(null); }}
+                            placeholder="Name"
+                            className="w-40 bg-zinc-950 border border-zinc-800 focus:border-cyan-500 outline-none px-2 py-2 text-xs font-mono text-zinc-200 normal-case tracking-normal"
+                          />
+                        </label>
+                        <button
+                          onClick={() => setShowJournals(true)}
+                          className="text-xs font-mono font-bold px-4 py-2 bg-zinc-800 hover:bg-green-600 hover:text-white text-green-400 border border-green-600/50 uppercase tracking-widest transition-all flex items-center gap-2"
+                        >
+                          <BookOpen className="w-3 h-3" /> QBO JOURNALS
+                        </button>
+                        <button
+                          onClick={handleDownloadCsv}
+                          title={exportSummary !== summary ? 'Filtered rows only' : 'All rows'}
+                          className="text-xs font-mono font-bold px-4 py-2 bg-zinc-800 hover:bg-cyan-500 hover:text-black text-cyan-400 border border-cyan-500/50 uppercase tracking-widest transition-all flex items-center gap-2"
+                        >
+                          <Download className="w-3 h-3" /> CSV
+                        </button>
+                        <button
+                          onClick={handleDownloadXlsx}
+                          title={exportSummary !== summary ? 'Filtered rows only' : 'All rows'}
+                          className="text-xs font-mono font-bold px-4 py-2 bg-zinc-800 hover:bg-cyan-500 hover:text-black text-cyan-400 border border-cyan-500/50 uppercase tracking-widest transition-all flex items-center gap-2"
+                        >
+                          <Download className="w-3 h-3" /> XLSX
+                        </button>
+                        <button 
+                          onClick={() => { setSummary(null); handleClearStatements(); setLedgerFilter(EMPTY_LEDGER_FILTER); setStatus(ReportStatus.IDLE); }}
+                          className="text-xs font-mono font-bold px-4 py-2 bg-zinc-800 hover:bg-zinc-700 hover:text-white text-zinc-400 border border-zinc-700 hover:border-zinc-500 uppercase tracking-widest transition-all flex items-center gap-2"
+                        >
+                          <RefreshCcw className="w-3 h-3" /> UPLOAD NEW
+                        </button>
+                      </div>
                     </div>
+
+                    {verificationError && (
+                      <div className="px-6 py-3 bg-pink-950/30 border-b border-pink-500/50 text-pink-400 text-sm font-mono">
+                        <span className="font-bold text-pink-500">[ERROR]</span> {verificationError}
+                      </div>
+                    )}
                     
-                    {summary?.dailyGroups.map((group) => (
-                      <div key={group.date} className="border-b border-zinc-800/50 last:border-b-0">
-                        {/* Group Header */}
-                        <div className="px-6 py-3 bg-zinc-900/80 border-b border-zinc-800 flex items-center justify-between sticky top-0 backdrop-blur-md z-10">
-                          <div className="flex items-center gap-3">
-                            <CalendarDays className="w-4 h-4 text-cyan-500" />
-                            <span className="text-zinc-200 font-bold font-mono">{group.date}</span>
-                          </div>
-                          <div className="flex items-center gap-6">
-                            <span className="text-[10px] font-bold font-mono text-zinc-500 uppercase tracking-widest">
-                               {group.count} Txns
-                            </span>
-                            <span className="text-cyan-400 font-mono font-bold">
-                               ${group.subtotal.toLocaleString(undefined, { minimumFractionDigits: 2 })}
-                            </span>
+                    {summary && (
+                      <>
+                        <LedgerFilterBar filter={ledgerFilter} options={ledgerFilterOptions} onChange={setLedgerFilter} />
+
+                        {/* Filtered Totals */}
+                        {isFiltered && filteredSummary && (
+                          <div className="px-6 py-2 border-b border-zinc-800 flex flex-wrap items-center gap-4 bg-cyan-950/10 text-[10px] font-bold font-mono uppercase tracking-widest">
+                            <span className="text-cyan-400">{filteredSummary.transactionCount} of {summary.transactionCount} Txns</span>
+                            <span className="text-zinc-400">Gross {money(filteredSummary.totalAmount)}</span>
+                            <span className="text-zinc-400">Fees {money(filteredSummary.totalFees)}</span>
+                            <span className="text-zinc-400">Net {money(filteredSummary.totalNet)}</span>
+                            <label className="ml-auto flex items-center gap-2 text-zinc-500 cursor-pointer">
+                              <input
+                                type="checkbox"
+                                checked={exportFiltered}
+                                onChange={(e) => setExportFiltered(e.target.checked)}
+                                className="accent-cyan-500"
+                              />
+                              Exports cover filtered rows only
+                            </label>
                           </div>
-                        </div>
-
-                        <div className="overflow-x-auto">
-                          <table className="w-full text-left">
-                            <thead className="bg-zinc-950/50 text-cyan-500/70 text-[10px] font-bold font-mono uppercase tracking-wider border-b border-zinc-800">
-                              <tr>
-                                <th className="px-6 py-3">Time</th>
-                                <th className="px-6 py-3">Reference</th>
-                                <th className="px-6 py-3">Status</th>
-                                <th className="px-6 py-3">Card Type</th>
-                                <th className="px-6 py-3 text-right">Amount</th>
-                                <th className="px-6 py-3 text-center">Verify</th>
-                              </tr>
-                            </thead>
-                            <tbody className="divide-y divide-zinc-800/50">
-                              {group.transactions.map((t) => (
-                                <tr key={t.id} className="hover:bg-cyan-500/5 transition-all group">
-                                  <td className="px-6 py-3">
-                                    <div className="text-xs font-mono text-zinc-500 group-hover:text-zinc-300">
-                                      {new Date(t.dateTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                                    </div>
-                                  </td>
-                                  <td className="px-6 py-3">
-                                    <div className="flex flex-col">
-                                      <span className="text-sm font-bold text-zinc-200 group-hover:text-cyan-400 transition-colors">
-                                        {t.orderNumber}
-                                      </span>
-                                      <span className="text-[10px] text-zinc-600 font-mono uppercase tracking-wider mt-0.5">
-                                        {t.customerName}
-                                      </span>
-                                    </div>
-                                  </td>
-                                  <td className="px-6 py-3">
-                                    <span className={`text-[9px] font-bold px-2 py-1 rounded border ${getStatusColor(t.type)} uppercase tracking-wider`}>
-                                      {t.type}
-                                    </span>
-                                  </td>
-                                  <td className="px-6 py-3">
-                                    <span className={`text-[9px] font-bold px-2 py-1 rounded border ${getCardTypeColor(t.cardBrand)} uppercase tracking-wider`}>
-                                      {t.cardBrand}
-                                    </span>
-                                  </td>
-                                  <td className="px-6 py-3 text-right">
-                                    <span className={`font-mono font-bold tracking-tight ${t.amount < 0 ? 'text-pink-500' : 'text-zinc-200'}`}>
-                                      ${t.amount.toLocaleString(undefined, { minimumFractionDigits: 2 })}
-                                    </span>
-                                  </td>
-                                  <td className="px-6 py-3 text-center">
-                                    <div className="w-4 h-4 border border-zinc-700 rounded-sm mx-auto flex items-center justify-center bg-zinc-900 group-hover:border-cyan-500/50 transition-colors"></div>
-                                  </td>
-                                </tr>
-                              ))}
-                            </tbody>
-                          </table>
-                        </div>
-                      </div>
-                    ))}
+                        )}
+
+                        {ledgerTab === 'ANALYTICS' ? (
+                          <AnalyticsView
+                            summary={filteredSummary ?? summary}
+                            currency={homeCurrency}
+                            onFilter={handleChartFilter}
+                          />
+                        ) : (
+                          <LedgerView
+                            summary={filteredSummary ?? summary}
+                            sort={ledgerSort}
+                            onSortChange={setLedgerSort}
+                            reportingSettings={reportingSettings}
+                            reconciliation={reconciliation}
+                            verifications={verifications}
+                            onToggleVerification={handleToggleVerification}
+                            onVerificationNote={handleVerificationNote}
+                          />
+                        )}
+                      </>
+                    )}
                   </div>
                 </div>
               </div>
@@ -0,0 +1,203 @@
+import React, { useState, useRef } from 'react';
+import { AccountMappings, DEFAULT_ACCOUNT_MAPPINGS } from '../services/converter.service';
+import {
+  AccountMappingRow,
+  MappingMode,
+  MAPPING_MODES,
+  mappingsToRows,
+  rowsToMappings,
+  mappingsToCSV,
+  mappingsToJSON,
+  parseMappingsFile
+} from '../services/accountMappings';
+import { downloadTextFile } from '../services/download';
+
+interface AccountMappingEditorProps {
+  mappings: AccountMappings;
+  onSave: (mappings: AccountMappings) => Promise<void>;
+  onClose: () => void;
+}
+
+export const AccountMappingEditor: React.FC<AccountMappingEditorProps> = ({ mappings, onSave, onClose }) => {
+  const [rows, setRows] = useState<AccountMappingRow[]>(() => mappingsToRows(mappings));
+  const [activeMode, setActiveMode] = useState<MappingMode>('GL');
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDirty, setIsDirty] = useState(false);
+
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const updateRows = (next: AccountMappingRow[]) => {
+    setRows(next);
+    setIsDirty(true);
+    setErrorMessage(null);
+  };
+
+  const updateRow = (index: number, field: 'iifAccount' | 'qboAccount', value: string) => {
+    updateRows(rows.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  const addRow = () => {
+    updateRows([...rows, { mode: activeMode, iifAccount: '', qboAccount: '' }]);
+  };
+
+  const deleteRow = (index: number) => {
+    updateRows(rows.filter((_, i) => i !== index));
+  };
+
+  const resetToDefaults = () => {
+    if (!confirm('Replace all mappings with the built-in defaults?')) return;
+    updateRows(mappingsToRows(DEFAULT_ACCOUNT_MAPPINGS));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setErrorMessage(null);
+    try {
+      await onSave(rowsToMappings(rows));
+      setIsDirty(false);
+    } catch (err: unknown) {
+      setErrorMessage(err instanceof Error ? err.message : 'Failed to save mappings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleExport = (format: 'csv' | 'json') => {
+    try {
+      const current = rowsToMappings(rows);
+      if (format === 'csv') {
+        downloadTextFile(mappingsToCSV(current), 'account-mappings.csv', 'text/csv;charset=utf-8;');
+      } else {
+        downloadTextFile(mappingsToJSON(current), 'account-mappings.json', 'application/json;charset=utf-8;');
+      }
+    } catch (err: unknown) {
+      setErrorMessage(err instanceof Error ? err.message : 'Failed to export mappings');
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const imported = parseMappingsFile(await file.text(), file.name);
+      updateRows(mappingsToRows(imported));
+    } catch (err: unknown) {
+      setErrorMessage(err instanceof Error ? err.message : 'Failed to import mappings');
+    } finally {
+      event.target.value = '';
+    }
+  };
+
+  const handleClose = () => {
+    if (isDirty && !confirm('Discard unsaved mapping changes?')) return;
+    onClose();
+  };
+
+  const visibleRows = rows
+    .map((row, index) => ({ row, index }))
+    .filter(({ row }) => row.mode === activeMode);
+
+  return (
+    <div className="flex flex-col h-full bg-zinc-900/50 rounded-lg shadow-2xl border border-zinc-800 overflow-hidden backdrop-blur-sm">
+
+      {/* Toolbar */}
+      <div className="p-4 border-b border-zinc-800 flex flex-wrap items-center justify-between gap-4 bg-zinc-900 shrink-0">
+        <div>
+          <h2 className="font-bold text-white tracking-wide">ACCOUNT MAPPINGS</h2>
+          <p className="text-xs font-mono text-zinc-500 mt-1">
+            IIF ACCOUNT <span className="text-cyan-500/50">→</span> QBO ACCOUNT {isDirty && <span className="text-amber-400 ml-2">[UNSAVED]</span>}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <input ref={importInputRef} type="file" accept=".csv,.json" className="hidden" onChange={handleImport} />
+          <button onClick={() => importInputRef.current?.click()} className="px-3 py-2 text-xs font-mono text-zinc-400 hover:text-white hover:bg-zinc-800 border border-zinc-700 rounded transition-all">
+            IMPORT
+          </button>
+          <button onClick={() => handleExport('csv')} className="px-3 py-2 text-xs font-mono text-zinc-400 hover:text-white hover:bg-zinc-800 border border-zinc-700 rounded transition-all">
+            EXPORT CSV
+          </button>
+          <button onClick={() => handleExport('json')} className="px-3 py-2 text-xs font-mono text-zinc-400 hover:text-white hover:bg-zinc-800 border border-zinc-700 rounded transition-all">
+            EXPORT JSON
+          </button>
+          <button onClick={resetToDefaults} className="px-3 py-2 text-xs font-mono text-zinc-400 hover:text-white hover:bg-zinc-800 border border-transparent hover:border-zinc-700 rounded transition-all">
+            DEFAULTS
+          </button>
+          <button onClick={handleClose} className="px-3 py-2 text-xs font-mono text-zinc-400 hover:text-white hover:bg-zinc-800 border border-transparent hover:border-zinc-700 rounded transition-all">
+            CLOSE
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || !isDirty}
+            className="px-6 py-2 text-sm font-bold text-black bg-cyan-500 hover:bg-cyan-400 disabled:bg-zinc-700 disabled:text-zinc-500 rounded-none transition-all active:scale-95"
+          >
+            {isSaving ? 'SAVING...' : 'SAVE'}
+          </button>
+        </div>
+      </div>
+
+      {errorMessage && (
+        <div className="p-3 bg-pink-950/30 border-b border-pink-500/50 text-pink-400 text-sm font-mono">
+          <span className="font-bold text-pink-500">[ERROR]</span> {errorMessage}
+        </div>
+      )}
+
+      {/* Mode Tabs */}
+      <div className="flex gap-2 px-4 pt-4">
+        {MAPPING_MODES.map(mode => (
+          <button
+            key={mode}
+            onClick={() => setActiveMode(mode)}
+            className={`px-4 py-1 text-xs font-bold font-mono rounded border transition-all ${activeMode === mode ? 'border-cyan-500 text-cyan-400 bg-cyan-500/10' : 'border-zinc-700 text-zinc-500 hover:text-zinc-300'}`}
+          >
+            {mode === 'GL' ? 'GENERAL LEDGER' : 'ACCOUNTS PAYABLE'} ({rows.filter(r => r.mode === mode).length})
+          </button>
+        ))}
+      </div>
+
+      {/* Mapping Table */}
+      <div className="flex-1 overflow-auto p-4">
+        <table className="min-w-full divide-y divide-zinc-800">
+          <thead>
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-bold text-cyan-500/70 font-mono uppercase tracking-wider">IIF Account</th>
+              <th className="px-4 py-2 text-left text-xs font-bold text-cyan-500/70 font-mono uppercase tracking-wider">QBO Account</th>
+              <th className="px-4 py-2 w-16"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-zinc-800/50">
+            {visibleRows.map(({ row, index }) => (
+              <tr key={index} className="group hover:bg-cyan-500/5">
+                <td className="px-4 py-2">
+                  <input
+                    value={row.iifAccount}
+                    onChange={(e) => updateRow(index, 'iifAccount', e.target.value)}
+                    className="w-full bg-zinc-950 border border-zinc-800 focus:border-cyan-500 outline-none px-2 py-1 text-sm font-mono text-pink-400"
+                  />
+                </td>
+                <td className="px-4 py-2">
+                  <input
+                    value={row.qboAccount}
+                    onChange={(e) => updateRow(index, 'qboAccount', e.target.value)}
+                    className="w-full bg-zinc-950 border border-zinc-800 focus:border-cyan-500 outline-none px-2 py-1 text-sm font-mono text-zinc-200"
+                  />
+                </td>
+                <td className="px-4 py-2 text-right">
+                  <button onClick={() => deleteRow(index)} className="text-xs font-mono text-zinc-600 hover:text-pink-500 transition-colors">
+                    DELETE
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <button onClick={addRow} className="mt-4 px-4 py-2 text-xs font-mono font-bold text-cyan-400 border border-dashed border-cyan-500/50 hover:bg-cyan-500/10 transition-all">
+          + ADD {activeMode} MAPPING
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,170 @@
+import React, { useMemo } from 'react';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Legend,
+  Line,
+  LineChart,
+  MouseHandlerDataParam,
+  Pie,
+  PieChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import { LedgerFilter, ReportSummary } from '../types';
+import { buildReportAnalytics } from '../services/analytics';
+import { formatMoney } from '../services/currency';
+import { WEEKDAY_LABELS } from '../services/reportingSettings';
+
+interface AnalyticsViewProps {
+  summary: ReportSummary;
+  currency: string;
+  // Clicking a bar, point, slice or cell narrows the ledger to it
+  onFilter: (changes: Partial<LedgerFilter>) => void;
+}
+
+const CYAN = '#22d3ee';
+const PINK = '#ec4899';
+const PIE_COLORS = ['#22d3ee', '#ec4899', '#a78bfa', '#facc15', '#34d399', '#fb923c', '#71717a'];
+
+const AXIS_PROPS = { stroke: '#52525b', tick: { fill: '#a1a1aa', fontSize: 10, fontFamily: 'monospace' } };
+const TOOLTIP_PROPS = {
+  contentStyle: { background: '#18181b', border: '1px solid #3f3f46', fontFamily: 'monospace', fontSize: 12 },
+  labelStyle: { color: '#e4e4e7' },
+  cursor: { fill: 'rgba(34, 211, 238, 0.08)' }
+};
+
+const ChartCard: React.FC<{ title: string, hint: string, children: React.ReactNode, className?: string }> = ({ title, hint, children, className = '' }) => (
+  <div className={`bg-zinc-900 border border-zinc-800 p-4 ${className}`}>
+    <div className="flex items-baseline justify-between mb-3">
+      <h4 className="text-[10px] font-bold font-mono text-cyan-500/70 uppercase tracking-widest">{title}</h4>
+      <span className="text-[10px] font-mono text-zinc-600">{hint}</span>
+    </div>
+    {children}
+  </div>
+);
+
+const formatPercent = (value: unknown) => `${Number(value).toFixed(2)}%`;
+
+export const AnalyticsView: React.FC<AnalyticsViewProps> = ({ summary, currency, onFilter }) => {
+  const analytics = useMemo(() => buildReportAnalytics(summary), [summary]);
+  const { days, cardBrands, heatmap, maxHourCount } = analytics;
+  const money = (value: unknown) => formatMoney(Number(value), currency);
+
+  // Bars and line points are per reporting day
+  const filterToDay = (state: MouseHandlerDataParam) => {
+    const day = days[Number(state.activeIndex)];
+    if (day) onFilter({ dateFrom: day.dateKey, dateTo: day.dateKey });
+  };
+
+  if (days.length === 0 && cardBrands.length === 0) {
+    return <div className="p-12 text-center text-sm font-mono text-zinc-600">No dated sales to chart.</div>;
+  }
+
+  return (
+    <div className="p-6 grid grid-cols-1 lg:grid-cols-2 gap-4">
+      <ChartCard title="Daily Gross / Net" hint="Click a day to filter" className="lg:col-span-2">
+        <ResponsiveContainer width="100%" height={260}>
+          <BarChart data={days} onClick={filterToDay} style={{ cursor: 'pointer' }}>
+            <CartesianGrid stroke="#27272a" vertical={false} />
+            <XAxis dataKey="date" {...AXIS_PROPS} />
+            <YAxis {...AXIS_PROPS} tickFormatter={(value) => money(value)} width={90} />
+            <Tooltip {...TOOLTIP_PROPS} formatter={(value) => money(value)} />
+            <Legend wrapperStyle={{ fontFamily: 'monospace', fontSize: 11 }} />
+            <Bar dataKey="gross" name="Gross" fill={CYAN} />
+            <Bar dataKey="net" name="Net" fill={PINK} />
+          </BarChart>
+        </ResponsiveContainer>
+      </ChartCard>
+
+      <ChartCard title="Effective Fee Rate" hint="Fees as % of sales">
+        <ResponsiveContainer width="100%" height={220}>
+          <LineChart data={days} onClick={filterToDay} style={{ cursor: 'pointer' }}>
+            <CartesianGrid stroke="#27272a" vertical={false} />
+            <XAxis dataKey="date" {...AXIS_PROPS} />
+            <YAxis {...AXIS_PROPS} tickFormatter={formatPercent} width={60} />
+            <Tooltip {...TOOLTIP_PROPS} formatter={formatPercent} />
+            <Line type="monotone" dataKey="feeRate" name="Fee Rate" stroke={CYAN} strokeWidth={2} dot={{ r: 2 }} connectNulls />
+          </LineChart>
+        </ResponsiveContainer>
+      </ChartCard>
+
+      <ChartCard title="Refund Rate" hint="Refunds as % of sales">
+        <ResponsiveContainer width="100%" height={220}>
+          <LineChart data={days} onClick={filterToDay} style={{ cursor: 'pointer' }}>
+            <CartesianGrid stroke="#27272a" vertical={false} />
+            <XAxis dataKey="date" {...AXIS_PROPS} />
+            <YAxis {...AXIS_PROPS} tickFormatter={formatPercent} width={60} />
+            <Tooltip {...TOOLTIP_PROPS} formatter={formatPercent} />
+            <Line type="monotone" dataKey="refundRate" name="Refund Rate" stroke={PINK} strokeWidth={2} dot={{ r: 2 }} connectNulls />
+          </LineChart>
+        </ResponsiveContainer>
+      </ChartCard>
+
+      <ChartCard title="Card Brand Mix" hint="Sales by card · click a slice">
+        {cardBrands.length === 0 ? (
+          <p className="text-xs font-mono text-zinc-600">No sales.</p>
+        ) : (
+          <ResponsiveContainer width="100%" height={240}>
+            <PieChart>
+              <Pie
+                data={cardBrands}
+                dataKey="amount"
+                nameKey="label"
+                innerRadius={50}
+                outerRadius={90}
+                stroke="#18181b"
+                onClick={(_, index) => onFilter({ cardBrands: cardBrands[index].cardBrands })}
+                style={{ cursor: 'pointer' }}
+              >
+                {cardBrands.map((slice, i) => <Cell key={slice.label} fill={PIE_COLORS[i % PIE_COLORS.length]} />)}
+              </Pie>
+              <Tooltip {...TOOLTIP_PROPS} formatter={(value) => money(value)} />
+              <Legend wrapperStyle={{ fontFamily: 'monospace', fontSize: 11 }} />
+            </PieChart>
+          </ResponsiveContainer>
+        )}
+      </ChartCard>
+
+      <ChartCard title="Sales by Hour" hint="Store time · click a cell, day or hour">
+        <div className="overflow-x-auto">
+          <div className="grid gap-px min-w-[32rem]" style={{ gridTemplateColumns: '2.5rem repeat(24, minmax(0, 1fr))' }}>
+            <span />
+            {Array.from({ length: 24 }, (_, hour) => (
+              <button
+                key={hour}
+                onClick={() => onFilter({ weekdays: [], hours: [hour] })}
+                className="text-[9px] font-mono text-zinc-500 hover:text-cyan-400 text-center"
+              >
+                {hour % 3 === 0 ? hour : ''}
+              </button>
+            ))}
+            {WEEKDAY_LABELS.map((label, weekday) => (
+              <React.Fragment key={label}>
+                <button
+                  onClick={() => onFilter({ weekdays: [weekday], hours: [] })}
+                  className="text-[9px] font-bold font-mono text-zinc-500 hover:text-cyan-400 text-left"
+                >
+                  {label}
+                </button>
+                {heatmap.slice(weekday * 24, weekday * 24 + 24).map(cell => (
+                  <button
+                    key={cell.hour}
+                    onClick={() => onFilter({ weekdays: [weekday], hours: [cell.hour] })}
+                    title={`${label} ${String(cell.hour).padStart(2, '0')}:00 · ${cell.count} sales · ${money(cell.amount)}`}
+                    className="h-5 border border-transparent hover:border-cyan-400"
+                    style={{ backgroundColor: cell.count === 0 ? '#18181b' : `rgba(34, 211, 238, ${0.15 + 0.85 * cell.count / maxHourCount})` }}
+                  />
+                ))}
+              </React.Fragment>
+            ))}
+          </div>
+        </div>
+      </ChartCard>
+    </div>
+  );
+};
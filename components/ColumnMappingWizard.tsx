@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { ColumnMapping, CsvPreview, TransactionField } from '../types';
+import { TRANSACTION_FIELDS, validateColumnMapping } from '../services/importProfiles';
+
+interface ColumnMappingWizardProps {
+  preview: CsvPreview;
+  fileNames: string[];            // Every uploaded file with this layout
+  suggestedMapping: ColumnMapping;
+  onSave: (name: string, mapping: ColumnMapping) => Promise<void>;
+  onCancel: () => void;
+}
+
+// Editable form: CSV header -> field it feeds ('' = ignored)
+const toAssignments = (headers: string[], mapping: ColumnMapping): Record<string, TransactionField | ''> => {
+  const assignments: Record<string, TransactionField | ''> = {};
+  headers.forEach(header => { assignments[header] = ''; });
+  (Object.keys(mapping) as TransactionField[]).forEach(field => {
+    const header = mapping[field];
+    if (header && header in assignments) assignments[header] = field;
+  });
+  return assignments;
+};
+
+export const ColumnMappingWizard: React.FC<ColumnMappingWizardProps> = ({ preview, fileNames, suggestedMapping, onSave, onCancel }) => {
+  const [assignments, setAssignments] = useState(() => toAssignments(preview.headers, suggestedMapping));
+  const [profileName, setProfileName] = useState(preview.fileName.replace(/\.csv$/i, ''));
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // A field feeds from one column: picking it here clears it from any other column
+  const assign = (header: string, field: TransactionField | '') => {
+    setAssignments(prev => {
+      const next = { ...prev };
+      if (field) {
+        Object.keys(next).forEach(h => { if (next[h] === field) next[h] = ''; });
+      }
+      next[header] = field;
+      return next;
+    });
+    setErrorMessage(null);
+  };
+
+  const handleSave = async () => {
+    const mapping: ColumnMapping = {};
+    Object.keys(assignments).forEach(header => {
+      const field = assignments[header];
+      if (field) mapping[field] = header;
+    });
+
+    setIsSaving(true);
+    setErrorMessage(null);
+    try {
+      if (!profileName.trim()) throw new Error('Give the import profile a name.');
+      await onSave(profileName.trim(), validateColumnMapping(mapping));
+    } catch (err: unknown) {
+      setErrorMessage(err instanceof Error ? err.message : 'Failed to save import profile');
+      setIsSaving(false);
+    }
+  };
+
+  const assignedFields = Object.values(assignments);
+
+  return (
+    <div className="bg-zinc-900/50 rounded-lg shadow-2xl border border-zinc-800 overflow-hidden backdrop-blur-sm">
+
+      {/* Toolbar */}
+      <div className="p-4 border-b border-zinc-800 flex flex-wrap items-center justify-between gap-4 bg-zinc-900">
+        <div>
+          <h2 className="font-bold text-white tracking-wide">MAP CSV COLUMNS</h2>
+          <p className="text-xs font-mono text-zinc-500 mt-1">
+            UNRECOGNIZED LAYOUT <span className="text-cyan-500/50">→</span> {fileNames.join(', ')}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <input
+            value={profileName}
+            onChange={(e) => setProfileName(e.target.value)}
+            placeholder="Profile name"
+            className="bg-zinc-950 border border-zinc-800 focus:border-cyan-500 outline-none px-2 py-2 text-xs font-mono text-zinc-200 w-56"
+          />
+          <button onClick={onCancel} className="px-3 py-2 text-xs font-mono text-zinc-400 hover:text-white hover:bg-zinc-800 border border-transparent hover:border-zinc-700 rounded transition-all">
+            CANCEL
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="px-6 py-2 text-sm font-bold text-black bg-cyan-500 hover:bg-cyan-400 disabled:bg-zinc-700 disabled:text-zinc-500 rounded-none transition-all active:scale-95"
+          >
+            {isSaving ? 'SAVING...' : 'SAVE & IMPORT'}
+          </button>
+        </div>
+      </div>
+
+      {errorMessage && (
+        <div className="p-3 bg-pink-950/30 border-b border-pink-500/50 text-pink-400 text-sm font-mono">
+          <span className="font-bold text-pink-500">[ERROR]</span> {errorMessage}
+        </div>
+      )}
+
+      {/* Required fields status */}
+      <div className="flex flex-wrap gap-2 px-4 pt-4">
+        {TRANSACTION_FIELDS.map(({ field, label, required }) => (
+          <span
+            key={field}
+            className={`px-3 py-1 text-[10px] font-bold font-mono uppercase rounded border ${assignedFields.includes(field) ? 'border-cyan-500 text-cyan-400 bg-cyan-500/10' : required ? 'border-pink-500/50 text-pink-400' : 'border-zinc-700 text-zinc-500'}`}
+          >
+            {label}{required ? ' *' : ''}
+          </span>
+        ))}
+      </div>
+
+      {/* Header Table */}
+      <div className="overflow-auto p-4">
+        <table className="min-w-full divide-y divide-zinc-800">
+          <thead>
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-bold text-cyan-500/70 font-mono uppercase tracking-wider">CSV Column</th>
+              <th className="px-4 py-2 text-left text-xs font-bold text-cyan-500/70 font-mono uppercase tracking-wider">Sample Values</th>
+              <th className="px-4 py-2 text-left text-xs font-bold text-cyan-500/70 font-mono uppercase tracking-wider">Maps To</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-zinc-800/50">
+            {preview.headers.map(header => (
+              <tr key={header} className="hover:bg-cyan-500/5">
+                <td className="px-4 py-2 text-sm font-mono text-pink-400 whitespace-nowrap">{header}</td>
+                <td className="px-4 py-2 text-xs font-mono text-zinc-400 max-w-md truncate">
+                  {preview.sampleRows.map(row => row[header]).filter(Boolean).join(' · ') || <span className="text-zinc-600">(empty)</span>}
+                </td>
+                <td className="px-4 py-2">
+                  <select
+                    value={assignments[header]}
+                    onChange={(e) => assign(header, e.target.value as TransactionField | '')}
+                    className="w-full bg-zinc-950 border border-zinc-800 focus:border-cyan-500 outline-none px-2 py-1 text-sm font-mono text-zinc-200"
+                  >
+                    <option value="">— Ignore —</option>
+                    {TRANSACTION_FIELDS.map(({ field, label }) => (
+                      <option key={field} value={field}>{label}</option>
+                    ))}
+                  </select>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
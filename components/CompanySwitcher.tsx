@@ -0,0 +1,47 @@
+import React from 'react';
+import { CompanyProfile } from '../types';
+
+interface CompanySwitcherProps {
+  profiles: CompanyProfile[];
+  activeId: string;
+  disabled: boolean;
+  onSwitch: (id: string) => void;
+  onCreate: (name: string) => void;
+}
+
+export const CompanySwitcher: React.FC<CompanySwitcherProps> = ({ profiles, activeId, disabled, onSwitch, onCreate }) => {
+  const active = profiles.find(p => p.id === activeId);
+
+  const handleCreate = () => {
+    const name = prompt('Name for the new company profile:');
+    if (name && name.trim()) onCreate(name.trim());
+  };
+
+  return (
+    <div
+      className="flex items-center bg-zinc-900 border border-zinc-700 rounded shadow-lg"
+      title={active?.realmId ? `QuickBooks company ${active.realmId}` : 'Not linked to a QuickBooks company yet'}
+    >
+      <span className="pl-3 text-[10px] font-bold font-mono text-zinc-500 uppercase tracking-widest">CO</span>
+      <select
+        value={activeId}
+        disabled={disabled}
+        onChange={(e) => onSwitch(e.target.value)}
+        className="bg-transparent px-2 py-2 text-xs font-bold font-mono text-cyan-400 uppercase outline-none cursor-pointer disabled:cursor-not-allowed disabled:text-zinc-600"
+      >
+        {profiles.map(profile => (
+          <option key={profile.id} value={profile.id} className="bg-zinc-900 text-zinc-200">
+            {profile.name}
+          </option>
+        ))}
+      </select>
+      <button
+        onClick={handleCreate}
+        disabled={disabled}
+        className="px-3 py-2 text-xs font-bold font-mono text-zinc-400 hover:text-cyan-400 border-l border-zinc-700 disabled:opacity-40 transition-colors"
+      >
+        + NEW
+      </button>
+    </div>
+  );
+};
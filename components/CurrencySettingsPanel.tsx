@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import { ConversionRate, CurrencySettings } from '../types';
+import { parseRateTable, validateCurrencySettings } from '../services/currency';
+
+interface CurrencySettingsPanelProps {
+  settings: CurrencySettings;
+  conversionRates: Record<string, ConversionRate>;  // Rates the loaded report used, if any
+  onSave: (settings: CurrencySettings) => Promise<void>;
+  onClose: () => void;
+}
+
+export const CurrencySettingsPanel: React.FC<CurrencySettingsPanelProps> = ({ settings, conversionRates, onSave, onClose }) => {
+  const [draft, setDraft] = useState<CurrencySettings>(settings);
+  const [newCurrency, setNewCurrency] = useState('');
+  const [newRate, setNewRate] = useState('');
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDirty, setIsDirty] = useState(false);
+
+  const paypalRates = Object.keys(conversionRates).filter(currency => conversionRates[currency].source === 'paypal');
+
+  const update = (changes: Partial<CurrencySettings>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+    setIsDirty(true);
+    setErrorMessage(null);
+  };
+
+  const updateRate = (currency: string, value: string) => {
+    update({ rates: { ...draft.rates, [currency]: parseFloat(value) } });
+  };
+
+  const addRate = () => {
+    const currency = newCurrency.trim().toUpperCase();
+    const rate = parseFloat(newRate);
+    if (!currency) return;
+    if (!(rate > 0)) {
+      setErrorMessage('Enter a rate above zero.');
+      return;
+    }
+    update({ rates: { ...draft.rates, [currency]: rate } });
+    setNewCurrency('');
+    setNewRate('');
+  };
+
+  const removeRate = (currency: string) => {
+    const rates = { ...draft.rates };
+    delete rates[currency];
+    update({ rates });
+  };
+
+  // Imported rates are merged over the table, so a partial file only updates its own currencies
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseRateTable(await file.text());
+      update({ rates: { ...draft.rates, ...imported } });
+    } catch (err: unknown) {
+      setErrorMessage(err instanceof Error ? err.message : 'Failed to read the rate table');
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setErrorMessage(null);
+    try {
+      await onSave(validateCurrencySettings(draft));
+      setIsDirty(false);
+    } catch (err: unknown) {
+      setErrorMessage(err instanceof Error ? err.message : 'Failed to save currency settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (isDirty && !confirm('Discard unsaved currency settings?')) return;
+    onClose();
+  };
+
+  return (
+    <div className="bg-zinc-900/50 rounded-lg shadow-2xl border border-zinc-800 overflow-hidden backdrop-blur-sm">
+
+      {/* Toolbar */}
+      <div className="p-4 border-b border-zinc-800 flex flex-wrap items-center justify-between gap-4 bg-zinc-900">
+        <div>
+          <h2 className="font-bold text-white tracking-wide">CURRENCY</h2>
+          <p className="text-xs font-mono text-zinc-500 mt-1">
+            Totals in {draft.homeCurrency || '???'} · {draft.convertToHome ? 'foreign amounts converted' : 'foreign amounts totalled separately'}
+            {isDirty && <span className="text-amber-400 ml-2">[UNSAVED]</span>}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button onClick={handleClose} className="px-3 py-2 text-xs font-mono text-zinc-400 hover:text-white hover:bg-zinc-800 border border-transparent hover:border-zinc-700 rounded transition-all">
+            CLOSE
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || !isDirty}
+            className="px-6 py-2 text-sm font-bold text-black bg-cyan-500 hover:bg-cyan-400 disabled:bg-zinc-700 disabled:text-zinc-500 rounded-none transition-all active:scale-95"
+          >
+            {isSaving ? 'SAVING...' : 'SAVE'}
+          </button>
+        </div>
+      </div>
+
+      {errorMessage && (
+        <div className="p-3 bg-pink-950/30 border-b border-pink-500/50 text-pink-400 text-sm font-mono">
+          <span className="font-bold text-pink-500">[ERROR]</span> {errorMessage}
+        </div>
+      )}
+
+      <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-8">
+        {/* Home currency */}
+        <div className="space-y-6">
+          <div>
+            <label className="block text-[10px] font-bold font-mono text-cyan-500/70 uppercase tracking-widest mb-2">Home Currency</label>
+            <input
+              value={draft.homeCurrency}
+              onChange={(e) => update({ homeCurrency: e.target.value.toUpperCase() })}
+              maxLength={3}
+              placeholder="USD"
+              className="w-24 bg-zinc-950 border border-zinc-800 focus:border-cyan-500 outline-none px-2 py-1 text-sm font-mono text-zinc-200 uppercase"
+            />
+            <p className="text-xs font-mono text-zinc-500 mt-2">Report totals, journals and reconciliation are in this currency. A report in a single foreign currency without a rate is totalled in that currency.</p>
+          </div>
+
+          <div>
+            <label className="flex items-center gap-2 text-xs font-mono text-zinc-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={draft.convertToHome}
+                onChange={(e) => update({ convertToHome: e.target.checked })}
+                className="accent-cyan-500"
+              />
+              Convert foreign amounts into the home currency
+            </label>
+            <p className="text-xs font-mono text-zinc-500 mt-2">
+              Off, or without a rate, foreign transactions are still listed and totalled in their own currency but left out of the home totals.
+            </p>
+          </div>
+
+          {paypalRates.length > 0 && (
+            <div>
+              <label className="block text-[10px] font-bold font-mono text-cyan-500/70 uppercase tracking-widest mb-2">From PayPal Conversions</label>
+              <div className="flex flex-wrap gap-2">
+                {paypalRates.map(currency => (
+                  <span key={currency} className="px-2 py-1 text-xs font-mono text-blue-400 border border-blue-500/50 rounded">
+                    1 {currency} = {conversionRates[currency].rate.toFixed(6)} {settings.homeCurrency}
+                  </span>
+                ))}
+              </div>
+              <p className="text-xs font-mono text-zinc-500 mt-2">The loaded report's own currency conversion rows; these take precedence over the table.</p>
+            </div>
+          )}
+        </div>
+
+        {/* Rate table */}
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <label className="block text-[10px] font-bold font-mono text-cyan-500/70 uppercase tracking-widest">Rate Table</label>
+            <label className="px-3 py-1 text-[10px] font-mono font-bold text-cyan-400 border border-cyan-500/50 hover:bg-cyan-500/10 cursor-pointer transition-all">
+              IMPORT CSV
+              <input type="file" accept=".csv" className="hidden" onChange={handleImport} />
+            </label>
+          </div>
+          <p className="text-xs font-mono text-zinc-500 mb-3">{draft.homeCurrency || 'Home'} per 1 unit of each currency. CSV needs "Currency" and "Rate" columns.</p>
+
+          <div className="space-y-2">
+            {Object.keys(draft.rates).sort().map(currency => (
+              <div key={currency} className="flex items-center gap-2">
+                <span className="w-12 text-sm font-mono font-bold text-zinc-300">{currency}</span>
+                <input
+                  type="number"
+                  step="any"
+                  min="0"
+                  value={Number.isNaN(draft.rates[currency]) ? '' : draft.rates[currency]}
+                  onChange={(e) => updateRate(currency, e.target.value)}
+                  className="w-32 bg-zinc-950 border border-zinc-800 focus:border-cyan-500 outline-none px-2 py-1 text-sm font-mono text-zinc-200"
+                />
+                <button onClick={() => removeRate(currency)} className="text-zinc-600 hover:text-pink-500 transition-colors">×</button>
+              </div>
+            ))}
+            {Object.keys(draft.rates).length === 0 && <p className="text-xs font-mono text-zinc-600">No rates set.</p>}
+          </div>
+
+          <div className="flex items-center gap-2 mt-4">
+            <input
+              value={newCurrency}
+              onChange={(e) => setNewCurrency(e.target.value.toUpperCase())}
+              maxLength={3}
+              placeholder="CAD"
+              className="w-16 bg-zinc-950 border border-zinc-800 focus:border-cyan-500 outline-none px-2 py-1 text-sm font-mono text-zinc-200 uppercase"
+            />
+            <input
+              type="number"
+              step="any"
+              min="0"
+              value={newRate}
+              onChange={(e) => setNewRate(e.target.value)}
+              placeholder="0.73"
+              className="w-32 bg-zinc-950 border border-zinc-800 focus:border-cyan-500 outline-none px-2 py-1 text-sm font-mono text-zinc-200"
+            />
+            <button onClick={addRate} disabled={!newCurrency || !newRate} className="px-4 py-1 text-xs font-mono font-bold text-cyan-400 border border-dashed border-cyan-500/50 hover:bg-cyan-500/10 disabled:opacity-40 transition-all">
+              + ADD
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
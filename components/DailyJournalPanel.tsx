@@ -0,0 +1,186 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { JournalAccounts, ReportSummary } from '../types';
+import { ConverterService } from '../services/converter.service';
+import { downloadTextFile } from '../services/download';
+import {
+  DEFAULT_JOURNAL_ACCOUNTS,
+  DailyJournalBatch,
+  JOURNAL_ACCOUNT_FIELDS,
+  buildDailyJournals,
+  loadJournalAccounts,
+  saveJournalAccounts
+} from '../services/dailyJournal';
+import { buildJournalIif } from '../services/ledgerExport';
+
+interface DailyJournalPanelProps {
+  summary: ReportSummary;
+  homeCurrency: string;  // Configured home currency: the currency of the QBO books
+  onPostToQBO: (batch: DailyJournalBatch) => void;
+  onClose: () => void;
+}
+
+// Journals are already in QBO account names, so no mapping tables are needed to export them
+const converter = new ConverterService();
+
+export const DailyJournalPanel: React.FC<DailyJournalPanelProps> = ({ summary, homeCurrency, onPostToQBO, onClose }) => {
+  const [accounts, setAccounts] = useState<JournalAccounts>(DEFAULT_JOURNAL_ACCOUNTS);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDirty, setIsDirty] = useState(false);
+
+  useEffect(() => {
+    loadJournalAccounts()
+      .then(setAccounts)
+      .catch(err => setErrorMessage(err instanceof Error ? err.message : 'Failed to load journal accounts'));
+  }, []);
+
+  const batch = useMemo(() => buildDailyJournals(summary, accounts, homeCurrency), [summary, accounts, homeCurrency]);
+  const hasBlockingErrors = batch.validation.errors.length > 0;
+
+  const updateAccount = (field: keyof JournalAccounts, value: string) => {
+    setAccounts(prev => ({ ...prev, [field]: value }));
+    setIsDirty(true);
+    setErrorMessage(null);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setErrorMessage(null);
+    try {
+      await saveJournalAccounts(accounts);
+      setIsDirty(false);
+    } catch (err: unknown) {
+      setErrorMessage(err instanceof Error ? err.message : 'Failed to save journal accounts');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (isDirty && !confirm('Discard unsaved journal accounts?')) return;
+    onClose();
+  };
+
+  const downloadCsv = () => {
+    if (batch.entries.length === 0 || hasBlockingErrors) return;
+    downloadTextFile(converter.toCSV(batch.entries, 'GL'), batch.fileName, 'text/csv;charset=utf-8;');
+  };
+
+  // Same journals for QuickBooks Desktop
+  const downloadIif = () => {
+    if (batch.entries.length === 0 || hasBlockingErrors) return;
+    downloadTextFile(buildJournalIif(batch), batch.fileName.replace(/\.csv$/, '.iif'));
+  };
+
+  return (
+    <div className="bg-zinc-900/50 rounded-lg shadow-2xl border border-zinc-800 overflow-hidden backdrop-blur-sm">
+
+      {/* Toolbar */}
+      <div className="p-4 border-b border-zinc-800 flex flex-wrap items-center justify-between gap-4 bg-zinc-900">
+        <div>
+          <h2 className="font-bold text-white tracking-wide">DAILY QBO JOURNALS</h2>
+          <p className="text-xs font-mono text-zinc-500 mt-1">
+            <span className="text-cyan-500/50">{batch.validation.documentCount}</span> JOURNAL(S) · {summary.dateRange}
+            {isDirty && <span className="text-amber-400 ml-2">[UNSAVED ACCOUNTS]</span>}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button onClick={handleClose} className="px-3 py-2 text-xs font-mono text-zinc-400 hover:text-white hover:bg-zinc-800 border border-transparent hover:border-zinc-700 rounded transition-all">
+            CLOSE
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || !isDirty}
+            className="px-4 py-2 text-xs font-mono font-bold text-cyan-400 border border-cyan-500/50 hover:bg-cyan-500 hover:text-black disabled:border-zinc-700 disabled:text-zinc-600 disabled:hover:bg-transparent rounded-none transition-all"
+          >
+            {isSaving ? 'SAVING...' : 'SAVE ACCOUNTS'}
+          </button>
+          <button
+            onClick={downloadCsv}
+            disabled={hasBlockingErrors || batch.entries.length === 0}
+            className="px-6 py-2 text-sm font-bold text-black bg-cyan-500 hover:bg-cyan-400 disabled:bg-zinc-700 disabled:text-zinc-500 rounded-none transition-all active:scale-95"
+          >
+            DOWNLOAD CSV
+          </button>
+          <button
+            onClick={downloadIif}
+            disabled={hasBlockingErrors || batch.entries.length === 0}
+            title="General journals for QuickBooks Desktop"
+            className="px-4 py-2 text-xs font-mono font-bold text-cyan-400 border border-cyan-500/50 hover:bg-cyan-500 hover:text-black disabled:border-zinc-700 disabled:text-zinc-600 disabled:hover:bg-transparent rounded-none transition-all"
+          >
+            DOWNLOAD IIF
+          </button>
+          <button
+            onClick={() => onPostToQBO(batch)}
+            disabled={hasBlockingErrors || batch.entries.length === 0}
+            title="Opens the journals in the QBO sync view"
+            className="px-6 py-2 text-sm font-bold text-white bg-green-600 hover:bg-green-500 disabled:bg-zinc-700 disabled:text-zinc-500 rounded-none transition-all active:scale-95"
+          >
+            POST TO QBO
+          </button>
+        </div>
+      </div>
+
+      {errorMessage && (
+        <div className="p-3 bg-pink-950/30 border-b border-pink-500/50 text-pink-400 text-sm font-mono">
+          <span className="font-bold text-pink-500">[ERROR]</span> {errorMessage}
+        </div>
+      )}
+
+      {(batch.validation.errors.length > 0 || batch.validation.warnings.length > 0) && (
+        <ul className={`p-4 font-mono text-xs border-b space-y-1 ${hasBlockingErrors ? 'bg-pink-950/30 border-pink-500/50' : 'bg-amber-950/20 border-amber-500/40'}`}>
+          {[...batch.validation.errors, ...batch.validation.warnings].map((issue, i) => (
+            <li key={i} className={issue.severity === 'error' ? 'text-pink-400' : 'text-amber-300/80'}>
+              <span className="font-bold">{issue.severity === 'error' ? '[ERROR]' : '[WARN]'}</span>
+              {issue.docNo && <span className="text-zinc-400"> {issue.docNo}</span>}
+              {' '}{issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* QBO Accounts */}
+      <div className="p-4 grid grid-cols-1 md:grid-cols-4 gap-4 border-b border-zinc-800">
+        {JOURNAL_ACCOUNT_FIELDS.map(({ field, label }) => (
+          <div key={field}>
+            <label className="block text-[10px] font-bold font-mono text-cyan-500/70 uppercase tracking-widest mb-2">{label}</label>
+            <input
+              value={accounts[field]}
+              onChange={(e) => updateAccount(field, e.target.value)}
+              placeholder="QBO account name"
+              className="w-full bg-zinc-950 border border-zinc-800 focus:border-cyan-500 outline-none px-2 py-1 text-sm font-mono text-zinc-200"
+            />
+          </div>
+        ))}
+      </div>
+
+      {/* Journal Preview */}
+      <div className="overflow-auto max-h-[60vh]">
+        <table className="min-w-full divide-y divide-zinc-800">
+          <thead className="bg-zinc-950/50 sticky top-0">
+            <tr>
+              {['Journal No', 'Date', 'Account', 'Description', 'Debit', 'Credit'].map(header => (
+                <th key={header} className={`px-4 py-2 text-xs font-bold text-cyan-500/70 font-mono uppercase tracking-wider ${header === 'Debit' || header === 'Credit' ? 'text-right' : 'text-left'}`}>
+                  {header}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-zinc-800/50">
+            {batch.entries.map((entry, i) => (
+              <tr key={`${entry.JournalNo}-${i}`} className="hover:bg-cyan-500/5 text-sm font-mono">
+                <td className="px-4 py-2 text-pink-400 whitespace-nowrap">{entry.JournalNo}</td>
+                <td className="px-4 py-2 text-zinc-400 whitespace-nowrap">{entry.JournalDate}</td>
+                <td className="px-4 py-2 text-zinc-200">{entry.Account}</td>
+                <td className="px-4 py-2 text-zinc-500 text-xs">{entry.Description}</td>
+                <td className="px-4 py-2 text-right text-zinc-200">{entry.Debit}</td>
+                <td className="px-4 py-2 text-right text-zinc-200">{entry.Credit}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { SyncAction, SyncDecision, SyncDocumentCheck, SyncDocumentStatus } from '../types';
+
+interface DuplicateReviewPanelProps {
+  documents: SyncDocumentCheck[];
+  onConfirm: (decisions: Record<string, SyncDecision>) => void;
+  onCancel: () => void;
+}
+
+const STATUS_STYLES: Record<SyncDocumentStatus, string> = {
+  new: 'text-green-400 border-green-500/50',
+  exists: 'text-amber-400 border-amber-500/50',
+  conflict: 'text-pink-500 border-pink-500/50'
+};
+
+const STATUS_LABELS: Record<SyncDocumentStatus, string> = {
+  new: 'NEW',
+  exists: 'ALREADY EXISTS',
+  conflict: 'CONFLICTING AMOUNTS'
+};
+
+// Anything already in QBO is skipped unless the user says otherwise
+const defaultAction = (doc: SyncDocumentCheck): SyncAction => (doc.status === 'new' ? 'create' : 'skip');
+
+export const DuplicateReviewPanel: React.FC<DuplicateReviewPanelProps> = ({ documents, onConfirm, onCancel }) => {
+  const [actions, setActions] = useState<Record<string, SyncAction>>(() =>
+    Object.fromEntries(documents.map(doc => [doc.key, defaultAction(doc)]))
+  );
+
+  const setAction = (key: string, action: SyncAction) => {
+    setActions(prev => ({ ...prev, [key]: action }));
+  };
+
+  const setAllDuplicates = (action: SyncAction) => {
+    setActions(prev => {
+      const next = { ...prev };
+      documents.filter(doc => doc.status !== 'new').forEach(doc => { next[doc.key] = action; });
+      return next;
+    });
+  };
+
+  const handleConfirm = () => {
+    const decisions: Record<string, SyncDecision> = {};
+    documents.forEach(doc => {
+      decisions[doc.key] = { action: actions[doc.key], existingId: doc.existingId, syncToken: doc.syncToken };
+    });
+    onConfirm(decisions);
+  };
+
+  const counts = documents.reduce((acc, doc) => {
+    acc[doc.status]++;
+    return acc;
+  }, { new: 0, exists: 0, conflict: 0 } as Record<SyncDocumentStatus, number>);
+
+  const postingCount = documents.filter(doc => actions[doc.key] !== 'skip').length;
+
+  return (
+    <div className="border-b border-amber-500/40 bg-amber-950/10 font-mono text-xs">
+      <div className="p-4 flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-4 text-sm">
+          <span className="font-bold tracking-widest text-amber-400">[DUPLICATE CHECK]</span>
+          <span className="text-green-400">NEW: {counts.new}</span>
+          <span className="text-amber-400">EXISTING: {counts.exists}</span>
+          <span className="text-pink-500">CONFLICTS: {counts.conflict}</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={() => setAllDuplicates('skip')} className="px-3 py-1 border border-zinc-700 text-zinc-400 hover:text-white rounded">SKIP ALL DUPLICATES</button>
+          <button onClick={() => setAllDuplicates('update')} className="px-3 py-1 border border-zinc-700 text-zinc-400 hover:text-white rounded">UPDATE ALL DUPLICATES</button>
+          <button onClick={onCancel} className="px-3 py-1 text-zinc-400 hover:text-white">CANCEL</button>
+          <button
+            onClick={handleConfirm}
+            disabled={postingCount === 0}
+            className="px-4 py-1 font-bold text-white bg-green-600 hover:bg-green-500 disabled:bg-zinc-700 disabled:text-zinc-500"
+          >
+            CONTINUE SYNC ({postingCount})
+          </button>
+        </div>
+      </div>
+
+      <div className="max-h-56 overflow-auto px-4 pb-4">
+        <table className="min-w-full">
+          <thead className="text-cyan-500/70 uppercase tracking-wider">
+            <tr>
+              <th className="text-left py-1 pr-4">Document</th>
+              <th className="text-left py-1 pr-4">Type</th>
+              <th className="text-left py-1 pr-4">Status</th>
+              <th className="text-right py-1 pr-4">Amount</th>
+              <th className="text-right py-1 pr-4">In QBO</th>
+              <th className="text-left py-1">Action</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-zinc-800/50">
+            {documents.map(doc => (
+              <tr key={doc.key}>
+                <td className="py-1 pr-4 text-pink-500">{doc.docNumber || '-'}{doc.vendorName && <span className="text-zinc-500"> / {doc.vendorName}</span>}</td>
+                <td className="py-1 pr-4 text-zinc-400">{doc.entity}</td>
+                <td className="py-1 pr-4">
+                  <span className={`px-2 py-0.5 rounded border ${STATUS_STYLES[doc.status]}`}>{STATUS_LABELS[doc.status]}</span>
+                </td>
+                <td className="py-1 pr-4 text-right text-cyan-300">{doc.amount.toFixed(2)}</td>
+                <td className="py-1 pr-4 text-right text-zinc-400">{doc.existingAmount !== undefined ? doc.existingAmount.toFixed(2) : '-'}</td>
+                <td className="py-1">
+                  {doc.status === 'new' ? (
+                    <span className="text-zinc-500">CREATE</span>
+                  ) : (
+                    <select
+                      value={actions[doc.key]}
+                      onChange={(e) => setAction(doc.key, e.target.value as SyncAction)}
+                      className="bg-zinc-950 border border-zinc-700 text-zinc-200 px-2 py-0.5"
+                    >
+                      <option value="skip">SKIP</option>
+                      <option value="update">UPDATE EXISTING</option>
+                      <option value="create">FORCE CREATE</option>
+                    </select>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -1,59 +1,82 @@
 import React, { useState, useRef, useMemo, useEffect } from 'react';
-import { ConverterService, QBOJournalEntry, ConversionMode } from '../services/converter.service';
-
-const converter = new ConverterService();
-
-// Safely get IPC Renderer
-const getIpcRenderer = () => {
-  if (typeof window !== 'undefined' && (window as any).require) {
-    return (window as any).require('electron').ipcRenderer;
-  }
-  // Mock for browser dev environment
-  return {
-    on: () => {},
-    removeListener: () => {},
-    invoke: () => {
-        console.warn("Electron IPC not available. Are you running in the browser?");
-        return Promise.resolve();
-    }
-  };
-};
-
-const ipcRenderer = getIpcRenderer();
+import { ConverterService, QBOJournalEntry, ConversionMode, ValidationReport, AccountMappings, DEFAULT_ACCOUNT_MAPPINGS } from '../services/converter.service';
+import { downloadTextFile } from '../services/download';
+import { hashText } from '../services/fileHash';
+import { buildConversionAudit } from '../services/conversionAudit';
+import { generateConversionAuditPDF } from '../services/pdfGenerator';
+import { ipcRenderer } from '../services/ipc';
+import { DailyJournalBatch } from '../services/dailyJournal';
+import { AccountMappingEditor } from './AccountMappingEditor';
+import { DuplicateReviewPanel } from './DuplicateReviewPanel';
+import { MissingReferencesPanel } from './MissingReferencesPanel';
+import { SyncHistoryPanel } from './SyncHistoryPanel';
+import { CompanySwitcher } from './CompanySwitcher';
+import { CompanyProfile, MissingReferenceReport, ReferenceKind, ReferenceResolution, SyncCheckpointSummary, SyncDecision, SyncDocumentCheck, SyncProgress, SyncResult } from '../types';
+
+const MODE_OPTIONS: { mode: ConversionMode, label: string, slider: string, badge: string }[] = [
+  { mode: 'GL', label: 'General Ledger', slider: 'bg-cyan-500', badge: 'border-cyan-500 text-cyan-400' },
+  { mode: 'AP', label: 'Accounts Payable', slider: 'bg-pink-500', badge: 'border-pink-500 text-pink-400' },
+  { mode: 'TXN', label: 'Other Txns', slider: 'bg-amber-500', badge: 'border-amber-500 text-amber-400' },
+  { mode: 'SALES', label: 'Daily Sales', slider: 'bg-blue-500', badge: 'border-blue-500 text-blue-400' },
+];
+
+interface IIFConverterProps {
+  journalBatch?: DailyJournalBatch | null;  // Daily journals sent from the payment report, loaded in place of a converted file
+}
 
-export const IIFConverter: React.FC = () => {
+export const IIFConverter: React.FC<IIFConverterProps> = ({ journalBatch }) => {
   // State
   const [isDragging, setIsDragging] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [convertedData, setConvertedData] = useState<QBOJournalEntry[]>([]);
   const [fileName, setFileName] = useState<string | null>(null);
+  const [fileHash, setFileHash] = useState<string | null>(null);
+  const [convertedAt, setConvertedAt] = useState<string | null>(null);
+  // Company the current batch was converted for; sent with every QBO call so it can't land in another company
+  const [batchCompanyId, setBatchCompanyId] = useState<string | null>(null);
   const [conversionMode, setConversionMode] = useState<ConversionMode>('GL');
+  const [validation, setValidation] = useState<ValidationReport | null>(null);
+  const activeModeOption = MODE_OPTIONS.find(o => o.mode === conversionMode) ?? MODE_OPTIONS[0];
+
+  // Account Mapping State
+  const [accountMappings, setAccountMappings] = useState<AccountMappings>(DEFAULT_ACCOUNT_MAPPINGS);
+  const [showMappingEditor, setShowMappingEditor] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const converter = useMemo(() => new ConverterService(accountMappings), [accountMappings]);
+
+  // Company Profile State
+  const [companies, setCompanies] = useState<CompanyProfile[]>([]);
+  const [activeCompanyId, setActiveCompanyId] = useState<string>('default');
 
   // Auth State
   const [isConnected, setIsConnected] = useState(false);
   const [authStatus, setAuthStatus] = useState<'idle' | 'connecting' | 'connected' | 'error'>('idle');
-  const [mappingStats, setMappingStats] = useState<{accounts: number, vendors: number} | null>(null);
+  const [refreshTokenExpiresAt, setRefreshTokenExpiresAt] = useState<string | null>(null);
+  const [mappingStats, setMappingStats] = useState<{accounts: number, vendors: number, customers: number, items: number} | null>(null);
   const [isSyncing, setIsSyncing] = useState(false);
-  const [syncResult, setSyncResult] = useState<{success: number, failed: number, errors: string[]} | null>(null);
+  const [syncResult, setSyncResult] = useState<SyncResult | null>(null);
+  const [syncProgress, setSyncProgress] = useState<SyncProgress | null>(null);
+  const [duplicateChecks, setDuplicateChecks] = useState<SyncDocumentCheck[] | null>(null);
+  const [missingReferences, setMissingReferences] = useState<MissingReferenceReport | null>(null);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
-    // Check initial status
-    ipcRenderer.invoke('qb:get-status').then((res: any) => {
-        if (res.isConnected) {
-            setIsConnected(true);
-            setAuthStatus('connected');
-            refreshMappings();
+    ipcRenderer.invoke('companies:list').then((res: any) => {
+        if (res?.success) {
+            setCompanies(res.profiles);
+            setActiveCompanyId(res.activeId);
         }
+        if (journalBatch) loadJournalBatch(journalBatch, res?.success ? res.activeId : 'default');
     });
 
+    loadCompanyState();
+
     // Listen for Auth Success
     const handleAuthSuccess = (_event: any, token: any) => {
       console.log('QBO Token received:', token);
-      setIsConnected(true);
-      setAuthStatus('connected');
+      loadAuthStatus();
       refreshMappings();
     };
 
@@ -63,15 +86,65 @@ export const IIFConverter: React.FC = () => {
       setErrorMessage(`QuickBooks Login Failed: ${error}`);
     };
 
+    const handleSyncProgress = (_event: any, progress: SyncProgress) => {
+      setSyncProgress(progress);
+    };
+
     ipcRenderer.on('qb:auth-success', handleAuthSuccess);
     ipcRenderer.on('qb:auth-failure', handleAuthFailure);
+    ipcRenderer.on('qb:sync-progress', handleSyncProgress);
 
     return () => {
       ipcRenderer.removeListener('qb:auth-success', handleAuthSuccess);
       ipcRenderer.removeListener('qb:auth-failure', handleAuthFailure);
+      ipcRenderer.removeListener('qb:sync-progress', handleSyncProgress);
     };
   }, []);
 
+  // Mappings and QBO session of the active company (a saved session is restored by the main process)
+  const loadCompanyState = async () => {
+    const res = await ipcRenderer.invoke('mappings:get');
+    // Falls back to the defaults when the company has never saved mappings
+    setAccountMappings(res?.success && res.mappings ? { GL: res.mappings.GL, AP: res.mappings.AP } : DEFAULT_ACCOUNT_MAPPINGS);
+
+    setMappingStats(null);
+    if (await loadAuthStatus()) refreshMappings();
+  };
+
+  const applyCompanyChange = async (res: any) => {
+    if (!res?.success) {
+        setErrorMessage(`Company Switch Failed: ${res?.error}`);
+        return;
+    }
+    setCompanies(res.profiles);
+    setActiveCompanyId(res.activeId);
+    setShowMappingEditor(false);
+    setShowHistory(false);
+    // A converted batch belongs to the company it was converted for
+    reset();
+    await loadCompanyState();
+  };
+
+  const handleSwitchCompany = async (id: string) => {
+    if (id === activeCompanyId) return;
+    if (convertedData.length > 0 && !confirm('Switching company discards the converted file. Continue?')) return;
+    applyCompanyChange(await ipcRenderer.invoke('companies:switch', { id }));
+  };
+
+  const handleCreateCompany = async (name: string) => {
+    if (convertedData.length > 0 && !confirm('Switching company discards the converted file. Continue?')) return;
+    applyCompanyChange(await ipcRenderer.invoke('companies:create', { name }));
+  };
+
+  const loadAuthStatus = async () => {
+    const res = await ipcRenderer.invoke('qb:get-status');
+    const connected = !!res?.isConnected;
+    setIsConnected(connected);
+    setAuthStatus(connected ? 'connected' : 'idle');
+    setRefreshTokenExpiresAt(connected ? res.refreshTokenExpiresAt : null);
+    return connected;
+  };
+
   const refreshMappings = async () => {
     const res = await ipcRenderer.invoke('qb:refresh-mappings');
     if (res.success) {
@@ -79,26 +152,160 @@ export const IIFConverter: React.FC = () => {
     }
   };
 
+  const handleSaveMappings = async (mappings: AccountMappings) => {
+    const res = await ipcRenderer.invoke('mappings:save', { mappings });
+    if (res && !res.success) {
+        throw new Error(res.error);
+    }
+    setAccountMappings(mappings);
+    // Previously converted rows were mapped with the old tables
+    reset();
+  };
+
   const handleConnectQBO = () => {
     setAuthStatus('connecting');
     ipcRenderer.invoke('qb:login');
   };
 
+  const handleDisconnectQBO = async () => {
+    if (!confirm('Disconnect from QuickBooks? You will need to log in again to sync.')) return;
+
+    const res = await ipcRenderer.invoke('qb:disconnect');
+    setIsConnected(false);
+    setAuthStatus('idle');
+    setRefreshTokenExpiresAt(null);
+    setMappingStats(null);
+
+    if (res && !res.success) {
+        setErrorMessage(`Disconnect Failed: ${res.error}`);
+    } else if (res && !res.revoked) {
+        setErrorMessage(`Signed out locally, but Intuit did not confirm the revoke: ${res.revokeError}`);
+    }
+  };
+
+  const hasBlockingErrors = (validation?.errors.length ?? 0) > 0;
+
+  // Step 1: find vendors/accounts QBO doesn't know; only ask the user when there are some
   const handlePushToQBO = async () => {
-    if (convertedData.length === 0) return;
+    if (convertedData.length === 0 || hasBlockingErrors) return;
     
     setIsSyncing(true);
     setSyncResult(null);
+    setDuplicateChecks(null);
+    setMissingReferences(null);
     setErrorMessage(null);
 
     try {
-        const res = await ipcRenderer.invoke('qb:sync', {
+        const res = await ipcRenderer.invoke('qb:check-references', {
+            companyId: batchCompanyId,
+            mode: conversionMode,
+            data: convertedData
+        });
+
+        if (!res.success) {
+            setErrorMessage(`Reference Check Failed: ${res.error}`);
+            setIsSyncing(false);
+            return;
+        }
+
+        if (res.vendors.length > 0 || res.accounts.length > 0) {
+            setMissingReferences({ vendors: res.vendors, accounts: res.accounts, existing: res.existing });
+            setIsSyncing(false);
+        } else {
+            await checkDuplicates();
+        }
+    } catch (err: any) {
+        setErrorMessage(`Sync Error: ${err.message}`);
+        setIsSyncing(false);
+    }
+  };
+
+  // Create / map / skip the missing references, then carry on with the duplicate check
+  const handleResolveReferences = async (resolutions: Record<ReferenceKind, Record<string, ReferenceResolution>>) => {
+    setIsSyncing(true);
+    setErrorMessage(null);
+
+    try {
+        const res = await ipcRenderer.invoke('qb:resolve-references', {
+            companyId: batchCompanyId,
+            resolutions
+        });
+
+        if (!res.success) {
+            setErrorMessage(`Resolving References Failed: ${res.error}`);
+            setIsSyncing(false);
+            return;
+        }
+
+        if (res.results.failed > 0) {
+            setErrorMessage(`Could not create in QuickBooks: ${res.results.errors.join('; ')}`);
+            setIsSyncing(false);
+            return;
+        }
+
+        setMissingReferences(null);
+        await checkDuplicates();
+    } catch (err: any) {
+        setErrorMessage(`Sync Error: ${err.message}`);
+        setIsSyncing(false);
+    }
+  };
+
+  // Step 2: look every document up in QBO; only ask the user when something already exists
+  const checkDuplicates = async () => {
+    setIsSyncing(true);
+
+    try {
+        const res = await ipcRenderer.invoke('qb:check-duplicates', {
+            companyId: batchCompanyId,
             mode: conversionMode,
             data: convertedData
         });
 
+        if (!res.success) {
+            setErrorMessage(`Duplicate Check Failed: ${res.error}`);
+            setIsSyncing(false);
+            return;
+        }
+
+        const documents: SyncDocumentCheck[] = res.documents;
+        if (documents.every(doc => doc.status === 'new')) {
+            await runSync({});
+        } else {
+            setDuplicateChecks(documents);
+            setIsSyncing(false);
+        }
+    } catch (err: any) {
+        setErrorMessage(`Sync Error: ${err.message}`);
+        setIsSyncing(false);
+    }
+  };
+
+  // Step 3: post with the per-document decisions (skip / update / force create)
+  const runSync = async (decisions: Record<string, SyncDecision>) => {
+    setIsSyncing(true);
+    setDuplicateChecks(null);
+    setSyncProgress(null);
+
+    try {
+        const res = await ipcRenderer.invoke('qb:sync', {
+            companyId: batchCompanyId,
+            mode: conversionMode,
+            data: convertedData,
+            decisions,
+            fileName,
+            fileHash
+        });
+
         if (res.success) {
             setSyncResult(res.results);
+        } else if (res.blocked) {
+            const logged = res.partialRunId ? ' They are now listed in the sync history, where they can be undone; push again to start this batch.' : '';
+            setErrorMessage(`Sync Blocked: ${res.error}${logged}`);
+        } else if (res.checkpoint) {
+            const checkpoint: SyncCheckpointSummary = res.checkpoint;
+            const logged = res.partialRunId ? ' They are listed in the sync history as an interrupted run.' : '';
+            setErrorMessage(`Sync Interrupted: ${res.error}. ${checkpoint.completed} document(s) were posted; push the same file again to resume where it stopped.${logged}`);
         } else {
             setErrorMessage(`Sync Failed: ${res.error}`);
         }
@@ -106,6 +313,7 @@ export const IIFConverter: React.FC = () => {
         setErrorMessage(`Sync Error: ${err.message}`);
     } finally {
         setIsSyncing(false);
+        setSyncProgress(null);
     }
   };
 
@@ -158,17 +366,27 @@ export const IIFConverter: React.FC = () => {
   const processFile = async (file: File) => {
     setErrorMessage(null);
     setConvertedData([]);
+    setConvertedAt(null);
+    setValidation(null);
+    setSyncResult(null);
+    setDuplicateChecks(null);
+    setMissingReferences(null);
     setFileName(file.name);
+    setFileHash(null);
+    setBatchCompanyId(activeCompanyId);
     setIsProcessing(true);
 
     try {
       const text = await file.text();
+      setFileHash(await hashText(text));
+      setValidation(converter.validate(text, conversionMode));
       const data = converter.convert(text, conversionMode);
       
       if (data.length === 0) {
         throw new Error("No valid transactions found in file.");
       }
       setConvertedData(data);
+      setConvertedAt(new Date().toISOString());
     } catch (err: unknown) {
       const msg = err instanceof Error ? err.message : 'Unknown error occurred during parsing';
       setErrorMessage(msg);
@@ -177,32 +395,65 @@ export const IIFConverter: React.FC = () => {
     }
   };
 
+  // Journals built from the payment report are GL rows already; they go through the same checks and sync
+  const loadJournalBatch = async (batch: DailyJournalBatch, companyId: string) => {
+    reset();
+    setConversionMode('GL');
+    setFileName(batch.fileName);
+    setBatchCompanyId(companyId);
+    setValidation(batch.validation);
+    setConvertedData(batch.entries);
+    setConvertedAt(new Date().toISOString());
+    setFileHash(await hashText(converter.toCSV(batch.entries, 'GL')));
+  };
+
   const triggerFileInput = () => {
     fileInputRef.current?.click();
   };
 
   const downloadCsv = () => {
-    if (convertedData.length === 0) return;
+    if (convertedData.length === 0 || hasBlockingErrors) return;
 
-    const csvContent = converter.toCSV(convertedData);
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    
-    const link = document.createElement('a');
-    link.setAttribute('href', url);
     const originalName = fileName || 'export.iif';
-    const newName = originalName.replace(/\.[^/.]+$/, "") + "_qbo.csv";
-    link.setAttribute('download', newName);
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    const baseName = originalName.replace(/\.[^/.]+$/, "");
+
+    // Daily sales become two separate QBO imports
+    if (conversionMode === 'SALES') {
+      if (convertedData.some(row => row.RecordType === 'SalesReceipt')) {
+        downloadTextFile(converter.toCSV(convertedData, 'SALES', 'SalesReceipt'), `${baseName}_salesreceipts_qbo.csv`, 'text/csv;charset=utf-8;');
+      }
+      if (convertedData.some(row => row.RecordType === 'Deposit')) {
+        downloadTextFile(converter.toCSV(convertedData, 'SALES', 'Deposit'), `${baseName}_deposits_qbo.csv`, 'text/csv;charset=utf-8;');
+      }
+      return;
+    }
+
+    const csvContent = converter.toCSV(convertedData, conversionMode);
+    downloadTextFile(csvContent, `${baseName}_qbo.csv`, 'text/csv;charset=utf-8;');
+  };
+
+  // Printable record of this conversion; out-of-balance files can be printed too
+  const downloadAuditPdf = () => {
+    if (convertedData.length === 0) return;
+    generateConversionAuditPDF(buildConversionAudit(convertedData, {
+      fileName: fileName || 'export.iif',
+      fileHash,
+      convertedAt: convertedAt ?? new Date().toISOString(),
+      mode: conversionMode
+    }, validation));
   };
 
   const reset = () => {
     setConvertedData([]);
+    setConvertedAt(null);
+    setValidation(null);
+    setSyncResult(null);
+    setDuplicateChecks(null);
+    setMissingReferences(null);
     setErrorMessage(null);
     setFileName(null);
+    setFileHash(null);
+    setBatchCompanyId(null);
     if (fileInputRef.current) {
         fileInputRef.current.value = '';
     }
@@ -212,7 +463,32 @@ export const IIFConverter: React.FC = () => {
     <div className="h-full w-full flex flex-col bg-zinc-950 selection:bg-pink-500 selection:text-white relative"> 
       
       {/* Auth Status Indicator (Top Right) */}
-      <div className="absolute top-6 right-8 z-[100]">
+      <div className="absolute top-6 right-8 z-[100] flex items-center gap-3">
+        {companies.length > 0 && (
+          <CompanySwitcher
+            profiles={companies}
+            activeId={activeCompanyId}
+            disabled={isSyncing || isProcessing}
+            onSwitch={handleSwitchCompany}
+            onCreate={handleCreateCompany}
+          />
+        )}
+        {!showMappingEditor && !showHistory && (
+          <>
+            <button
+              onClick={() => setShowHistory(true)}
+              className="flex items-center gap-2 px-4 py-2 bg-zinc-900 text-cyan-400 border border-cyan-500/50 hover:bg-cyan-500 hover:text-black rounded text-xs font-bold font-mono uppercase tracking-widest transition-all shadow-lg"
+            >
+              HISTORY
+            </button>
+            <button
+              onClick={() => setShowMappingEditor(true)}
+              className="flex items-center gap-2 px-4 py-2 bg-zinc-900 text-cyan-400 border border-cyan-500/50 hover:bg-cyan-500 hover:text-black rounded text-xs font-bold font-mono uppercase tracking-widest transition-all shadow-lg"
+            >
+              MAPPINGS
+            </button>
+          </>
+        )}
         {!isConnected ? (
            <button 
              onClick={handleConnectQBO}
@@ -233,15 +509,20 @@ export const IIFConverter: React.FC = () => {
            </button>
         ) : (
            <div className="flex items-center gap-3">
-             <div className="flex items-center gap-2 px-4 py-2 bg-green-900/20 text-green-400 border border-green-500/20 rounded text-xs font-bold font-mono uppercase tracking-widest shadow-lg backdrop-blur-md">
+             <div
+               className="flex items-center gap-2 px-4 py-2 bg-green-900/20 text-green-400 border border-green-500/20 rounded text-xs font-bold font-mono uppercase tracking-widest shadow-lg backdrop-blur-md"
+               title={refreshTokenExpiresAt ? `Login expires ${new Date(refreshTokenExpiresAt).toLocaleString()}` : undefined}
+             >
                <div className="w-2 h-2 rounded-full bg-green-400 animate-pulse"></div>
                QB CONNECTED
+               {refreshTokenExpiresAt && (
+                 <span className="text-[10px] text-green-600 normal-case tracking-normal">
+                   until {new Date(refreshTokenExpiresAt).toLocaleDateString()}
+                 </span>
+               )}
              </div>
              <button 
-                onClick={() => {
-                  setIsConnected(false);
-                  setAuthStatus('idle');
-                }}
+                onClick={handleDisconnectQBO}
                 className="flex items-center gap-2 px-4 py-2 bg-pink-600/10 text-pink-500 border border-pink-600/50 hover:bg-pink-600 hover:text-white rounded text-[10px] font-bold font-mono uppercase tracking-widest transition-all shadow-lg active:scale-95"
              >
                 DISCONNECT
@@ -253,7 +534,17 @@ export const IIFConverter: React.FC = () => {
       {/* Main Content */}
       <div className="flex-1 flex flex-col w-full max-w-7xl mx-auto p-4 sm:p-6 lg:p-8 gap-6">
         
-        {convertedData.length === 0 ? (
+        {showHistory ? (
+          /* Sync History State */
+          <SyncHistoryPanel onClose={() => setShowHistory(false)} />
+        ) : showMappingEditor ? (
+          /* Mapping Editor State */
+          <AccountMappingEditor
+            mappings={accountMappings}
+            onSave={handleSaveMappings}
+            onClose={() => setShowMappingEditor(false)}
+          />
+        ) : convertedData.length === 0 ? (
           /* Upload State */
           <div className="flex-1 flex flex-col items-center justify-center min-h-[400px]">
             
@@ -310,27 +601,24 @@ export const IIFConverter: React.FC = () => {
                 </div>
 
                 {/* Mode Toggle - Absolute Positioned */}
-                <div className="absolute -bottom-20 left-0 right-0 flex p-1 bg-zinc-900 rounded-lg border border-zinc-800 w-full max-w-sm mx-auto shadow-xl">
-                    <button 
-                      onClick={(e) => { e.stopPropagation(); handleSetMode('GL'); }} 
-                      className={`flex-1 py-2 text-sm font-bold font-mono rounded-md transition-all duration-300 relative z-10 ${conversionMode === 'GL' ? 'text-black' : 'text-zinc-400'}`}
-                    >
-                      General Ledger
-                    </button>
-                    <button 
-                      onClick={(e) => { e.stopPropagation(); handleSetMode('AP'); }} 
-                      className={`flex-1 py-2 text-sm font-bold font-mono rounded-md transition-all duration-300 relative z-10 ${conversionMode === 'AP' ? 'text-black' : 'text-zinc-400'}`}
-                    >
-                      Accounts Payable
-                    </button>
+                <div className="absolute -bottom-20 left-0 right-0 flex p-1 bg-zinc-900 rounded-lg border border-zinc-800 w-full max-w-lg mx-auto shadow-xl">
+                    {MODE_OPTIONS.map(option => (
+                      <button 
+                        key={option.mode}
+                        onClick={(e) => { e.stopPropagation(); handleSetMode(option.mode); }} 
+                        className={`flex-1 py-2 text-xs font-bold font-mono rounded-md transition-all duration-300 relative z-10 ${conversionMode === option.mode ? 'text-black' : 'text-zinc-400'}`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
                     
                     {/* Sliding Background */}
                     <div 
-                      className={`absolute top-1 bottom-1 rounded-md transition-all duration-300 shadow-lg w-[calc(50%-4px)] ${
-                        conversionMode === 'GL' 
-                          ? 'left-1 bg-cyan-500' 
-                          : 'translate-x-full bg-pink-500'
-                      }`}
+                      className={`absolute top-1 bottom-1 left-1 rounded-md transition-all duration-300 shadow-lg ${activeModeOption.slider}`}
+                      style={{
+                        width: `calc(${100 / MODE_OPTIONS.length}% - ${8 / MODE_OPTIONS.length}px)`,
+                        transform: `translateX(${MODE_OPTIONS.indexOf(activeModeOption) * 100}%)`
+                      }}
                     ></div>
                 </div>
             </div>
@@ -348,11 +636,7 @@ export const IIFConverter: React.FC = () => {
                     <path fillRule="evenodd" d="M10 18a8 8 0 1 0 0-16 8 8 0 0 0 0 16Zm3.857-9.809a.75.75 0 0 0-1.214-.882l-3.483 4.79-1.88-1.88a.75.75 0 1 0-1.06 1.061l2.5 2.5a.75.75 0 0 0 1.137-.089l4-5.5Z" clipRule="evenodd" />
                   </svg>
                   <span className="tracking-wide">CONVERSION COMPLETE</span>
-                  <span className={`ml-2 text-xs font-mono px-2 py-0.5 rounded border ${
-                    conversionMode === 'GL' 
-                        ? 'border-cyan-500 text-cyan-400' 
-                        : 'border-pink-500 text-pink-400'
-                  }`}>
+                  <span className={`ml-2 text-xs font-mono px-2 py-0.5 rounded border ${activeModeOption.badge}`}>
                     {conversionMode} MODE
                   </span>
                 </h2>
@@ -370,7 +654,8 @@ export const IIFConverter: React.FC = () => {
                 </button>
                 <button 
                   onClick={downloadCsv}
-                  className="group relative flex items-center gap-2 px-6 py-2 text-sm font-bold text-black bg-cyan-500 hover:bg-cyan-400 rounded-none overflow-hidden transition-all active:scale-95"
+                  disabled={hasBlockingErrors}
+                  className="group relative flex items-center gap-2 px-6 py-2 text-sm font-bold text-black bg-cyan-500 hover:bg-cyan-400 disabled:bg-zinc-700 disabled:text-zinc-500 rounded-none overflow-hidden transition-all active:scale-95"
                 >
                   <div className="absolute inset-0 bg-white/20 translate-x-[-100%] group-hover:translate-x-[100%] transition-transform duration-500 skew-x-12"></div>
                   <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth="2" stroke="currentColor" className="w-4 h-4">
@@ -378,12 +663,20 @@ export const IIFConverter: React.FC = () => {
                   </svg>
                   DOWNLOAD CSV
                 </button>
+                <button
+                  onClick={downloadAuditPdf}
+                  title="Source file, hash, per-document balance checks and account mappings"
+                  className="px-4 py-2 text-sm font-mono font-bold text-cyan-400 border border-cyan-500/50 hover:bg-cyan-500/10 rounded-none transition-all active:scale-95"
+                >
+                  AUDIT PDF
+                </button>
 
                 {/* PUSH TO QBO BUTTON */}
                 {isConnected && (
                   <button 
                     onClick={handlePushToQBO}
-                    disabled={isSyncing}
+                    disabled={isSyncing || hasBlockingErrors}
+                    title={`Posts to ${companies.find(c => c.id === batchCompanyId)?.name ?? 'the active company'}`}
                     className="group relative flex items-center gap-2 px-6 py-2 text-sm font-bold text-white bg-green-600 hover:bg-green-500 disabled:bg-zinc-700 disabled:text-zinc-500 rounded-none overflow-hidden transition-all active:scale-95 border-l border-green-700 shadow-lg"
                   >
                      <div className="absolute inset-0 bg-white/20 translate-x-[-100%] group-hover:translate-x-[100%] transition-transform duration-500 skew-x-12"></div>
@@ -400,12 +693,80 @@ export const IIFConverter: React.FC = () => {
               </div>
             </div>
 
+            {/* Pre-flight Validation Report */}
+            {validation && (validation.errors.length > 0 || validation.warnings.length > 0) && (
+              <div className={`p-4 font-mono text-xs border-b max-h-48 overflow-auto ${hasBlockingErrors ? 'bg-pink-950/30 border-pink-500/50' : 'bg-amber-950/20 border-amber-500/40'}`}>
+                <div className="flex items-center gap-4 mb-2 text-sm">
+                  <span className={`font-bold tracking-widest ${hasBlockingErrors ? 'text-pink-400' : 'text-amber-400'}`}>
+                    [{hasBlockingErrors ? 'PRE-FLIGHT FAILED - EXPORT BLOCKED' : 'PRE-FLIGHT PASSED WITH WARNINGS'}]
+                  </span>
+                  <span className="text-pink-400">ERRORS: {validation.errors.length}</span>
+                  <span className="text-amber-400">WARNINGS: {validation.warnings.length}</span>
+                  <span className="text-zinc-500">DOCUMENTS: {validation.documentCount}</span>
+                </div>
+                <ul className="space-y-1">
+                  {[...validation.errors, ...validation.warnings].map((issue, i) => (
+                    <li key={i} className={issue.severity === 'error' ? 'text-pink-400' : 'text-amber-300/80'}>
+                      <span className="font-bold">{issue.severity === 'error' ? '[ERROR]' : '[WARN]'}</span>
+                      {issue.line > 0 && <span className="text-zinc-500"> LINE {issue.line}</span>}
+                      {issue.docNo && <span className="text-zinc-400"> {issue.docNo}</span>}
+                      {' '}{issue.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {/* Live Sync Progress */}
+            {isSyncing && syncProgress && (
+              <div className="p-4 border-b border-cyan-500/30 bg-cyan-950/10 font-mono text-xs text-cyan-400">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="font-bold tracking-widest">
+                    [{syncProgress.resumed ? 'RESUMING SYNC' : 'SYNCING'}] {syncProgress.processed} / {syncProgress.total}
+                  </span>
+                  <span className="flex gap-4">
+                    <span className="text-green-400">CREATED: {syncProgress.success}</span>
+                    <span className="text-cyan-400">UPDATED: {syncProgress.updated}</span>
+                    <span className="text-zinc-500">SKIPPED: {syncProgress.skipped}</span>
+                    <span className="text-pink-500">FAILED: {syncProgress.failed}</span>
+                  </span>
+                </div>
+                <div className="h-1 bg-zinc-800">
+                  <div
+                    className="h-1 bg-cyan-500 transition-all duration-300"
+                    style={{ width: `${syncProgress.total > 0 ? (syncProgress.processed / syncProgress.total) * 100 : 0}%` }}
+                  ></div>
+                </div>
+              </div>
+            )}
+
+            {/* Missing Vendors / Accounts (before posting) */}
+            {missingReferences && (
+              <MissingReferencesPanel
+                report={missingReferences}
+                isResolving={isSyncing}
+                onConfirm={handleResolveReferences}
+                onCancel={() => setMissingReferences(null)}
+              />
+            )}
+
+            {/* Duplicate Review (before posting) */}
+            {duplicateChecks && (
+              <DuplicateReviewPanel
+                documents={duplicateChecks}
+                onConfirm={runSync}
+                onCancel={() => setDuplicateChecks(null)}
+              />
+            )}
+
             {/* Sync Results Banner */}
             {syncResult && (
               <div className={`p-4 font-mono text-sm flex items-center justify-between ${syncResult.failed > 0 ? 'bg-pink-950/30 border-b border-pink-500/50 text-pink-400' : 'bg-green-950/30 border-b border-green-500/50 text-green-400'}`}>
                 <div className="flex items-center gap-4">
                   <span className="font-bold tracking-widest">[{syncResult.failed > 0 ? 'SYNC COMPLETE WITH ERRORS' : 'SYNC SUCCESSFUL'}]</span>
-                  <span>SUCCESS: {syncResult.success}</span>
+                  <span>CREATED: {syncResult.success}</span>
+                  <span>UPDATED: {syncResult.updated}</span>
+                  <span>SKIPPED: {syncResult.skipped}</span>
                   <span>FAILED: {syncResult.failed}</span>
                 </div>
                 {syncResult.errors.length > 0 && (
@@ -424,7 +785,18 @@ export const IIFConverter: React.FC = () => {
               <table className="min-w-full divide-y divide-zinc-800">
                 <thead className="bg-zinc-900 sticky top-0 z-10 shadow-lg shadow-black/50">
                   <tr>
-                    {conversionMode === 'AP' ? (
+                    {conversionMode === 'SALES' ? (
+                        <>
+                            <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-cyan-500/70 font-mono uppercase tracking-wider bg-zinc-900 border-b border-cyan-500/20">Type</th>
+                            <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-cyan-500/70 font-mono uppercase tracking-wider bg-zinc-900 border-b border-cyan-500/20">Doc No</th>
+                            <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-cyan-500/70 font-mono uppercase tracking-wider bg-zinc-900 border-b border-cyan-500/20">Date</th>
+                            <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-cyan-500/70 font-mono uppercase tracking-wider bg-zinc-900 border-b border-cyan-500/20">Customer / From</th>
+                            <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-cyan-500/70 font-mono uppercase tracking-wider bg-zinc-900 border-b border-cyan-500/20">Deposit To</th>
+                            <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-cyan-500/70 font-mono uppercase tracking-wider bg-zinc-900 border-b border-cyan-500/20">Account</th>
+                            <th scope="col" className="px-6 py-3 text-right text-xs font-bold text-cyan-500/70 font-mono uppercase tracking-wider bg-zinc-900 border-b border-cyan-500/20">Line Amount</th>
+                            <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-cyan-500/70 font-mono uppercase tracking-wider bg-zinc-900 border-b border-cyan-500/20">Description</th>
+                        </>
+                    ) : conversionMode === 'AP' ? (
                         <>
                             <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-cyan-500/70 font-mono uppercase tracking-wider bg-zinc-900 border-b border-cyan-500/20">Bill no</th>
                             <th scope="col" className="px-6 py-3 text-left text-xs font-bold text-cyan-500/70 font-mono uppercase tracking-wider bg-zinc-900 border-b border-cyan-500/20">Supplier</th>
@@ -451,7 +823,18 @@ export const IIFConverter: React.FC = () => {
                 <tbody className="divide-y divide-zinc-800/50">
                   {convertedData.map((row, index) => (
                     <tr key={index} className="group hover:bg-cyan-500/5 transition-colors">
-                      {conversionMode === 'AP' ? (
+                      {conversionMode === 'SALES' ? (
+                          <>
+                            <td className="px-6 py-3 text-xs text-zinc-400 font-mono whitespace-nowrap uppercase">{row.RecordType === 'Deposit' ? 'Deposit' : 'Sales Receipt'}</td>
+                            <td className="px-6 py-3 text-sm text-pink-500 font-mono whitespace-nowrap border-l-2 border-transparent group-hover:border-pink-500/50 transition-colors">{row.JournalNo}</td>
+                            <td className="px-6 py-3 text-sm text-zinc-500 whitespace-nowrap font-mono">{row.JournalDate}</td>
+                            <td className="px-6 py-3 text-sm text-zinc-400 truncate max-w-[150px]" title={row.Name}>{row.Name}</td>
+                            <td className="px-6 py-3 text-sm text-zinc-300 whitespace-nowrap font-mono tracking-tight">{row.DepositTo}</td>
+                            <td className="px-6 py-3 text-sm text-zinc-200 font-medium whitespace-nowrap font-mono tracking-tight">{row.Account}</td>
+                            <td className="px-6 py-3 text-sm text-cyan-300 text-right font-mono whitespace-nowrap">{row.LineAmount}</td>
+                            <td className="px-6 py-3 text-sm text-zinc-500 truncate max-w-[200px]" title={row.Description}>{row.Description}</td>
+                          </>
+                      ) : conversionMode === 'AP' ? (
                           <>
                             <td className="px-6 py-3 text-sm text-pink-500 font-mono whitespace-nowrap border-l-2 border-transparent group-hover:border-pink-500/50 transition-colors">{row.BillNo}</td>
                             <td className="px-6 py-3 text-sm text-zinc-400 whitespace-nowrap">{row.Supplier}</td>
@@ -0,0 +1,151 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronDown, Search, X } from 'lucide-react';
+import { LedgerFilter } from '../types';
+import { EMPTY_LEDGER_FILTER, isLedgerFiltered } from '../services/ledgerFilter';
+import { WEEKDAY_LABELS } from '../services/reportingSettings';
+
+interface MultiSelectProps {
+  label: string;
+  options: string[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}
+
+// Dropdown of checkboxes; nothing selected means no restriction
+const MultiSelect: React.FC<MultiSelectProps> = ({ label, options, selected, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const close = (e: MouseEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [isOpen]);
+
+  const toggle = (option: string) => {
+    onChange(selected.includes(option) ? selected.filter(o => o !== option) : [...selected, option]);
+  };
+
+  return (
+    <div ref={ref} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`px-3 py-2 bg-zinc-950 border flex items-center gap-2 text-[10px] font-bold font-mono uppercase tracking-widest transition-all ${selected.length > 0 ? 'border-cyan-500 text-cyan-400' : 'border-zinc-800 text-zinc-500 hover:text-zinc-300'}`}
+      >
+        {label}{selected.length > 0 && ` (${selected.length})`}
+        <ChevronDown className="w-3 h-3" />
+      </button>
+      {isOpen && (
+        <div className="absolute z-30 mt-1 min-w-[14rem] max-h-64 overflow-auto bg-zinc-900 border border-zinc-700 shadow-2xl">
+          {options.length === 0 && <p className="px-3 py-2 text-xs font-mono text-zinc-600">Nothing to pick.</p>}
+          {options.map(option => (
+            <label key={option} className="flex items-center gap-2 px-3 py-1.5 text-xs font-mono text-zinc-300 hover:bg-zinc-800 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={selected.includes(option)}
+                onChange={() => toggle(option)}
+                className="accent-cyan-500"
+              />
+              <span className="truncate">{option}</span>
+            </label>
+          ))}
+          {selected.length > 0 && (
+            <button onClick={() => onChange([])} className="w-full px-3 py-1.5 text-left text-[10px] font-mono font-bold text-zinc-500 hover:text-pink-500 border-t border-zinc-800 uppercase tracking-widest">
+              Clear
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface LedgerFilterBarProps {
+  filter: LedgerFilter;
+  options: { types: string[], cardBrands: string[], sourceFiles: string[] };
+  onChange: (filter: LedgerFilter) => void;
+}
+
+const parseAmount = (value: string): number | null => {
+  const amount = parseFloat(value);
+  return Number.isNaN(amount) ? null : amount;
+};
+
+// e.g. "MON, TUE · 14:00" for a time-of-day filter set from the analytics heatmap
+const describeTimeFilter = (filter: LedgerFilter): string => {
+  const parts: string[] = [];
+  if (filter.weekdays.length > 0) parts.push(filter.weekdays.map(d => WEEKDAY_LABELS[d]).join(', '));
+  if (filter.hours.length > 0) parts.push(filter.hours.map(h => `${String(h).padStart(2, '0')}:00`).join(', '));
+  return parts.join(' · ');
+};
+
+export const LedgerFilterBar: React.FC<LedgerFilterBarProps> = ({ filter, options, onChange }) => {
+  const update = (changes: Partial<LedgerFilter>) => onChange({ ...filter, ...changes });
+  const inputClass = 'bg-zinc-950 border border-zinc-800 focus:border-cyan-500 outline-none px-2 py-1.5 text-xs font-mono text-zinc-200';
+
+  return (
+    <div className="px-6 py-3 border-b border-zinc-800 flex flex-wrap items-center gap-2 bg-zinc-950/30">
+      <div className="relative flex-1 min-w-[14rem]">
+        <Search className="w-3 h-3 text-zinc-500 absolute left-2 top-1/2 -translate-y-1/2" />
+        <input
+          value={filter.search}
+          onChange={(e) => update({ search: e.target.value })}
+          placeholder="Search order # or customer"
+          className={`${inputClass} w-full pl-7`}
+        />
+      </div>
+
+      <MultiSelect label="Status" options={options.types} selected={filter.types} onChange={(types) => update({ types })} />
+      <MultiSelect label="Card" options={options.cardBrands} selected={filter.cardBrands} onChange={(cardBrands) => update({ cardBrands })} />
+      <MultiSelect label="File" options={options.sourceFiles} selected={filter.sourceFiles} onChange={(sourceFiles) => update({ sourceFiles })} />
+
+      <div className="flex items-center gap-1">
+        <input
+          type="number"
+          step="0.01"
+          value={filter.minAmount ?? ''}
+          onChange={(e) => update({ minAmount: parseAmount(e.target.value) })}
+          placeholder="Min"
+          className={`${inputClass} w-20`}
+        />
+        <span className="text-zinc-600 text-xs">–</span>
+        <input
+          type="number"
+          step="0.01"
+          value={filter.maxAmount ?? ''}
+          onChange={(e) => update({ maxAmount: parseAmount(e.target.value) })}
+          placeholder="Max"
+          className={`${inputClass} w-20`}
+        />
+      </div>
+
+      <div className="flex items-center gap-1">
+        <input type="date" value={filter.dateFrom} onChange={(e) => update({ dateFrom: e.target.value })} title="First reporting day" className={inputClass} />
+        <span className="text-zinc-600 text-xs">–</span>
+        <input type="date" value={filter.dateTo} onChange={(e) => update({ dateTo: e.target.value })} title="Last reporting day" className={inputClass} />
+      </div>
+
+      {(filter.weekdays.length > 0 || filter.hours.length > 0) && (
+        <button
+          onClick={() => update({ weekdays: [], hours: [] })}
+          title="Store-local weekday and hour; click to remove"
+          className="px-3 py-2 bg-zinc-950 border border-cyan-500 text-cyan-400 text-[10px] font-bold font-mono uppercase tracking-widest flex items-center gap-2 hover:text-pink-500 hover:border-pink-500 transition-all"
+        >
+          {describeTimeFilter(filter)} <X className="w-3 h-3" />
+        </button>
+      )}
+
+      {isLedgerFiltered(filter) && (
+        <button
+          onClick={() => onChange(EMPTY_LEDGER_FILTER)}
+          className="px-3 py-2 text-[10px] font-bold font-mono text-zinc-400 hover:text-pink-500 uppercase tracking-widest flex items-center gap-1 transition-colors"
+        >
+          <X className="w-3 h-3" /> Clear
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,295 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { CalendarDays, ChevronDown, ChevronUp } from 'lucide-react';
+import {
+  DailyGroup,
+  LedgerSort,
+  LedgerSortField,
+  ReconciliationResult,
+  ReportSource,
+  ReportingSettings,
+  ReportSummary,
+  ShopifyTransaction,
+  TransactionCategory
+} from '../types';
+import { getProcessor } from '../services/processors';
+import { CATEGORY_LABELS, countsTowardTotals } from '../services/transactionCategories';
+import { formatTransactionTime } from '../services/reportingSettings';
+import { formatMoney } from '../services/currency';
+import { VerificationMap, countVerified, getVerificationKey } from '../services/verification';
+import { STATUS_STYLES } from './ReconciliationPanel';
+import { VerificationCell } from './VerificationCell';
+
+export const SOURCE_BADGES: Record<ReportSource, string> = {
+  SHOPIFY: 'border-cyan-500 text-cyan-400',
+  PAYPAL: 'border-blue-500 text-blue-400',
+  STRIPE: 'border-violet-500 text-violet-400',
+  SQUARE: 'border-zinc-300 text-zinc-200',
+  AMAZON_PAY: 'border-amber-500 text-amber-400',
+};
+
+const CATEGORY_BADGES: Record<TransactionCategory, string> = {
+  SALE: 'text-cyan-400 border-cyan-500/50 shadow-[0_0_10px_-4px_rgba(34,211,238,0.5)]',
+  REFUND: 'text-pink-500 border-pink-500/50 shadow-[0_0_10px_-4px_rgba(236,72,153,0.5)]',
+  CHARGEBACK: 'text-red-500 border-red-500/50 shadow-[0_0_10px_-4px_rgba(239,68,68,0.5)]',
+  ADJUSTMENT: 'text-amber-400 border-amber-500/50',
+  CONVERSION: 'text-blue-400 border-blue-500/50',
+  PAYOUT: 'text-zinc-400 border-zinc-600',
+  FAILED: 'text-zinc-500 border-zinc-700',
+};
+
+const getCardTypeColor = (brand: string) => {
+  const b = brand.toLowerCase();
+  if (b.includes('visa')) return 'text-blue-400 border-blue-500/30';
+  if (b.includes('mastercard')) return 'text-orange-400 border-orange-500/30';
+  if (b.includes('amex') || b.includes('american express')) return 'text-cyan-300 border-cyan-500/30';
+  return 'text-zinc-500 border-zinc-700';
+};
+
+// Only the rows in view (plus a margin) are rendered, so every row has a fixed height
+type LedgerRow =
+  | { kind: 'day', group: DailyGroup }
+  | { kind: 'categories', group: DailyGroup }
+  | { kind: 'transaction', transaction: ShopifyTransaction };
+
+const ROW_HEIGHTS: Record<LedgerRow['kind'], number> = {
+  day: 52,
+  categories: 36,
+  transaction: 64
+};
+const OVERSCAN_PX = 600;
+const COLUMNS = 'grid grid-cols-[7rem_minmax(0,1fr)_11rem_8rem_9rem_8rem]';
+
+interface LedgerViewProps {
+  summary: ReportSummary;
+  sort: LedgerSort;
+  onSortChange: (sort: LedgerSort) => void;
+  reportingSettings: ReportingSettings;
+  reconciliation: ReconciliationResult | null;
+  verifications: VerificationMap;
+  onToggleVerification: (t: ShopifyTransaction) => void;
+  onVerificationNote: (t: ShopifyTransaction, note: string) => void;
+}
+
+export const LedgerView: React.FC<LedgerViewProps> = ({
+  summary,
+  sort,
+  onSortChange,
+  reportingSettings,
+  reconciliation,
+  verifications,
+  onToggleVerification,
+  onVerificationNote
+}) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(800);
+  const money = (amount: number) => formatMoney(amount, summary.currencySettings.homeCurrency);
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(() => setViewportHeight(element.clientHeight));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  // Flattened rows with their top offsets
+  const { rows, offsets, totalHeight } = useMemo(() => {
+    const rows: LedgerRow[] = [];
+    summary.dailyGroups.forEach(group => {
+      rows.push({ kind: 'day', group });
+      if (group.categoryTotals.length > 1) rows.push({ kind: 'categories', group });
+      group.transactions.forEach(transaction => rows.push({ kind: 'transaction', transaction }));
+    });
+    const offsets: number[] = [];
+    let totalHeight = 0;
+    rows.forEach(row => {
+      offsets.push(totalHeight);
+      totalHeight += ROW_HEIGHTS[row.kind];
+    });
+    return { rows, offsets, totalHeight };
+  }, [summary]);
+
+  // First row that ends below the top of the rendered window
+  const findRow = (top: number): number => {
+    let low = 0;
+    let high = rows.length - 1;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (offsets[mid] + ROW_HEIGHTS[rows[mid].kind] <= top) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  };
+  const start = rows.length > 0 ? findRow(Math.max(0, scrollTop - OVERSCAN_PX)) : 0;
+  let end = start;
+  while (end < rows.length && offsets[end] < scrollTop + viewportHeight + OVERSCAN_PX) end++;
+
+  const toggleSort = (field: LedgerSortField) => {
+    if (sort.field === field) {
+      onSortChange({ field, direction: sort.direction === 'asc' ? 'desc' : 'asc' });
+    } else {
+      onSortChange({ field, direction: field === 'dateTime' || field === 'amount' ? 'desc' : 'asc' });
+    }
+  };
+
+  const sortHeader = (field: LedgerSortField, label: string, className = '') => (
+    <button
+      onClick={() => toggleSort(field)}
+      className={`flex items-center gap-1 uppercase tracking-wider hover:text-white transition-colors ${sort.field === field ? 'text-cyan-400' : ''} ${className}`}
+    >
+      {label}
+      {sort.field === field && (sort.direction === 'asc' ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />)}
+    </button>
+  );
+
+  const renderDay = (group: DailyGroup) => {
+    const day = reconciliation?.days[group.dateKey];
+    const verified = countVerified(group.transactions, verifications);
+    return (
+      <div className="h-full px-6 bg-zinc-900/80 border-b border-zinc-800 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <CalendarDays className="w-4 h-4 text-cyan-500" />
+          <span className="text-zinc-200 font-bold font-mono">{group.date}</span>
+        </div>
+        <div className="flex items-center gap-6">
+          {day && (
+            <span
+              title={day.deposits.map(d => `${d.date} ${d.description} ${money(d.amount)}`).join('\n')}
+              className={`text-[9px] font-bold font-mono px-2 py-0.5 rounded border uppercase tracking-wider ${STATUS_STYLES[day.status]}`}
+            >
+              {day.status === 'unmatched' ? 'NO DEPOSIT' : `BANK ${money(day.depositedAmount)}`}
+              {day.status !== 'matched' && ` · VAR ${money(day.variance)}`}
+            </span>
+          )}
+          {group.sourceTotals.length > 1 && group.sourceTotals.map(totals => (
+            <span key={totals.source} className={`text-[9px] font-bold font-mono px-2 py-0.5 rounded border uppercase tracking-wider ${SOURCE_BADGES[totals.source]}`}>
+              {getProcessor(totals.source).label} {money(totals.amount)}
+            </span>
+          ))}
+          <span className={`text-[10px] font-bold font-mono uppercase tracking-widest ${verified === group.count ? 'text-cyan-400' : 'text-zinc-500'}`}>
+            {verified}/{group.count} Verified
+          </span>
+          <span className="text-[10px] font-bold font-mono text-zinc-500 uppercase tracking-widest">
+            {group.count} Txns
+          </span>
+          <span className="text-cyan-400 font-mono font-bold">
+            {money(group.subtotal)}
+          </span>
+        </div>
+      </div>
+    );
+  };
+
+  const renderCategories = (group: DailyGroup) => (
+    <div className="h-full px-6 border-b border-zinc-800 flex items-center gap-2 overflow-hidden bg-zinc-950/30">
+      {group.categoryTotals.map(totals => (
+        <span key={totals.category} className={`text-[9px] font-bold font-mono px-2 py-0.5 rounded border uppercase tracking-wider whitespace-nowrap ${CATEGORY_BADGES[totals.category]}`}>
+          {CATEGORY_LABELS[totals.category]} ({totals.count}) {money(totals.amount)}
+        </span>
+      ))}
+      <span className="text-[9px] font-bold font-mono px-2 py-0.5 rounded border border-zinc-700 text-zinc-400 uppercase tracking-wider whitespace-nowrap">
+        Fees {money(group.subtotalFees)}
+      </span>
+    </div>
+  );
+
+  const renderTransaction = (t: ShopifyTransaction) => {
+    const counted = countsTowardTotals(t);
+    const uncountedReason = t.homeRate === null
+      ? `No ${t.currency} rate into ${summary.currencySettings.homeCurrency}: not counted in the totals`
+      : `${CATEGORY_LABELS[t.category]} aren't counted in the totals`;
+    return (
+      <div
+        title={counted ? undefined : uncountedReason}
+        className={`${COLUMNS} h-full items-center border-b border-zinc-800/50 hover:bg-cyan-500/5 transition-all group ${counted ? '' : 'opacity-50'}`}
+      >
+        <div className="px-6 text-xs font-mono text-zinc-500 group-hover:text-zinc-300">
+          {formatTransactionTime(t.dateTime, reportingSettings)}
+        </div>
+        <div className="px-6 flex flex-col min-w-0">
+          <span className="text-sm font-bold text-zinc-200 group-hover:text-cyan-400 transition-colors truncate">
+            {t.orderNumber}
+          </span>
+          <span className="text-[10px] text-zinc-600 font-mono uppercase tracking-wider mt-0.5 truncate">
+            {t.customerName} · {getProcessor(t.source).label}
+          </span>
+        </div>
+        <div className="px-6 min-w-0">
+          <span
+            title={CATEGORY_LABELS[t.category]}
+            className={`inline-block max-w-full truncate text-[9px] font-bold px-2 py-1 rounded border ${CATEGORY_BADGES[t.category]} uppercase tracking-wider`}
+          >
+            {t.type}
+          </span>
+        </div>
+        <div className="px-6 min-w-0">
+          <span className={`inline-block max-w-full truncate text-[9px] font-bold px-2 py-1 rounded border ${getCardTypeColor(t.cardBrand)} uppercase tracking-wider`}>
+            {t.cardBrand}
+          </span>
+        </div>
+        <div className="px-6 text-right">
+          <span className={`font-mono font-bold tracking-tight ${t.amount < 0 ? 'text-pink-500' : 'text-zinc-200'}`}>
+            {formatMoney(t.amount, t.currency)}
+          </span>
+        </div>
+        <div className="px-6 flex justify-center">
+          <VerificationCell
+            verification={verifications[getVerificationKey(t)]}
+            onToggle={() => onToggleVerification(t)}
+            onNoteChange={(note) => onVerificationNote(t, note)}
+          />
+        </div>
+      </div>
+    );
+  };
+
+  const renderRow = (row: LedgerRow) => {
+    if (row.kind === 'day') return renderDay(row.group);
+    if (row.kind === 'categories') return renderCategories(row.group);
+    return renderTransaction(row.transaction);
+  };
+
+  const rowKey = (row: LedgerRow) => {
+    if (row.kind === 'transaction') return getVerificationKey(row.transaction);
+    return `${row.kind}:${row.group.dateKey}`;
+  };
+
+  return (
+    <div
+      ref={scrollRef}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      className="relative overflow-auto max-h-[70vh]"
+    >
+      {/* Column Headers */}
+      <div className={`${COLUMNS} sticky top-0 z-10 bg-zinc-950 text-cyan-500/70 text-[10px] font-bold font-mono border-b border-zinc-800`}>
+        <div className="px-6 py-3">{sortHeader('dateTime', 'Time')}</div>
+        <div className="px-6 py-3 flex items-center gap-3">
+          {sortHeader('orderNumber', 'Reference')}
+          <span className="text-zinc-700">/</span>
+          {sortHeader('customerName', 'Customer')}
+        </div>
+        <div className="px-6 py-3">{sortHeader('type', 'Status')}</div>
+        <div className="px-6 py-3">{sortHeader('cardBrand', 'Card Type')}</div>
+        <div className="px-6 py-3">{sortHeader('amount', 'Amount', 'ml-auto')}</div>
+        <div className="px-6 py-3 text-center uppercase tracking-wider">Verify</div>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="px-6 py-12 text-center text-sm font-mono text-zinc-500">No transactions match the filters.</p>
+      ) : (
+        <div className="relative" style={{ height: totalHeight }}>
+          {rows.slice(start, end).map((row, i) => (
+            <div
+              key={rowKey(row)}
+              className="absolute left-0 right-0"
+              style={{ top: offsets[start + i], height: ROW_HEIGHTS[row.kind] }}
+            >
+              {renderRow(row)}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { MissingReference, MissingReferenceReport, ReferenceAction, ReferenceKind, ReferenceResolution } from '../types';
+
+interface MissingReferencesPanelProps {
+  report: MissingReferenceReport;
+  isResolving: boolean;
+  onConfirm: (resolutions: Record<ReferenceKind, Record<string, ReferenceResolution>>) => void;
+  onCancel: () => void;
+}
+
+// QBO AccountType values accepted when creating an account
+const ACCOUNT_TYPES = [
+  'Expense', 'Other Expense', 'Cost of Goods Sold', 'Income', 'Other Income',
+  'Bank', 'Accounts Receivable', 'Other Current Asset', 'Fixed Asset', 'Other Asset',
+  'Accounts Payable', 'Credit Card', 'Other Current Liability', 'Long Term Liability', 'Equity'
+];
+
+const KIND_LABELS: Record<ReferenceKind, string> = {
+  vendors: 'VENDOR',
+  accounts: 'ACCOUNT'
+};
+
+const rowKey = (kind: ReferenceKind, name: string) => `${kind}:${name}`;
+
+// Last run's choice when there is one, otherwise create it
+const initialResolution = (kind: ReferenceKind, ref: MissingReference): ReferenceResolution => {
+  if (ref.saved) return { ...ref.saved };
+  return kind === 'accounts' ? { action: 'create', accountType: 'Expense' } : { action: 'create' };
+};
+
+export const MissingReferencesPanel: React.FC<MissingReferencesPanelProps> = ({ report, isResolving, onConfirm, onCancel }) => {
+  const rows = (['vendors', 'accounts'] as ReferenceKind[]).flatMap(kind => report[kind].map(ref => ({ kind, ref })));
+
+  const [resolutions, setResolutions] = useState<Record<string, ReferenceResolution>>(() =>
+    Object.fromEntries(rows.map(({ kind, ref }) => [rowKey(kind, ref.name), initialResolution(kind, ref)]))
+  );
+
+  const updateResolution = (key: string, changes: Partial<ReferenceResolution>) => {
+    setResolutions(prev => ({ ...prev, [key]: { ...prev[key], ...changes } }));
+  };
+
+  const setAction = (kind: ReferenceKind, key: string, action: ReferenceAction) => {
+    updateResolution(key, action === 'create' && kind === 'accounts'
+      ? { action, accountType: resolutions[key].accountType || 'Expense' }
+      : { action });
+  };
+
+  const setTarget = (kind: ReferenceKind, key: string, targetId: string) => {
+    const target = report.existing[kind].find(option => option.id === targetId);
+    updateResolution(key, { targetId, targetName: target?.name });
+  };
+
+  const setAll = (action: ReferenceAction) => {
+    rows.forEach(({ kind, ref }) => setAction(kind, rowKey(kind, ref.name), action));
+  };
+
+  const incomplete = rows.some(({ kind, ref }) => {
+    const resolution = resolutions[rowKey(kind, ref.name)];
+    return resolution.action === 'map' && !resolution.targetId;
+  });
+
+  const skippedDocs = new Set(rows
+    .filter(({ kind, ref }) => resolutions[rowKey(kind, ref.name)].action === 'skip')
+    .flatMap(({ ref }) => ref.documents));
+
+  const handleConfirm = () => {
+    const result: Record<ReferenceKind, Record<string, ReferenceResolution>> = { vendors: {}, accounts: {} };
+    rows.forEach(({ kind, ref }) => {
+      result[kind][ref.name] = resolutions[rowKey(kind, ref.name)];
+    });
+    onConfirm(result);
+  };
+
+  return (
+    <div className="border-b border-amber-500/40 bg-amber-950/10 font-mono text-xs">
+      <div className="p-4 flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-4 text-sm">
+          <span className="font-bold tracking-widest text-amber-400">[NOT IN QUICKBOOKS]</span>
+          <span className="text-pink-500">VENDORS: {report.vendors.length}</span>
+          <span className="text-pink-500">ACCOUNTS: {report.accounts.length}</span>
+          {skippedDocs.size > 0 && <span className="text-zinc-400">DOCUMENTS SKIPPED: {skippedDocs.size}</span>}
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={() => setAll('create')} className="px-3 py-1 border border-zinc-700 text-zinc-400 hover:text-white rounded">CREATE ALL</button>
+          <button onClick={() => setAll('skip')} className="px-3 py-1 border border-zinc-700 text-zinc-400 hover:text-white rounded">SKIP ALL</button>
+          <button onClick={onCancel} className="px-3 py-1 text-zinc-400 hover:text-white">CANCEL</button>
+          <button
+            onClick={handleConfirm}
+            disabled={incomplete || isResolving}
+            className="px-4 py-1 font-bold text-white bg-green-600 hover:bg-green-500 disabled:bg-zinc-700 disabled:text-zinc-500"
+          >
+            {isResolving ? 'APPLYING...' : 'APPLY & CONTINUE'}
+          </button>
+        </div>
+      </div>
+
+      <div className="max-h-56 overflow-auto px-4 pb-4">
+        <table className="min-w-full">
+          <thead className="text-cyan-500/70 uppercase tracking-wider">
+            <tr>
+              <th className="text-left py-1 pr-4">Name</th>
+              <th className="text-left py-1 pr-4">Type</th>
+              <th className="text-right py-1 pr-4">Documents</th>
+              <th className="text-left py-1 pr-4">Action</th>
+              <th className="text-left py-1">Details</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-zinc-800/50">
+            {rows.map(({ kind, ref }) => {
+              const key = rowKey(kind, ref.name);
+              const resolution = resolutions[key];
+              return (
+                <tr key={key}>
+                  <td className="py-1 pr-4 text-pink-500">{ref.name}</td>
+                  <td className="py-1 pr-4 text-zinc-400">{KIND_LABELS[kind]}</td>
+                  <td className="py-1 pr-4 text-right text-cyan-300">{ref.documents.length}</td>
+                  <td className="py-1 pr-4">
+                    <select
+                      value={resolution.action}
+                      onChange={(e) => setAction(kind, key, e.target.value as ReferenceAction)}
+                      className="bg-zinc-950 border border-zinc-700 text-zinc-200 px-2 py-0.5"
+                    >
+                      <option value="create">CREATE IN QBO</option>
+                      <option value="map">MAP TO EXISTING</option>
+                      <option value="skip">SKIP DOCUMENTS</option>
+                    </select>
+                  </td>
+                  <td className="py-1">
+                    {resolution.action === 'create' && kind === 'accounts' && (
+                      <select
+                        value={resolution.accountType}
+                        onChange={(e) => updateResolution(key, { accountType: e.target.value })}
+                        className="bg-zinc-950 border border-zinc-700 text-zinc-200 px-2 py-0.5"
+                      >
+                        {ACCOUNT_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                      </select>
+                    )}
+                    {resolution.action === 'map' && (
+                      <select
+                        value={resolution.targetId ?? ''}
+                        onChange={(e) => setTarget(kind, key, e.target.value)}
+                        className={`bg-zinc-950 border text-zinc-200 px-2 py-0.5 max-w-xs ${resolution.targetId ? 'border-zinc-700' : 'border-pink-500'}`}
+                      >
+                        <option value="">-- choose --</option>
+                        {report.existing[kind].map(option => <option key={option.id} value={option.id}>{option.name}</option>)}
+                      </select>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
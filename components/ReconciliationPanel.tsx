@@ -0,0 +1,157 @@
+import React, { useRef, useState } from 'react';
+import { Landmark, FileDown } from 'lucide-react';
+import { DayReconciliation, ReconciliationResult, ReconciliationSettings, ReconciliationStatus } from '../types';
+import { formatMoney } from '../services/currency';
+
+interface ReconciliationPanelProps {
+  reconciliation: ReconciliationResult | null;
+  settings: ReconciliationSettings;
+  currency: string;  // Home currency of the report; bank deposits are assumed to be in it
+  statementFiles: string[];
+  isImporting: boolean;
+  errorMessage: string | null;
+  onImport: (files: File[]) => void;
+  onSettingsChange: (settings: ReconciliationSettings) => void;
+  onClear: () => void;
+  onDownloadPDF: () => void;
+}
+
+export const STATUS_STYLES: Record<ReconciliationStatus, string> = {
+  matched: 'border-emerald-500/50 text-emerald-400',
+  variance: 'border-amber-500/50 text-amber-400',
+  unmatched: 'border-pink-500/50 text-pink-500'
+};
+
+export const ReconciliationPanel: React.FC<ReconciliationPanelProps> = ({
+  reconciliation,
+  settings,
+  currency,
+  statementFiles,
+  isImporting,
+  errorMessage,
+  onImport,
+  onSettingsChange,
+  onClear,
+  onDownloadPDF
+}) => {
+  const [showUnmatched, setShowUnmatched] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFiles = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = event.target.files;
+    if (files && files.length > 0) onImport(Array.from(files) as File[]);
+    event.target.value = '';
+  };
+
+  // Blank or negative input is ignored rather than saved
+  const updateSetting = (field: keyof ReconciliationSettings, value: string) => {
+    const number = parseFloat(value);
+    if (isNaN(number) || number < 0) return;
+    onSettingsChange({ ...settings, [field]: number });
+  };
+
+  const days: DayReconciliation[] = reconciliation ? Object.values(reconciliation.days) : [];
+  const count = (status: ReconciliationStatus) => days.filter(d => d.status === status).length;
+
+  return (
+    <div className="bg-zinc-900 border border-zinc-800 shadow-lg mb-8">
+      <div className="px-6 py-4 flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <Landmark className="w-5 h-5 text-cyan-500" />
+          <div>
+            <h3 className="font-bold text-white tracking-tight">BANK RECONCILIATION</h3>
+            <p className="text-[10px] font-mono text-zinc-500 uppercase tracking-wider mt-0.5">
+              {statementFiles.length > 0 ? statementFiles.join(', ') : 'Import a bank statement (CSV, OFX or QFX) to match deposits'}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center gap-2 text-[10px] font-bold font-mono text-zinc-500 uppercase tracking-widest">
+            ± Days
+            <input
+              type="number"
+              min={0}
+              value={settings.dateToleranceDays}
+              onChange={(e) => updateSetting('dateToleranceDays', e.target.value)}
+              className="w-14 bg-zinc-950 border border-zinc-800 focus:border-cyan-500 outline-none px-2 py-1 text-xs font-mono text-zinc-200"
+            />
+          </label>
+          <label className="flex items-center gap-2 text-[10px] font-bold font-mono text-zinc-500 uppercase tracking-widest">
+            ± {currency}
+            <input
+              type="number"
+              min={0}
+              step={0.01}
+              value={settings.amountTolerance}
+              onChange={(e) => updateSetting('amountTolerance', e.target.value)}
+              className="w-20 bg-zinc-950 border border-zinc-800 focus:border-cyan-500 outline-none px-2 py-1 text-xs font-mono text-zinc-200"
+            />
+          </label>
+
+          <input ref={fileInputRef} type="file" accept=".csv,.ofx,.qfx" multiple className="hidden" onChange={handleFiles} />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isImporting}
+            className="text-xs font-mono font-bold px-4 py-2 bg-zinc-800 hover:bg-zinc-700 hover:text-white text-zinc-400 border border-zinc-700 hover:border-zinc-500 uppercase tracking-widest transition-all disabled:opacity-40"
+          >
+            {isImporting ? 'IMPORTING...' : statementFiles.length > 0 ? 'ADD STATEMENT' : 'IMPORT STATEMENT'}
+          </button>
+          {reconciliation && (
+            <>
+              <button
+                onClick={onDownloadPDF}
+                className="text-xs font-mono font-bold px-4 py-2 bg-zinc-800 hover:bg-cyan-500 hover:text-black text-cyan-400 border border-cyan-500/50 uppercase tracking-widest transition-all flex items-center gap-2"
+              >
+                <FileDown className="w-3 h-3" /> RECONCILIATION PDF
+              </button>
+              <button onClick={onClear} className="text-xs font-mono px-3 py-2 text-zinc-500 hover:text-pink-500 transition-colors">
+                CLEAR
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {errorMessage && (
+        <div className="px-6 py-3 bg-pink-950/30 border-t border-pink-500/50 text-pink-400 text-sm font-mono">
+          <span className="font-bold text-pink-500">[ERROR]</span> {errorMessage}
+        </div>
+      )}
+
+      {reconciliation && (
+        <div className="px-6 py-3 border-t border-zinc-800 flex flex-wrap items-center gap-3">
+          {(['matched', 'variance', 'unmatched'] as ReconciliationStatus[]).map(status => (
+            <span key={status} className={`text-[10px] font-bold font-mono px-2 py-1 rounded border uppercase tracking-wider ${STATUS_STYLES[status]}`}>
+              {count(status)} {status} day(s)
+            </span>
+          ))}
+          <button
+            onClick={() => setShowUnmatched(!showUnmatched)}
+            disabled={reconciliation.unmatchedDeposits.length === 0}
+            className="text-[10px] font-bold font-mono px-2 py-1 rounded border border-zinc-700 text-zinc-400 hover:text-white uppercase tracking-wider disabled:opacity-50"
+          >
+            {reconciliation.unmatchedDeposits.length} unmatched deposit(s) {reconciliation.unmatchedDeposits.length > 0 && (showUnmatched ? '▲' : '▼')}
+          </button>
+        </div>
+      )}
+
+      {reconciliation && showUnmatched && reconciliation.unmatchedDeposits.length > 0 && (
+        <table className="w-full text-left border-t border-zinc-800">
+          <tbody className="divide-y divide-zinc-800/50">
+            {reconciliation.unmatchedDeposits.map(deposit => (
+              <tr key={deposit.id} className="text-xs font-mono">
+                <td className="px-6 py-2 text-zinc-500">{deposit.date}</td>
+                <td className="px-6 py-2 text-zinc-300">{deposit.description}</td>
+                <td className="px-6 py-2 text-zinc-500">{deposit.reference}</td>
+                <td className="px-6 py-2 text-right text-zinc-200 font-bold">
+                  {formatMoney(deposit.amount, currency)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,228 @@
+import React, { useState } from 'react';
+import { ReportColumn, ReportTemplate } from '../types';
+import { DEFAULT_REPORT_TEMPLATE, REPORT_COLUMNS, readLogoFile, validateReportTemplate } from '../services/reportTemplate';
+
+interface ReportTemplatePanelProps {
+  template: ReportTemplate;
+  onSave: (template: ReportTemplate) => Promise<void>;
+  onClose: () => void;
+}
+
+const LABEL_CLASS = 'block text-[10px] font-bold font-mono text-cyan-500/70 uppercase tracking-widest mb-2';
+const INPUT_CLASS = 'w-full bg-zinc-950 border border-zinc-800 focus:border-cyan-500 outline-none px-2 py-1 text-sm font-mono text-zinc-200';
+
+export const ReportTemplatePanel: React.FC<ReportTemplatePanelProps> = ({ template, onSave, onClose }) => {
+  const [draft, setDraft] = useState<ReportTemplate>(template);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDirty, setIsDirty] = useState(false);
+
+  const update = (changes: Partial<ReportTemplate>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+    setIsDirty(true);
+    setErrorMessage(null);
+  };
+
+  const toggleColumn = (column: ReportColumn) => {
+    update({ columns: draft.columns.includes(column) ? draft.columns.filter(c => c !== column) : [...draft.columns, column] });
+  };
+
+  const handleLogo = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      update({ logoDataUrl: await readLogoFile(file) });
+    } catch (err: unknown) {
+      setErrorMessage(err instanceof Error ? err.message : 'Failed to read the logo');
+    }
+  };
+
+  const handleReset = () => {
+    if (!confirm('Reset the template to the standard report layout?')) return;
+    update(DEFAULT_REPORT_TEMPLATE);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setErrorMessage(null);
+    try {
+      await onSave(validateReportTemplate(draft));
+      setIsDirty(false);
+    } catch (err: unknown) {
+      setErrorMessage(err instanceof Error ? err.message : 'Failed to save the report template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (isDirty && !confirm('Discard unsaved template changes?')) return;
+    onClose();
+  };
+
+  return (
+    <div className="bg-zinc-900/50 rounded-lg shadow-2xl border border-zinc-800 overflow-hidden backdrop-blur-sm">
+
+      {/* Toolbar */}
+      <div className="p-4 border-b border-zinc-800 flex flex-wrap items-center justify-between gap-4 bg-zinc-900">
+        <div>
+          <h2 className="font-bold text-white tracking-wide">PDF TEMPLATE</h2>
+          <p className="text-xs font-mono text-zinc-500 mt-1">
+            {draft.layout === 'consolidated' ? 'One PDF for the period' : 'One PDF per reporting day'} · {draft.pageSize.toUpperCase()} {draft.orientation}
+            {isDirty && <span className="text-amber-400 ml-2">[UNSAVED]</span>}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button onClick={handleReset} className="px-3 py-2 text-xs font-mono text-zinc-400 hover:text-white hover:bg-zinc-800 border border-transparent hover:border-zinc-700 rounded transition-all">
+            RESET
+          </button>
+          <button onClick={handleClose} className="px-3 py-2 text-xs font-mono text-zinc-400 hover:text-white hover:bg-zinc-800 border border-transparent hover:border-zinc-700 rounded transition-all">
+            CLOSE
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || !isDirty}
+            className="px-6 py-2 text-sm font-bold text-black bg-cyan-500 hover:bg-cyan-400 disabled:bg-zinc-700 disabled:text-zinc-500 rounded-none transition-all active:scale-95"
+          >
+            {isSaving ? 'SAVING...' : 'SAVE'}
+          </button>
+        </div>
+      </div>
+
+      {errorMessage && (
+        <div className="p-3 bg-pink-950/30 border-b border-pink-500/50 text-pink-400 text-sm font-mono">
+          <span className="font-bold text-pink-500">[ERROR]</span> {errorMessage}
+        </div>
+      )}
+
+      <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-8">
+        {/* Branding */}
+        <div className="space-y-6">
+          <div>
+            <label className={LABEL_CLASS}>Company Name</label>
+            <input value={draft.companyName} onChange={(e) => update({ companyName: e.target.value })} placeholder="Printed on every report" className={INPUT_CLASS} />
+          </div>
+
+          <div>
+            <label className={LABEL_CLASS}>Report Title</label>
+            <input value={draft.title} onChange={(e) => update({ title: e.target.value })} placeholder="Blank: named after the payment source" className={INPUT_CLASS} />
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-[10px] font-bold font-mono text-cyan-500/70 uppercase tracking-widest">Logo</label>
+              <div className="flex items-center gap-2">
+                {draft.logoDataUrl && (
+                  <button onClick={() => update({ logoDataUrl: null })} className="px-3 py-1 text-[10px] font-mono font-bold text-zinc-500 hover:text-pink-500 transition-colors">
+                    REMOVE
+                  </button>
+                )}
+                <label className="px-3 py-1 text-[10px] font-mono font-bold text-cyan-400 border border-cyan-500/50 hover:bg-cyan-500/10 cursor-pointer transition-all">
+                  CHOOSE IMAGE
+                  <input type="file" accept="image/png,image/jpeg" className="hidden" onChange={handleLogo} />
+                </label>
+              </div>
+            </div>
+            {draft.logoDataUrl ? (
+              <div className="bg-white p-2 inline-block">
+                <img src={draft.logoDataUrl} alt="Report logo" className="max-h-16 max-w-[12rem] object-contain" />
+              </div>
+            ) : (
+              <p className="text-xs font-mono text-zinc-600">No logo. PNG or JPEG, up to 1.5 MB.</p>
+            )}
+          </div>
+
+          <div>
+            <label className={LABEL_CLASS}>Header Text</label>
+            <input value={draft.headerText} onChange={(e) => update({ headerText: e.target.value })} placeholder="e.g. Confidential" className={INPUT_CLASS} />
+          </div>
+
+          <div>
+            <label className={LABEL_CLASS}>Footer Text</label>
+            <input value={draft.footerText} onChange={(e) => update({ footerText: e.target.value })} placeholder="Printed beside the page number" className={INPUT_CLASS} />
+          </div>
+        </div>
+
+        {/* Layout */}
+        <div className="space-y-6">
+          <div>
+            <label className={LABEL_CLASS}>Layout</label>
+            <div className="space-y-2">
+              <label className="flex items-center gap-2 text-xs font-mono text-zinc-300 cursor-pointer">
+                <input type="radio" checked={draft.layout === 'daily'} onChange={() => update({ layout: 'daily' })} className="accent-cyan-500" />
+                One PDF per reporting day
+              </label>
+              <label className="flex items-center gap-2 text-xs font-mono text-zinc-300 cursor-pointer">
+                <input type="radio" checked={draft.layout === 'consolidated'} onChange={() => update({ layout: 'consolidated' })} className="accent-cyan-500" />
+                One PDF for the period: cover, summary, contents, a section per day and closing totals
+              </label>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-6">
+            <div>
+              <label className={LABEL_CLASS}>Page Size</label>
+              <select
+                value={draft.pageSize}
+                onChange={(e) => update({ pageSize: e.target.value as ReportTemplate['pageSize'] })}
+                className="bg-zinc-950 border border-zinc-800 focus:border-cyan-500 outline-none px-2 py-1 text-sm font-mono text-zinc-200"
+              >
+                <option value="letter">Letter</option>
+                <option value="legal">Legal</option>
+                <option value="a4">A4</option>
+              </select>
+            </div>
+            <div>
+              <label className={LABEL_CLASS}>Orientation</label>
+              <select
+                value={draft.orientation}
+                onChange={(e) => update({ orientation: e.target.value as ReportTemplate['orientation'] })}
+                className="bg-zinc-950 border border-zinc-800 focus:border-cyan-500 outline-none px-2 py-1 text-sm font-mono text-zinc-200"
+              >
+                <option value="portrait">Portrait</option>
+                <option value="landscape">Landscape</option>
+              </select>
+            </div>
+            <div>
+              <label className={LABEL_CLASS}>Accent Color</label>
+              <div className="flex items-center gap-2">
+                <input
+                  type="color"
+                  value={/^#[0-9a-f]{6}$/i.test(draft.accentColor) ? draft.accentColor : '#000000'}
+                  onChange={(e) => update({ accentColor: e.target.value })}
+                  className="h-7 w-10 bg-zinc-950 border border-zinc-800 cursor-pointer"
+                />
+                <input
+                  value={draft.accentColor}
+                  onChange={(e) => update({ accentColor: e.target.value })}
+                  maxLength={7}
+                  className="w-24 bg-zinc-950 border border-zinc-800 focus:border-cyan-500 outline-none px-2 py-1 text-sm font-mono text-zinc-200"
+                />
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <label className={LABEL_CLASS}>Columns</label>
+            <div className="grid grid-cols-3 gap-2">
+              {REPORT_COLUMNS.map(column => (
+                <label key={column.id} className="flex items-center gap-2 text-xs font-mono text-zinc-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={draft.columns.includes(column.id)}
+                    onChange={() => toggleColumn(column.id)}
+                    className="accent-cyan-500"
+                  />
+                  {column.label}
+                </label>
+              ))}
+            </div>
+            <p className="text-xs font-mono text-zinc-500 mt-2">Subtotals line up under whichever of Amount, Fee and Net are shown.</p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
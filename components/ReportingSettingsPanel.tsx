@@ -0,0 +1,171 @@
+import React, { useMemo, useState } from 'react';
+import { ReportingSettings } from '../types';
+import { WEEKDAY_LABELS, describeReportingSettings, validateReportingSettings } from '../services/reportingSettings';
+
+interface ReportingSettingsPanelProps {
+  settings: ReportingSettings;
+  onSave: (settings: ReportingSettings) => Promise<void>;
+  onClose: () => void;
+}
+
+export const ReportingSettingsPanel: React.FC<ReportingSettingsPanelProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<ReportingSettings>(settings);
+  const [newHoliday, setNewHoliday] = useState('');
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDirty, setIsDirty] = useState(false);
+
+  // Older runtimes lack supportedValuesOf; the saved zone is always offered
+  const timeZones = useMemo(() => {
+    const zones: string[] = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+    return zones.includes(draft.timeZone) ? zones : [draft.timeZone, ...zones];
+  }, [draft.timeZone]);
+
+  const update = (changes: Partial<ReportingSettings>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+    setIsDirty(true);
+    setErrorMessage(null);
+  };
+
+  const toggleRollForwardDay = (day: number) => {
+    const days = draft.rollForwardDays.includes(day)
+      ? draft.rollForwardDays.filter(d => d !== day)
+      : [...draft.rollForwardDays, day].sort((a, b) => a - b);
+    update({ rollForwardDays: days });
+  };
+
+  const addHoliday = () => {
+    if (!newHoliday || draft.holidays.includes(newHoliday)) return;
+    update({ holidays: [...draft.holidays, newHoliday].sort() });
+    setNewHoliday('');
+  };
+
+  const removeHoliday = (holiday: string) => {
+    update({ holidays: draft.holidays.filter(h => h !== holiday) });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setErrorMessage(null);
+    try {
+      await onSave(validateReportingSettings(draft));
+      setIsDirty(false);
+    } catch (err: unknown) {
+      setErrorMessage(err instanceof Error ? err.message : 'Failed to save reporting settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (isDirty && !confirm('Discard unsaved reporting settings?')) return;
+    onClose();
+  };
+
+  return (
+    <div className="bg-zinc-900/50 rounded-lg shadow-2xl border border-zinc-800 overflow-hidden backdrop-blur-sm">
+
+      {/* Toolbar */}
+      <div className="p-4 border-b border-zinc-800 flex flex-wrap items-center justify-between gap-4 bg-zinc-900">
+        <div>
+          <h2 className="font-bold text-white tracking-wide">REPORTING DAY</h2>
+          <p className="text-xs font-mono text-zinc-500 mt-1">
+            {describeReportingSettings(draft)} {isDirty && <span className="text-amber-400 ml-2">[UNSAVED]</span>}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button onClick={handleClose} className="px-3 py-2 text-xs font-mono text-zinc-400 hover:text-white hover:bg-zinc-800 border border-transparent hover:border-zinc-700 rounded transition-all">
+            CLOSE
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || !isDirty}
+            className="px-6 py-2 text-sm font-bold text-black bg-cyan-500 hover:bg-cyan-400 disabled:bg-zinc-700 disabled:text-zinc-500 rounded-none transition-all active:scale-95"
+          >
+            {isSaving ? 'SAVING...' : 'SAVE'}
+          </button>
+        </div>
+      </div>
+
+      {errorMessage && (
+        <div className="p-3 bg-pink-950/30 border-b border-pink-500/50 text-pink-400 text-sm font-mono">
+          <span className="font-bold text-pink-500">[ERROR]</span> {errorMessage}
+        </div>
+      )}
+
+      <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-8">
+        {/* Cutoff + Timezone */}
+        <div className="space-y-6">
+          <div>
+            <label className="block text-[10px] font-bold font-mono text-cyan-500/70 uppercase tracking-widest mb-2">Cutoff Time</label>
+            <input
+              type="time"
+              value={draft.cutoffTime}
+              onChange={(e) => update({ cutoffTime: e.target.value })}
+              className="bg-zinc-950 border border-zinc-800 focus:border-cyan-500 outline-none px-2 py-1 text-sm font-mono text-zinc-200"
+            />
+            <p className="text-xs font-mono text-zinc-500 mt-2">Transactions at or after this time report on the next day.</p>
+          </div>
+
+          <div>
+            <label className="block text-[10px] font-bold font-mono text-cyan-500/70 uppercase tracking-widest mb-2">Store Timezone</label>
+            <select
+              value={draft.timeZone}
+              onChange={(e) => update({ timeZone: e.target.value })}
+              className="w-full bg-zinc-950 border border-zinc-800 focus:border-cyan-500 outline-none px-2 py-1 text-sm font-mono text-zinc-200"
+            >
+              {timeZones.map(zone => (
+                <option key={zone} value={zone}>{zone}</option>
+              ))}
+            </select>
+            <p className="text-xs font-mono text-zinc-500 mt-2">Exports with a UTC offset are converted to this zone before the cutoff is applied.</p>
+          </div>
+        </div>
+
+        {/* Roll-forward rules */}
+        <div className="space-y-6">
+          <div>
+            <label className="block text-[10px] font-bold font-mono text-cyan-500/70 uppercase tracking-widest mb-2">Roll Forward Weekdays</label>
+            <div className="flex flex-wrap gap-2">
+              {WEEKDAY_LABELS.map((label, day) => (
+                <button
+                  key={label}
+                  onClick={() => toggleRollForwardDay(day)}
+                  className={`px-3 py-1 text-xs font-bold font-mono rounded border transition-all ${draft.rollForwardDays.includes(day) ? 'border-cyan-500 text-cyan-400 bg-cyan-500/10' : 'border-zinc-700 text-zinc-500 hover:text-zinc-300'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs font-mono text-zinc-500 mt-2">Sales on these days roll to the next reporting day (e.g. SAT/SUN to Monday's deposit).</p>
+          </div>
+
+          <div>
+            <label className="block text-[10px] font-bold font-mono text-cyan-500/70 uppercase tracking-widest mb-2">Holidays</label>
+            <div className="flex items-center gap-2">
+              <input
+                type="date"
+                value={newHoliday}
+                onChange={(e) => setNewHoliday(e.target.value)}
+                className="bg-zinc-950 border border-zinc-800 focus:border-cyan-500 outline-none px-2 py-1 text-sm font-mono text-zinc-200"
+              />
+              <button onClick={addHoliday} disabled={!newHoliday} className="px-4 py-1 text-xs font-mono font-bold text-cyan-400 border border-dashed border-cyan-500/50 hover:bg-cyan-500/10 disabled:opacity-40 transition-all">
+                + ADD
+              </button>
+            </div>
+            <div className="mt-3 flex flex-wrap gap-2">
+              {draft.holidays.map(holiday => (
+                <span key={holiday} className="flex items-center gap-2 px-2 py-1 text-xs font-mono text-zinc-300 border border-zinc-700 rounded">
+                  {holiday}
+                  <button onClick={() => removeHoliday(holiday)} className="text-zinc-600 hover:text-pink-500 transition-colors">×</button>
+                </span>
+              ))}
+              {draft.holidays.length === 0 && <span className="text-xs font-mono text-zinc-600">No holidays set.</span>}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
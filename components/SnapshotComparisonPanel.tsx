@@ -0,0 +1,251 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ReportSnapshot } from '../types';
+import { ComparisonMetric, compareSnapshots, formatComparisonValue, formatDeltaPercent } from '../services/reportSnapshots';
+import { generateComparisonPDF } from '../services/pdfGenerator';
+import { formatMoney } from '../services/currency';
+import { WEEKDAY_LABELS } from '../services/reportingSettings';
+
+interface SnapshotComparisonPanelProps {
+  snapshots: ReportSnapshot[];  // Newest first
+  onRename: (snapshot: ReportSnapshot, name: string) => Promise<void>;
+  onDelete: (snapshot: ReportSnapshot) => Promise<void>;
+  onClose: () => void;
+}
+
+const LABEL_CLASS = 'block text-[10px] font-bold font-mono text-cyan-500/70 uppercase tracking-widest mb-2';
+const INPUT_CLASS = 'w-full bg-zinc-950 border border-zinc-800 focus:border-cyan-500 outline-none px-2 py-1 text-sm font-mono text-zinc-200';
+const HEAD_CLASS = 'px-3 py-2 text-[10px] font-bold font-mono text-zinc-500 uppercase tracking-widest';
+
+// Up is green and down is pink, except for rates (a higher fee rate is no improvement)
+const deltaClass = (metric: ComparisonMetric) => {
+  if (metric.delta === null || metric.delta === 0 || metric.format === 'percent') return 'text-zinc-400';
+  return metric.delta > 0 ? 'text-emerald-400' : 'text-pink-400';
+};
+
+export const SnapshotComparisonPanel: React.FC<SnapshotComparisonPanelProps> = ({ snapshots, onRename, onDelete, onClose }) => {
+  // Latest run against the one before it
+  const [baselineId, setBaselineId] = useState(snapshots[1]?.id ?? '');
+  const [currentId, setCurrentId] = useState(snapshots[0]?.id ?? '');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  // A deleted snapshot drops out of the selection
+  useEffect(() => {
+    if (!snapshots.some(s => s.id === baselineId)) setBaselineId(snapshots.find(s => s.id !== currentId)?.id ?? '');
+    if (!snapshots.some(s => s.id === currentId)) setCurrentId(snapshots.find(s => s.id !== baselineId)?.id ?? '');
+  }, [snapshots, baselineId, currentId]);
+
+  const baseline = snapshots.find(s => s.id === baselineId);
+  const current = snapshots.find(s => s.id === currentId);
+  const comparison = useMemo(
+    () => baseline && current && baseline.id !== current.id ? compareSnapshots(baseline, current) : null,
+    [baseline, current]
+  );
+  const money = (amount: number) => formatMoney(amount, current?.homeCurrency ?? 'USD');
+
+  const startRename = (snapshot: ReportSnapshot) => {
+    setEditingId(snapshot.id);
+    setEditName(snapshot.name);
+    setErrorMessage(null);
+  };
+
+  const handleRename = async (snapshot: ReportSnapshot) => {
+    const name = editName.trim();
+    if (!name) {
+      setErrorMessage('A snapshot needs a name');
+      return;
+    }
+    try {
+      await onRename(snapshot, name);
+      setEditingId(null);
+    } catch (err: unknown) {
+      setErrorMessage(err instanceof Error ? err.message : 'Failed to rename the snapshot');
+    }
+  };
+
+  const handleDelete = async (snapshot: ReportSnapshot) => {
+    if (!confirm(`Delete the snapshot "${snapshot.name}"?`)) return;
+    setErrorMessage(null);
+    try {
+      await onDelete(snapshot);
+    } catch (err: unknown) {
+      setErrorMessage(err instanceof Error ? err.message : 'Failed to delete the snapshot');
+    }
+  };
+
+  const renderSelect = (label: string, value: string, onChange: (id: string) => void) => (
+    <div className="flex-1 min-w-[14rem]">
+      <label className={LABEL_CLASS}>{label}</label>
+      <select value={value} onChange={(e) => onChange(e.target.value)} className={INPUT_CLASS}>
+        <option value="">Select a snapshot</option>
+        {snapshots.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+      </select>
+    </div>
+  );
+
+  return (
+    <div className="bg-zinc-900/50 rounded-lg shadow-2xl border border-zinc-800 overflow-hidden backdrop-blur-sm">
+
+      {/* Toolbar */}
+      <div className="p-4 border-b border-zinc-800 flex flex-wrap items-center justify-between gap-4 bg-zinc-900">
+        <div>
+          <h2 className="font-bold text-white tracking-wide">PERIOD COMPARISON</h2>
+          <p className="text-xs font-mono text-zinc-500 mt-1">
+            {snapshots.length} saved snapshot{snapshots.length === 1 ? '' : 's'} · every processed report is kept
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button onClick={onClose} className="px-3 py-2 text-xs font-mono text-zinc-400 hover:text-white hover:bg-zinc-800 border border-transparent hover:border-zinc-700 rounded transition-all">
+            CLOSE
+          </button>
+          <button
+            onClick={() => comparison && generateComparisonPDF(comparison)}
+            disabled={!comparison}
+            className="px-6 py-2 text-sm font-bold text-black bg-cyan-500 hover:bg-cyan-400 disabled:bg-zinc-700 disabled:text-zinc-500 rounded-none transition-all active:scale-95"
+          >
+            EXPORT PDF
+          </button>
+        </div>
+      </div>
+
+      {errorMessage && (
+        <div className="p-3 bg-pink-950/30 border-b border-pink-500/50 text-pink-400 text-sm font-mono">
+          <span className="font-bold text-pink-500">[ERROR]</span> {errorMessage}
+        </div>
+      )}
+
+      {snapshots.length < 2 ? (
+        <div className="p-12 text-center text-sm font-mono text-zinc-600">
+          Process reports for two periods to compare them.
+        </div>
+      ) : (
+        <div className="p-6 space-y-8">
+          <div className="flex flex-wrap gap-4">
+            {renderSelect('Baseline', baselineId, setBaselineId)}
+            {renderSelect('Compare', currentId, setCurrentId)}
+          </div>
+
+          {comparison?.currencyMismatch && (
+            <p className="text-xs font-mono text-amber-400">
+              [WARNING] The baseline is in {comparison.baseline.homeCurrency} and the compared period in {comparison.current.homeCurrency}; amounts are not converted.
+            </p>
+          )}
+
+          {!comparison ? (
+            <p className="text-sm font-mono text-zinc-600">Pick two different snapshots.</p>
+          ) : (
+            <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+              <div>
+                <h3 className={LABEL_CLASS}>Totals</h3>
+                <table className="w-full text-sm font-mono border border-zinc-800">
+                  <thead className="bg-zinc-900 text-left">
+                    <tr>
+                      <th className={HEAD_CLASS}>Metric</th>
+                      <th className={`${HEAD_CLASS} text-right`}>Baseline</th>
+                      <th className={`${HEAD_CLASS} text-right`}>Compare</th>
+                      <th className={`${HEAD_CLASS} text-right`}>Change</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-zinc-800">
+                    {comparison.metrics.map(m => (
+                      <tr key={m.label}>
+                        <td className="px-3 py-2 text-zinc-300">{m.label}</td>
+                        <td className="px-3 py-2 text-right text-zinc-400">{formatComparisonValue(m.baseline, m.format, money)}</td>
+                        <td className="px-3 py-2 text-right text-zinc-200">{formatComparisonValue(m.current, m.format, money)}</td>
+                        <td className={`px-3 py-2 text-right ${deltaClass(m)}`}>
+                          {formatComparisonValue(m.delta, m.format, money, true)}
+                          <span className="block text-[10px] opacity-70">{formatDeltaPercent(m)}</span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div>
+                <h3 className={LABEL_CLASS}>Average Day by Weekday</h3>
+                <table className="w-full text-sm font-mono border border-zinc-800">
+                  <thead className="bg-zinc-900 text-left">
+                    <tr>
+                      <th className={HEAD_CLASS}>Day</th>
+                      <th className={`${HEAD_CLASS} text-right`}>Baseline Gross</th>
+                      <th className={`${HEAD_CLASS} text-right`}>Compare Gross</th>
+                      <th className={`${HEAD_CLASS} text-right`}>Change</th>
+                      <th className={`${HEAD_CLASS} text-right`}>Txns</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-zinc-800">
+                    {comparison.weekdays.map(w => (
+                      <tr key={w.weekday}>
+                        <td className="px-3 py-2 text-zinc-300">
+                          {WEEKDAY_LABELS[w.weekday]}
+                          <span className="block text-[10px] text-zinc-600">{w.baselineDays} / {w.currentDays} days</span>
+                        </td>
+                        <td className="px-3 py-2 text-right text-zinc-400">{formatComparisonValue(w.gross.baseline, 'money', money)}</td>
+                        <td className="px-3 py-2 text-right text-zinc-200">{formatComparisonValue(w.gross.current, 'money', money)}</td>
+                        <td className={`px-3 py-2 text-right ${deltaClass(w.gross)}`}>
+                          {formatComparisonValue(w.gross.delta, 'money', money, true)}
+                          <span className="block text-[10px] opacity-70">{formatDeltaPercent(w.gross)}</span>
+                        </td>
+                        <td className={`px-3 py-2 text-right ${deltaClass(w.count)}`}>
+                          {formatComparisonValue(w.count.current, 'count', money)}
+                          <span className="block text-[10px] opacity-70">{formatComparisonValue(w.count.delta, 'count', money, true)}</span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Saved snapshots */}
+      {snapshots.length > 0 && (
+        <div className="border-t border-zinc-800 p-6">
+          <h3 className={LABEL_CLASS}>Saved Snapshots</h3>
+          <ul className="divide-y divide-zinc-800 border border-zinc-800">
+            {snapshots.map(s => (
+              <li key={s.id} className="px-3 py-2 flex items-center gap-4">
+                {editingId === s.id ? (
+                  <input
+                    autoFocus
+                    value={editName}
+                    onChange={(e) => setEditName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleRename(s);
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className={`${INPUT_CLASS} flex-1`}
+                  />
+                ) : (
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-mono text-zinc-200 truncate">{s.name}</p>
+                    <p className="text-[10px] font-mono text-zinc-600">
+                      {s.dateRange} · {s.transactionCount} txns · {formatMoney(s.totalAmount, s.homeCurrency)} · saved {new Date(s.createdAt).toLocaleString()}
+                    </p>
+                  </div>
+                )}
+                {editingId === s.id ? (
+                  <button onClick={() => handleRename(s)} className="px-3 py-1 text-[10px] font-mono font-bold text-cyan-400 hover:text-cyan-300 transition-colors">
+                    SAVE
+                  </button>
+                ) : (
+                  <button onClick={() => startRename(s)} className="px-3 py-1 text-[10px] font-mono font-bold text-zinc-500 hover:text-cyan-400 transition-colors">
+                    RENAME
+                  </button>
+                )}
+                <button onClick={() => handleDelete(s)} className="px-3 py-1 text-[10px] font-mono font-bold text-zinc-500 hover:text-pink-500 transition-colors">
+                  DELETE
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
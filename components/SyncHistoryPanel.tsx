@@ -0,0 +1,146 @@
+import React, { useState, useEffect } from 'react';
+import { ipcRenderer } from '../services/ipc';
+import { SyncHistoryRun } from '../types';
+
+interface SyncHistoryPanelProps {
+  onClose: () => void;
+}
+
+export const SyncHistoryPanel: React.FC<SyncHistoryPanelProps> = ({ onClose }) => {
+  const [runs, setRuns] = useState<SyncHistoryRun[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [undoingRunId, setUndoingRunId] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: 'error' | 'info', text: string } | null>(null);
+
+  const loadRuns = async () => {
+    setIsLoading(true);
+    const res = await ipcRenderer.invoke('history:list');
+    if (res?.success) {
+      setRuns(res.runs);
+    } else if (res) {
+      setMessage({ type: 'error', text: `Failed to load history: ${res.error}` });
+    }
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadRuns();
+  }, []);
+
+  const handleUndo = async (run: SyncHistoryRun) => {
+    const alreadyDeleted = new Set(run.undo?.deletedKeys ?? []);
+    const remaining = run.documents.filter(doc => doc.action === 'create' && doc.id && !alreadyDeleted.has(doc.key)).length;
+    if (!confirm(`Delete the ${remaining} document(s) this run created in QuickBooks? This cannot be reversed.`)) return;
+
+    setUndoingRunId(run.runId);
+    setMessage(null);
+    try {
+      const res = await ipcRenderer.invoke('history:undo', { runId: run.runId });
+      if (!res.success) {
+        setMessage({ type: 'error', text: `Undo Failed: ${res.error}` });
+      } else {
+        const { deleted, failed, errors } = res.results;
+        const notes = [`DELETED: ${deleted}`, `FAILED: ${failed}`];
+        if (res.notReverted > 0) notes.push(`NOT REVERTED (UPDATED/UNTRACKED): ${res.notReverted}`);
+        setMessage({ type: failed > 0 ? 'error' : 'info', text: [notes.join('  '), ...errors].join('\n') });
+      }
+      await loadRuns();
+    } finally {
+      setUndoingRunId(null);
+    }
+  };
+
+  const canUndo = (run: SyncHistoryRun) => {
+    const hasCreated = run.documents.some(doc => doc.action === 'create' && doc.id);
+    const fullyUndone = run.undo !== null && run.undo.failed === 0;
+    return hasCreated && !fullyUndone;
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-zinc-900/50 rounded-lg shadow-2xl border border-zinc-800 overflow-hidden backdrop-blur-sm">
+      <div className="p-4 border-b border-zinc-800 flex items-center justify-between gap-4 bg-zinc-900 shrink-0">
+        <div>
+          <h2 className="font-bold text-white tracking-wide">SYNC HISTORY</h2>
+          <p className="text-xs font-mono text-zinc-500 mt-1">EVERY BATCH PUSHED TO QUICKBOOKS FROM THIS MACHINE</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={loadRuns} className="px-3 py-2 text-xs font-mono text-zinc-400 hover:text-white hover:bg-zinc-800 border border-zinc-700 rounded transition-all">
+            REFRESH
+          </button>
+          <button onClick={onClose} className="px-3 py-2 text-xs font-mono text-zinc-400 hover:text-white hover:bg-zinc-800 border border-transparent hover:border-zinc-700 rounded transition-all">
+            CLOSE
+          </button>
+        </div>
+      </div>
+
+      {message && (
+        <div className={`p-3 border-b text-xs font-mono whitespace-pre-wrap ${message.type === 'error' ? 'bg-pink-950/30 border-pink-500/50 text-pink-400' : 'bg-green-950/30 border-green-500/50 text-green-400'}`}>
+          {message.text}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-auto">
+        {isLoading ? (
+          <p className="p-6 text-cyan-400 font-mono text-sm animate-pulse">LOADING HISTORY...</p>
+        ) : runs.length === 0 ? (
+          <p className="p-6 text-zinc-500 font-mono text-sm">No sync runs recorded yet.</p>
+        ) : (
+          <table className="min-w-full divide-y divide-zinc-800 font-mono text-xs">
+            <thead className="bg-zinc-900 sticky top-0 text-cyan-500/70 uppercase tracking-wider">
+              <tr>
+                <th className="px-4 py-3 text-left">When</th>
+                <th className="px-4 py-3 text-left">File</th>
+                <th className="px-4 py-3 text-left">Mode</th>
+                <th className="px-4 py-3 text-right">Created</th>
+                <th className="px-4 py-3 text-right">Updated</th>
+                <th className="px-4 py-3 text-right">Skipped</th>
+                <th className="px-4 py-3 text-right">Failed</th>
+                <th className="px-4 py-3 text-left">Status</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-zinc-800/50">
+              {runs.map(run => (
+                <tr key={run.runId} className="hover:bg-cyan-500/5">
+                  <td className="px-4 py-3 text-zinc-400 whitespace-nowrap">{new Date(run.timestamp).toLocaleString()}</td>
+                  <td className="px-4 py-3 text-zinc-200" title={run.fileHash || undefined}>
+                    {run.fileName || '-'}
+                    {run.fileHash && <span className="block text-[10px] text-zinc-600">{run.fileHash.slice(0, 12)}</span>}
+                  </td>
+                  <td className="px-4 py-3 text-zinc-400">
+                    {run.mode}
+                    {run.interrupted && <span className="block text-[10px] text-amber-400" title={run.interrupted}>INTERRUPTED</span>}
+                  </td>
+                  <td className="px-4 py-3 text-right text-green-400">{run.counts.success}</td>
+                  <td className="px-4 py-3 text-right text-cyan-400">{run.counts.updated}</td>
+                  <td className="px-4 py-3 text-right text-zinc-500">{run.counts.skipped}</td>
+                  <td className="px-4 py-3 text-right text-pink-500">{run.counts.failed}</td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    {run.undo === null ? (
+                      <span className="text-green-400">POSTED</span>
+                    ) : run.undo.failed === 0 ? (
+                      <span className="text-zinc-500">UNDONE {new Date(run.undo.timestamp).toLocaleDateString()}</span>
+                    ) : (
+                      <span className="text-pink-500">PARTIALLY UNDONE ({run.undo.failed} FAILED)</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    {canUndo(run) && (
+                      <button
+                        onClick={() => handleUndo(run)}
+                        disabled={undoingRunId !== null}
+                        className="px-3 py-1 text-[10px] font-bold text-pink-500 border border-pink-600/50 hover:bg-pink-600 hover:text-white disabled:opacity-40 rounded transition-all"
+                      >
+                        {undoingRunId === run.runId ? 'UNDOING...' : 'UNDO BATCH'}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { Check, MessageSquare } from 'lucide-react';
+import { TransactionVerification } from '../types';
+import { getReviewerInitials } from '../services/verification';
+
+interface VerificationCellProps {
+  verification?: TransactionVerification;
+  onToggle: () => void;
+  onNoteChange: (note: string) => void;
+}
+
+// Verify column of the ledger: checkbox, reviewer initials and an optional note
+export const VerificationCell: React.FC<VerificationCellProps> = ({ verification, onToggle, onNoteChange }) => {
+  const [isEditingNote, setIsEditingNote] = useState(false);
+  const [note, setNote] = useState(verification?.note || '');
+
+  const commitNote = () => {
+    if (!isEditingNote) return;
+    setIsEditingNote(false);
+    if (verification && note.trim() !== verification.note) onNoteChange(note);
+  };
+
+  const details = verification
+    ? `${verification.reviewer} · ${new Date(verification.verifiedAt).toLocaleString()}${verification.note ? `\n${verification.note}` : ''}`
+    : 'Mark as verified';
+
+  return (
+    <div className="flex flex-col items-center gap-1">
+      <div className="flex items-center gap-2">
+        <button
+          onClick={onToggle}
+          title={details}
+          className={`w-4 h-4 border rounded-sm flex items-center justify-center transition-colors ${verification ? 'border-cyan-500 bg-cyan-500 text-black' : 'border-zinc-700 bg-zinc-900 group-hover:border-cyan-500/50'}`}
+        >
+          {verification && <Check className="w-3 h-3" />}
+        </button>
+        {verification && (
+          <>
+            <span className="text-[9px] font-bold font-mono text-cyan-400 tracking-wider">{getReviewerInitials(verification.reviewer)}</span>
+            <button
+              onClick={() => { setNote(verification.note); setIsEditingNote(!isEditingNote); }}
+              title={verification.note || 'Add a note'}
+              className={`transition-colors ${verification.note ? 'text-cyan-400' : 'text-zinc-600 hover:text-zinc-300'}`}
+            >
+              <MessageSquare className="w-3 h-3" />
+            </button>
+          </>
+        )}
+      </div>
+      {verification && isEditingNote && (
+        <input
+          autoFocus
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          onBlur={commitNote}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitNote();
+            if (e.key === 'Escape') setIsEditingNote(false);
+          }}
+          placeholder="Note"
+          className="w-36 bg-zinc-950 border border-zinc-800 focus:border-cyan-500 outline-none px-2 py-1 text-[10px] font-mono text-zinc-200"
+        />
+      )}
+    </div>
+  );
+};
@@ -14,9 +14,36 @@ const url = require('url');
 
 const qbAuth = require('./services/qbAuth.service.cjs');
 const qbSync = require('./services/qbSync.service.cjs');
+const accountMapping = require('./services/accountMapping.service.cjs');
+const syncHistory = require('./services/syncHistory.service.cjs');
+const companyProfile = require('./services/companyProfile.service.cjs');
+const referenceResolution = require('./services/referenceResolution.service.cjs');
+const syncCheckpoint = require('./services/syncCheckpoint.service.cjs');
+const reportingSettings = require('./services/reportingSettings.service.cjs');
+const importProfile = require('./services/importProfile.service.cjs');
+const verification = require('./services/verification.service.cjs');
+const journalAccounts = require('./services/journalAccounts.service.cjs');
+const reportTemplate = require('./services/reportTemplate.service.cjs');
+const reportSnapshot = require('./services/reportSnapshot.service.cjs');
 
 const isDev = process.env.NODE_ENV === 'development';
 
+// Every QBO write names the company it was prepared for; refuse it if the user has switched since
+const requireActiveCompany = (companyId) => {
+  const active = companyProfile.getActiveProfile();
+  if (companyId !== active.id) {
+    throw new Error(`This batch was prepared for a different company profile. Switch back to it or re-convert the file for "${active.name}".`);
+  }
+  return active;
+};
+
+// Sync service for a company with its saved missing vendor/account choices applied
+const getSyncService = (companyId) => {
+  const service = qbSync.forCompany(companyId);
+  service.setResolutions(referenceResolution.getResolutions(companyId));
+  return service;
+};
+
 let callbackServer = null;
 let mainWindow = null;
 
@@ -62,10 +89,18 @@ function startCallbackServer(win) {
       console.log('Exchanging code from:', fullUrl);
 
       try {
-        const token = await qbAuth.exchangeAuthCode(fullUrl);
+        const { companyId, token, realmId } = await qbAuth.exchangeAuthCode(fullUrl);
+
+        // Never let a profile silently switch to a different QBO company
+        try {
+          companyProfile.bindRealm(companyId, realmId);
+        } catch (bindErr) {
+          await qbAuth.disconnect(companyId);
+          throw bindErr;
+        }
         
         // Notify Frontend
-        win.webContents.send('qb:auth-success', token);
+        win.webContents.send('qb:auth-success', { companyId, token });
         
         res.writeHead(200, { 'Content-Type': 'text/html' });
         res.end(`
@@ -96,41 +131,374 @@ function startCallbackServer(win) {
 }
 
 app.whenReady().then(() => {
+  // Resume every company's QuickBooks session before the renderer asks for status
+  companyProfile.listProfiles().profiles.forEach(profile => {
+    try {
+      if (qbAuth.restoreToken(profile.id) && !profile.realmId) {
+        companyProfile.bindRealm(profile.id, qbAuth.getRealmId(profile.id));
+      }
+    } catch (err) {
+      console.error(`Could not restore QuickBooks session for "${profile.name}":`, err);
+    }
+  });
+
   const win = createWindow();
   startCallbackServer(win);
 
   // IPC Handlers for QB
   ipcMain.handle('qb:login', () => {
-    const authUri = qbAuth.getAuthUri();
+    const authUri = qbAuth.getAuthUri(companyProfile.getActiveProfile().id);
     shell.openExternal(authUri);
     return { status: 'initiated', url: authUri };
   });
 
   ipcMain.handle('qb:get-status', () => {
-    return {
-        isConnected: qbAuth.isTokenValid(),
-        realmId: qbAuth.getRealmId()
-    };
+    const active = companyProfile.getActiveProfile();
+    return { ...qbAuth.getStatus(active.id), companyId: active.id };
+  });
+
+  ipcMain.handle('qb:disconnect', async () => {
+    try {
+        const { id } = companyProfile.getActiveProfile();
+        const result = await qbAuth.disconnect(id);
+        qbSync.removeCompany(id);
+        return { success: true, ...result };
+    } catch (err) {
+        return { success: false, error: err.message };
+    }
   });
 
   ipcMain.handle('qb:refresh-mappings', async () => {
     try {
-        const counts = await qbSync.refreshMappings();
+        const counts = await qbSync.forCompany(companyProfile.getActiveProfile().id).refreshMappings();
         return { success: true, counts };
     } catch (err) {
         return { success: false, error: err.message };
     }
   });
 
-  ipcMain.handle('qb:sync', async (event, { mode, data }) => {
+  ipcMain.handle('qb:check-references', async (event, { companyId, mode, data }) => {
+    try {
+        requireActiveCompany(companyId);
+        const references = await getSyncService(companyId).findMissingReferences(mode, data);
+        return { success: true, ...references };
+    } catch (err) {
+        return { success: false, error: err.message };
+    }
+  });
+
+  // resolutions: { vendors|accounts: { name: { action: 'create'|'map'|'skip', accountType?, targetId?, targetName? } } }
+  ipcMain.handle('qb:resolve-references', async (event, { companyId, resolutions }) => {
+    try {
+        requireActiveCompany(companyId);
+        const toCreate = [];
+        ['vendors', 'accounts'].forEach(kind => {
+            Object.entries(resolutions[kind] || {}).forEach(([name, resolution]) => {
+                if (resolution.action === 'create') toCreate.push({ kind, name, accountType: resolution.accountType });
+            });
+        });
+
+        // Validate and remember the choices before creating anything in QBO
+        referenceResolution.saveResolutions(companyId, resolutions);
+        const results = await getSyncService(companyId).createReferences(toCreate);
+        return { success: true, results };
+    } catch (err) {
+        return { success: false, error: err.message };
+    }
+  });
+
+  ipcMain.handle('qb:check-duplicates', async (event, { companyId, mode, data }) => {
     try {
+        requireActiveCompany(companyId);
+        const documents = await getSyncService(companyId).checkDuplicates(mode, data);
+        return { success: true, documents };
+    } catch (err) {
+        return { success: false, error: err.message };
+    }
+  });
+
+  // Logs what an interrupted sync posted, so it can be undone even after its checkpoint is replaced
+  const recordInterruptedSync = (company, error) => {
+    const unrecorded = syncCheckpoint.getUnrecorded(company.id);
+    if (!unrecorded) return null;
+    const { documents } = unrecorded;
+    const results = {
+        success: documents.filter(doc => doc.action !== 'update').length,
+        updated: documents.filter(doc => doc.action === 'update').length,
+        skipped: 0,
+        failed: 0,
+        documents
+    };
+    const run = syncHistory.recordRun({ company, mode: unrecorded.mode, fileName: unrecorded.fileName, fileHash: unrecorded.fileHash, results, interrupted: error });
+    syncCheckpoint.markRecorded(company.id, documents.map(doc => doc.key));
+    return run;
+  };
+
+  ipcMain.handle('qb:sync', async (event, { companyId, mode, data, decisions = {}, fileName, fileHash }) => {
+    let company = null;
+    try {
+        company = requireActiveCompany(companyId);
+        const service = getSyncService(companyId);
+        // Documents using a vendor/account the user chose to skip never reach QBO
+        decisions = { ...decisions, ...service.getReferenceSkips(mode, data) };
+        const onProgress = (progress) => event.sender.send('qb:sync-progress', progress);
+        const source = { fileName, fileHash };
         let results;
-        if (mode === 'GL') {
-            results = await qbSync.syncJournalEntries(data);
+        // GL and TXN rows are both posted as journal entries
+        if (mode === 'AP') {
+            results = await service.syncBills(data, decisions, onProgress, source);
+        } else if (mode === 'SALES') {
+            results = await service.syncSales(data, decisions, onProgress, source);
         } else {
-            results = await qbSync.syncBills(data);
+            results = await service.syncJournalEntries(data, decisions, onProgress, source);
         }
-        return { success: true, results };
+        const run = syncHistory.recordRun({ company, mode, fileName, fileHash, results });
+        return { success: true, results, runId: run.runId };
+    } catch (err) {
+        // Whatever was posted before the failure is in the checkpoint; syncing the same batch again resumes it.
+        // It also goes into the sync history now, so it stays undoable if another batch is synced instead.
+        let checkpoint = null;
+        let partialRunId = null;
+        try {
+            if (company) {
+                const run = recordInterruptedSync(company, err.message);
+                if (run) partialRunId = run.runId;
+            }
+            checkpoint = syncCheckpoint.getPending(companyId);
+        } catch (readErr) {
+            console.error('Could not record the interrupted sync:', readErr);
+        }
+        return { success: false, error: err.message, checkpoint, partialRunId, blocked: err.code === 'UNRECORDED_CHECKPOINT' };
+    }
+  });
+
+  // IPC Handlers for Sync History
+  ipcMain.handle('history:list', () => {
+    try {
+        return { success: true, runs: syncHistory.listRuns(companyProfile.getActiveProfile().id) };
+    } catch (err) {
+        return { success: false, error: err.message };
+    }
+  });
+
+  ipcMain.handle('history:undo', async (event, { runId }) => {
+    try {
+        const run = syncHistory.getRun(runId);
+        if (!run) throw new Error('Sync run not found in history.');
+        requireActiveCompany(run.companyId);
+        if (run.undo && run.undo.failed === 0) throw new Error('This batch has already been undone.');
+
+        // Sparse updates overwrote existing records and cannot be rolled back
+        const created = run.documents.filter(doc => doc.action === 'create' && doc.id);
+        const alreadyDeleted = new Set(run.undo ? run.undo.deletedKeys : []);
+        const results = await qbSync.forCompany(run.companyId).deleteDocuments(created.filter(doc => !alreadyDeleted.has(doc.key)));
+        syncHistory.recordUndo(runId, results);
+
+        return { success: true, results, notReverted: run.documents.length - created.length };
+    } catch (err) {
+        return { success: false, error: err.message };
+    }
+  });
+
+  // IPC Handlers for Company Profiles
+  ipcMain.handle('companies:list', () => {
+    try {
+        return { success: true, ...companyProfile.listProfiles() };
+    } catch (err) {
+        return { success: false, error: err.message };
+    }
+  });
+
+  ipcMain.handle('companies:create', (event, { name }) => {
+    try {
+        const profile = companyProfile.createProfile(name);
+        return { success: true, profile, ...companyProfile.setActiveProfile(profile.id) };
+    } catch (err) {
+        return { success: false, error: err.message };
+    }
+  });
+
+  ipcMain.handle('companies:switch', (event, { id }) => {
+    try {
+        return { success: true, ...companyProfile.setActiveProfile(id) };
+    } catch (err) {
+        return { success: false, error: err.message };
+    }
+  });
+
+  // IPC Handlers for Account Mappings (always the active company's tables)
+  ipcMain.handle('mappings:get', () => {
+    try {
+        return { success: true, mappings: accountMapping.getMappings(companyProfile.getActiveProfile().id) };
+    } catch (err) {
+        return { success: false, error: err.message };
+    }
+  });
+
+  ipcMain.handle('mappings:save', (event, { mappings }) => {
+    try {
+        return { success: true, mappings: accountMapping.saveMappings(companyProfile.getActiveProfile().id, mappings) };
+    } catch (err) {
+        return { success: false, error: err.message };
+    }
+  });
+
+  // IPC Handlers for Daily Journal Accounts (the active company's, like the account mappings)
+  ipcMain.handle('journal-accounts:get', () => {
+    try {
+        return { success: true, accounts: journalAccounts.getAccounts(companyProfile.getActiveProfile().id) };
+    } catch (err) {
+        return { success: false, error: err.message };
+    }
+  });
+
+  ipcMain.handle('journal-accounts:save', (event, { accounts }) => {
+    try {
+        return { success: true, accounts: journalAccounts.saveAccounts(companyProfile.getActiveProfile().id, accounts) };
+    } catch (err) {
+        return { success: false, error: err.message };
+    }
+  });
+
+  // IPC Handlers for the transaction PDF template (per company)
+  ipcMain.handle('report-template:get', () => {
+    try {
+        return { success: true, template: reportTemplate.getTemplate(companyProfile.getActiveProfile().id) };
+    } catch (err) {
+        return { success: false, error: err.message };
+    }
+  });
+
+  ipcMain.handle('report-template:save', (event, { template }) => {
+    try {
+        return { success: true, template: reportTemplate.saveTemplate(companyProfile.getActiveProfile().id, template) };
+    } catch (err) {
+        return { success: false, error: err.message };
+    }
+  });
+
+  // IPC Handlers for saved report snapshots (period-over-period comparison)
+  ipcMain.handle('report-snapshots:list', () => {
+    try {
+        return { success: true, snapshots: reportSnapshot.listSnapshots(companyProfile.getActiveProfile().id) };
+    } catch (err) {
+        return { success: false, error: err.message };
+    }
+  });
+
+  ipcMain.handle('report-snapshots:save', (event, { snapshot }) => {
+    try {
+        return { success: true, snapshot: reportSnapshot.saveSnapshot(companyProfile.getActiveProfile().id, snapshot) };
+    } catch (err) {
+        return { success: false, error: err.message };
+    }
+  });
+
+  ipcMain.handle('report-snapshots:delete', (event, { id }) => {
+    try {
+        reportSnapshot.deleteSnapshot(companyProfile.getActiveProfile().id, id);
+        return { success: true };
+    } catch (err) {
+        return { success: false, error: err.message };
+    }
+  });
+
+  // IPC Handlers for Reporting Settings (Shopify/PayPal reporting day rules)
+  ipcMain.handle('settings:get-reporting', () => {
+    try {
+        return { success: true, settings: reportingSettings.getSettings() };
+    } catch (err) {
+        return { success: false, error: err.message };
+    }
+  });
+
+  ipcMain.handle('settings:save-reporting', (event, { settings }) => {
+    try {
+        return { success: true, settings: reportingSettings.saveSettings(settings) };
+    } catch (err) {
+        return { success: false, error: err.message };
+    }
+  });
+
+  ipcMain.handle('settings:get-reconciliation', () => {
+    try {
+        return { success: true, settings: reportingSettings.getReconciliationSettings() };
+    } catch (err) {
+        return { success: false, error: err.message };
+    }
+  });
+
+  ipcMain.handle('settings:save-reconciliation', (event, { settings }) => {
+    try {
+        return { success: true, settings: reportingSettings.saveReconciliationSettings(settings) };
+    } catch (err) {
+        return { success: false, error: err.message };
+    }
+  });
+
+  ipcMain.handle('settings:get-currency', () => {
+    try {
+        return { success: true, settings: reportingSettings.getCurrencySettings() };
+    } catch (err) {
+        return { success: false, error: err.message };
+    }
+  });
+
+  ipcMain.handle('settings:save-currency', (event, { settings }) => {
+    try {
+        return { success: true, settings: reportingSettings.saveCurrencySettings(settings) };
+    } catch (err) {
+        return { success: false, error: err.message };
+    }
+  });
+
+  // IPC Handlers for CSV Import Profiles (column mappings for unrecognized layouts)
+  ipcMain.handle('import-profiles:list', () => {
+    try {
+        return { success: true, profiles: importProfile.listProfiles() };
+    } catch (err) {
+        return { success: false, error: err.message };
+    }
+  });
+
+  ipcMain.handle('import-profiles:save', (event, { profile }) => {
+    try {
+        return { success: true, profile: importProfile.saveProfile(profile) };
+    } catch (err) {
+        return { success: false, error: err.message };
+    }
+  });
+
+  ipcMain.handle('import-profiles:delete', (event, { id }) => {
+    try {
+        importProfile.deleteProfile(id);
+        return { success: true };
+    } catch (err) {
+        return { success: false, error: err.message };
+    }
+  });
+
+  // IPC Handlers for Transaction Verification (reviewer sign-offs on report rows)
+  ipcMain.handle('verifications:list', () => {
+    try {
+        return { success: true, verifications: verification.listVerifications() };
+    } catch (err) {
+        return { success: false, error: err.message };
+    }
+  });
+
+  ipcMain.handle('verifications:save', (event, { key, verification: entry }) => {
+    try {
+        return { success: true, verification: verification.saveVerification(key, entry) };
+    } catch (err) {
+        return { success: false, error: err.message };
+    }
+  });
+
+  ipcMain.handle('verifications:delete', (event, { key }) => {
+    try {
+        verification.deleteVerification(key);
+        return { success: true };
     } catch (err) {
         return { success: false, error: err.message };
     }
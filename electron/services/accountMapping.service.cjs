@@ -0,0 +1,26 @@
+const configStore = require('./configStore.service.cjs');
+
+const MAPPINGS_FILE = 'account-mappings.json';
+
+// Returns null when the company has never saved mappings, so the renderer
+// can fall back to the built-in defaults.
+const getMappings = (companyId) => {
+    return configStore.readJson(configStore.getCompanyPath(companyId, MAPPINGS_FILE), null);
+};
+
+const saveMappings = (companyId, mappings) => {
+    if (!mappings || typeof mappings.GL !== 'object' || typeof mappings.AP !== 'object') {
+        throw new Error('Invalid account mappings: expected GL and AP tables.');
+    }
+    configStore.writeJson(configStore.getCompanyPath(companyId, MAPPINGS_FILE), {
+        GL: mappings.GL,
+        AP: mappings.AP,
+        updatedAt: new Date().toISOString()
+    });
+    return getMappings(companyId);
+};
+
+module.exports = {
+    getMappings,
+    saveMappings
+};
@@ -0,0 +1,76 @@
+const crypto = require('crypto');
+const configStore = require('./configStore.service.cjs');
+
+const PROFILES_FILE = 'companies.json';
+
+// Seeded on first run; keeps the config written before profiles existed (companies/default/...)
+const DEFAULT_PROFILE = { id: 'default', name: 'Default Company', realmId: null };
+
+const readProfiles = () => {
+    const stored = configStore.readJson(PROFILES_FILE);
+    if (!stored || !Array.isArray(stored.profiles) || stored.profiles.length === 0) {
+        return { activeId: DEFAULT_PROFILE.id, profiles: [{ ...DEFAULT_PROFILE }] };
+    }
+    const activeId = stored.profiles.some(p => p.id === stored.activeId) ? stored.activeId : stored.profiles[0].id;
+    return { activeId, profiles: stored.profiles };
+};
+
+const writeProfiles = (data) => {
+    configStore.writeJson(PROFILES_FILE, data);
+    return data;
+};
+
+const listProfiles = () => readProfiles();
+
+const getProfile = (id) => readProfiles().profiles.find(p => p.id === id) || null;
+
+const getActiveProfile = () => {
+    const { activeId, profiles } = readProfiles();
+    return profiles.find(p => p.id === activeId);
+};
+
+const createProfile = (name) => {
+    const cleanName = String(name || '').trim();
+    if (!cleanName) throw new Error('Company name is required.');
+
+    const data = readProfiles();
+    if (data.profiles.some(p => p.name.toLowerCase() === cleanName.toLowerCase())) {
+        throw new Error(`A company named "${cleanName}" already exists.`);
+    }
+
+    const profile = { id: crypto.randomUUID(), name: cleanName, realmId: null };
+    data.profiles.push(profile);
+    writeProfiles(data);
+    return profile;
+};
+
+const setActiveProfile = (id) => {
+    const data = readProfiles();
+    if (!data.profiles.some(p => p.id === id)) throw new Error('Company profile not found.');
+    data.activeId = id;
+    return writeProfiles(data);
+};
+
+// A profile is bound to the first QBO realm it connects to
+const bindRealm = (id, realmId) => {
+    const data = readProfiles();
+    const profile = data.profiles.find(p => p.id === id);
+    if (!profile) throw new Error('Company profile not found.');
+
+    if (profile.realmId && profile.realmId !== realmId) {
+        throw new Error(`"${profile.name}" is linked to QuickBooks company ${profile.realmId}, but the login was for ${realmId}. Log in to the matching company instead.`);
+    }
+
+    profile.realmId = realmId;
+    writeProfiles(data);
+    return profile;
+};
+
+module.exports = {
+    listProfiles,
+    getProfile,
+    getActiveProfile,
+    createProfile,
+    setActiveProfile,
+    bindRealm
+};
@@ -0,0 +1,48 @@
+const { app } = require('electron');
+const fs = require('fs');
+const path = require('path');
+
+// All persisted app state lives as JSON files under Electron's userData directory.
+const getBaseDir = () => app.getPath('userData');
+
+const resolvePath = (relPath) => {
+    const baseDir = getBaseDir();
+    const fullPath = path.resolve(baseDir, relPath);
+
+    // Never allow a caller to escape the userData directory
+    if (!fullPath.startsWith(baseDir + path.sep)) {
+        throw new Error(`Invalid config path "${relPath}"`);
+    }
+    return fullPath;
+};
+
+const readJson = (relPath, fallback = null) => {
+    const filePath = resolvePath(relPath);
+    if (!fs.existsSync(filePath)) return fallback;
+
+    try {
+        return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (e) {
+        console.error(`Config Read Error (${relPath}):`, e);
+        return fallback;
+    }
+};
+
+const writeJson = (relPath, data) => {
+    const filePath = resolvePath(relPath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+    // Write to a temp file first so a crash mid-write can't corrupt the config
+    const tmpPath = `${filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2), 'utf8');
+    fs.renameSync(tmpPath, filePath);
+};
+
+const getCompanyPath = (companyId, fileName) => path.join('companies', companyId, fileName);
+
+module.exports = {
+    resolvePath,
+    readJson,
+    writeJson,
+    getCompanyPath
+};
@@ -0,0 +1,39 @@
+const crypto = require('crypto');
+const configStore = require('./configStore.service.cjs');
+
+// Column mappings for CSV layouts the built-in parser doesn't recognize, keyed by header fingerprint
+const PROFILES_FILE = 'import-profiles.json';
+
+const listProfiles = () => configStore.readJson(PROFILES_FILE, []);
+
+// Saving a layout that already has a profile replaces it, so each fingerprint maps one way
+const saveProfile = (profile) => {
+    const name = String((profile && profile.name) || '').trim();
+    if (!name) throw new Error('Import profile name is required.');
+    if (!profile.fingerprint || !Array.isArray(profile.headers) || typeof profile.mapping !== 'object') {
+        throw new Error('Invalid import profile: expected a fingerprint, headers and a column mapping.');
+    }
+
+    const saved = {
+        id: crypto.randomUUID(),
+        name,
+        fingerprint: profile.fingerprint,
+        headers: profile.headers,
+        mapping: profile.mapping,
+        createdAt: new Date().toISOString()
+    };
+    const profiles = listProfiles().filter(p => p.fingerprint !== saved.fingerprint);
+    profiles.push(saved);
+    configStore.writeJson(PROFILES_FILE, profiles);
+    return saved;
+};
+
+const deleteProfile = (id) => {
+    configStore.writeJson(PROFILES_FILE, listProfiles().filter(p => p.id !== id));
+};
+
+module.exports = {
+    listProfiles,
+    saveProfile,
+    deleteProfile
+};
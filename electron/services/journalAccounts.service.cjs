@@ -0,0 +1,26 @@
+const configStore = require('./configStore.service.cjs');
+
+// QBO accounts for the daily payment journals built from the transaction report
+const JOURNAL_ACCOUNTS_FILE = 'journal-accounts.json';
+const ACCOUNT_FIELDS = ['sales', 'fees', 'refunds', 'clearing'];
+
+// Returns null when the company has never saved them, so the renderer uses its defaults
+const getAccounts = (companyId) => {
+    return configStore.readJson(configStore.getCompanyPath(companyId, JOURNAL_ACCOUNTS_FILE), null);
+};
+
+const saveAccounts = (companyId, accounts) => {
+    const missing = ACCOUNT_FIELDS.filter(field => !String((accounts && accounts[field]) || '').trim());
+    if (missing.length > 0) {
+        throw new Error(`Invalid journal accounts: missing ${missing.join(', ')}.`);
+    }
+    const saved = { updatedAt: new Date().toISOString() };
+    ACCOUNT_FIELDS.forEach(field => { saved[field] = String(accounts[field]).trim(); });
+    configStore.writeJson(configStore.getCompanyPath(companyId, JOURNAL_ACCOUNTS_FILE), saved);
+    return getAccounts(companyId);
+};
+
+module.exports = {
+    getAccounts,
+    saveAccounts
+};
@@ -1,48 +1,82 @@
 const OAuthClient = require('intuit-oauth');
+const { safeStorage } = require('electron');
+const fs = require('fs');
+const configStore = require('./configStore.service.cjs');
 
-let oauthClient = null;
+// Encrypted with the OS keychain via safeStorage; never written in plain text
+const TOKEN_FILE = 'qb-token.json';
+// Refresh this long before the access token expires (tokens last ~60 minutes)
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+const REFRESH_RETRY_MS = 60 * 1000;
+
+// QBO per-realm throttles: 500 requests/minute overall, 40 of them batch requests
+const RATE_LIMITS = { request: 500, batch: 40 };
+const RATE_WINDOW_MS = 60 * 1000;
+// Failures retried with exponential backoff. A throttled request was never processed, so it is always
+// safe to send again; after a server-side (5xx) or network failure the write may already have been
+// saved, so only reads and batch calls QBO deduplicates by requestid are retried.
+const THROTTLED_CODES = ['429', 'RATE_LIMIT_EXCEEDED'];
+const TRANSIENT_CODES = ['500', 'INTERNAL_SERVER_ERROR', '502', '503', '504', 'TIMEOUT_ERROR', 'NETWORK_ERROR'];
+const MAX_ATTEMPTS = 5;
+const BACKOFF_BASE_MS = 1000;
+
+// One OAuth session per company profile (companies are bound 1:1 to a realm):
+// { client, refreshTimer, refreshPromise, requestLog }
+const sessions = {};
 
 const initOAuth = () => {
   console.log('--- QB AUTH DEBUG ---');
   console.log('Environment:', process.env.QB_ENVIRONMENT);
   console.log('ID Starts With:', process.env.QB_CLIENT_ID ? process.env.QB_CLIENT_ID.substring(0, 5) : 'MISSING');
   console.log('Redirect URI:', process.env.QB_REDIRECT_URI);
-  
+
   if (!process.env.QB_CLIENT_ID || !process.env.QB_CLIENT_SECRET) {
     console.error('Missing QuickBooks Credentials in .env');
     return null;
   }
 
-  oauthClient = new OAuthClient({
+  return new OAuthClient({
     clientId: process.env.QB_CLIENT_ID.trim(),
     clientSecret: process.env.QB_CLIENT_SECRET.trim(),
     environment: (process.env.QB_ENVIRONMENT || 'sandbox').trim(),
     redirectUri: (process.env.QB_REDIRECT_URI || 'http://localhost:8080/callback').trim(),
   });
+};
 
-  return oauthClient;
+const getSession = (companyId) => {
+  if (!sessions[companyId]) {
+    const client = initOAuth();
+    if (!client) throw new Error('QuickBooks credentials are not configured.');
+    sessions[companyId] = { client, refreshTimer: null, refreshPromise: null, requestLog: { request: [], batch: [] } };
+  }
+  return sessions[companyId];
 };
 
-const getAuthUri = () => {
-  if (!oauthClient) initOAuth();
-  
-  return oauthClient.authorizeUri({
+// The company id travels through Intuit as the OAuth state so the callback lands in the right profile
+const getAuthUri = (companyId) => {
+  return getSession(companyId).client.authorizeUri({
     scope: [OAuthClient.scopes.Accounting, OAuthClient.scopes.OpenId],
-    state: 'intuit-test',
+    state: companyId,
   });
 };
 
 const exchangeAuthCode = async (url) => {
-  if (!oauthClient) initOAuth();
+  const companyId = new URL(url).searchParams.get('state');
+  if (!companyId || !sessions[companyId]) {
+    throw new Error('OAuth callback does not match a pending company login.');
+  }
+  const { client } = sessions[companyId];
 
   console.log('--- TOKEN EXCHANGE START ---');
   console.log('URL for Exchange:', url);
 
   try {
-    const authResponse = await oauthClient.createToken(url);
+    const authResponse = await client.createToken(url);
     const token = authResponse.getJson();
     console.log('--- TOKEN EXCHANGE SUCCESS ---');
-    return token;
+    persistToken(companyId);
+    scheduleRefresh(companyId);
+    return { companyId, token, realmId: client.getToken().realmId };
   } catch (e) {
     console.error('--- TOKEN EXCHANGE FAILED ---');
     console.error('Status:', e.authResponse ? e.authResponse.response.status : 'N/A');
@@ -52,29 +86,204 @@ const exchangeAuthCode = async (url) => {
   }
 };
 
-const getClient = () => {
-    if (!oauthClient) initOAuth();
-    return oauthClient;
+// --- TOKEN PERSISTENCE ---
+
+const getTokenPath = (companyId) => configStore.getCompanyPath(companyId, TOKEN_FILE);
+
+const persistToken = (companyId) => {
+    if (!safeStorage.isEncryptionAvailable()) {
+        console.warn('OS encryption unavailable; QuickBooks token will not survive a restart.');
+        return;
+    }
+    const { client } = sessions[companyId];
+    const encrypted = safeStorage.encryptString(JSON.stringify(client.getToken().getToken()));
+    configStore.writeJson(getTokenPath(companyId), { token: encrypted.toString('base64') });
+};
+
+const clearPersistedToken = (companyId) => {
+    const filePath = configStore.resolvePath(getTokenPath(companyId));
+    if (fs.existsSync(filePath)) fs.unlinkSync(filePath);
+};
+
+// Loads a company's saved token at startup; returns true when a usable session was restored
+const restoreToken = (companyId) => {
+    const saved = configStore.readJson(getTokenPath(companyId));
+    if (!saved || !saved.token) return false;
+
+    const { client } = getSession(companyId);
+
+    try {
+        const json = safeStorage.decryptString(Buffer.from(saved.token, 'base64'));
+        client.setToken(JSON.parse(json));
+    } catch (e) {
+        console.error(`Failed to decrypt saved QuickBooks token for "${companyId}":`, e);
+        clearPersistedToken(companyId);
+        return false;
+    }
+
+    if (!client.getToken().isRefreshTokenValid()) {
+        console.log(`Saved QuickBooks refresh token for "${companyId}" has expired; a new login is required.`);
+        client.getToken().clearToken();
+        clearPersistedToken(companyId);
+        return false;
+    }
+
+    scheduleRefresh(companyId);
+    return true;
+};
+
+// Single in-flight refresh shared by the timer and API calls (refresh tokens rotate)
+const refreshToken = (companyId) => {
+    const session = sessions[companyId];
+    if (!session.refreshPromise) {
+        console.log(`Refreshing Token (${companyId})...`);
+        session.refreshPromise = session.client.refresh()
+            .then(() => {
+                persistToken(companyId);
+                scheduleRefresh(companyId);
+            })
+            .finally(() => {
+                session.refreshPromise = null;
+            });
+    }
+    return session.refreshPromise;
+};
+
+const scheduleRefresh = (companyId) => {
+    const session = sessions[companyId];
+    if (!session) return;
+    if (session.refreshTimer) clearTimeout(session.refreshTimer);
+    session.refreshTimer = null;
+
+    const token = session.client.getToken();
+    if (!token.refresh_token) return;
+
+    const delay = Math.max(0, getExpiry(token, token.expires_in) - REFRESH_MARGIN_MS - Date.now());
+    session.refreshTimer = setTimeout(() => {
+        refreshToken(companyId).catch(e => {
+            console.error(`Proactive token refresh failed (${companyId}):`, e);
+            if (session.client.getToken().isRefreshTokenValid()) {
+                session.refreshTimer = setTimeout(() => scheduleRefresh(companyId), REFRESH_RETRY_MS);
+            }
+        });
+    }, delay);
+    // Don't keep the process alive just for the refresh timer
+    if (session.refreshTimer.unref) session.refreshTimer.unref();
+};
+
+const getExpiry = (token, seconds) => token.createdAt + seconds * 1000;
+
+const getStatus = (companyId) => {
+    const session = sessions[companyId];
+    const token = session && session.client.getToken();
+    if (!token || !token.refresh_token) {
+        return { isConnected: false, realmId: null, accessTokenExpiresAt: null, refreshTokenExpiresAt: null };
+    }
+    return {
+        isConnected: token.isRefreshTokenValid(),
+        realmId: token.realmId || null,
+        accessTokenExpiresAt: new Date(getExpiry(token, token.expires_in)).toISOString(),
+        refreshTokenExpiresAt: new Date(getExpiry(token, token.x_refresh_token_expires_in)).toISOString()
+    };
+};
+
+// Revokes the token with Intuit and forgets it locally, even if the revoke call fails
+const disconnect = async (companyId) => {
+    const session = sessions[companyId];
+    let revokeError = null;
+
+    if (session) {
+        if (session.refreshTimer) clearTimeout(session.refreshTimer);
+        session.refreshTimer = null;
+
+        const { client } = session;
+        if (client.getToken().refresh_token) {
+            try {
+                await client.revoke({ refresh_token: client.getToken().refresh_token });
+            } catch (e) {
+                console.error('Token revoke failed:', e);
+                revokeError = e.message || 'Revoke request failed';
+            }
+            client.getToken().clearToken();
+        }
+        delete sessions[companyId];
+    }
+
+    clearPersistedToken(companyId);
+    return { revoked: !revokeError, revokeError };
+};
+
+const getClient = (companyId) => getSession(companyId).client;
+
+const getRealmId = (companyId) => {
+    const session = sessions[companyId];
+    if (!session) return null;
+    return session.client.getToken().realmId;
 }
 
-const getRealmId = () => {
-    if (!oauthClient) return null;
-    return oauthClient.getToken().realmId;
+const isTokenValid = (companyId) => {
+    const session = sessions[companyId];
+    if (!session) return false;
+    return session.client.isAccessTokenValid();
 }
 
-const isTokenValid = () => {
-    if (!oauthClient) return false;
-    return oauthClient.isAccessTokenValid();
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Waits until the realm has room in the sliding one-minute window, then claims a slot
+const waitForRateLimit = async (session, bucket) => {
+    const buckets = bucket === 'batch' ? ['request', 'batch'] : ['request'];
+
+    for (;;) {
+        const now = Date.now();
+        let waitMs = 0;
+        buckets.forEach(name => {
+            const log = session.requestLog[name];
+            while (log.length > 0 && now - log[0] >= RATE_WINDOW_MS) log.shift();
+            if (log.length >= RATE_LIMITS[name]) waitMs = Math.max(waitMs, RATE_WINDOW_MS - (now - log[0]));
+        });
+
+        if (waitMs === 0) {
+            buckets.forEach(name => session.requestLog[name].push(now));
+            return;
+        }
+        console.log(`QBO rate limit reached, waiting ${waitMs}ms...`);
+        await sleep(waitMs);
+    }
+};
+
+const isRetryable = (error, url, method) => {
+    const code = String(error.code);
+    if (THROTTLED_CODES.includes(code)) return true;
+    const isIdempotent = method === 'GET' || /[?&]requestid=/.test(url);
+    return isIdempotent && TRANSIENT_CODES.includes(code);
+};
+
+const makeRequest = async (companyId, url, method = 'GET', body = null) => {
+    const bucket = /\/batch(\?|$)/.test(url) ? 'batch' : 'request';
+
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await sendRequest(companyId, url, method, body, bucket);
+        } catch (e) {
+            if (!isRetryable(e, url, method) || attempt >= MAX_ATTEMPTS) throw e;
+
+            const delay = BACKOFF_BASE_MS * 2 ** (attempt - 1) + Math.floor(Math.random() * BACKOFF_BASE_MS);
+            console.warn(`QBO request failed (${e.code}), retry ${attempt}/${MAX_ATTEMPTS - 1} in ${delay}ms`);
+            await sleep(delay);
+        }
+    }
 }
 
-const makeRequest = async (url, method = 'GET', body = null) => {
-    if (!oauthClient) throw new Error('Not authenticated with QuickBooks');
-    
-    if (!oauthClient.isAccessTokenValid()) {
-        console.log('Refreshing Token...');
-        await oauthClient.refresh();
+const sendRequest = async (companyId, url, method, body, bucket) => {
+    const session = sessions[companyId];
+    if (!session || !session.client.getToken().refresh_token) throw new Error('Not authenticated with QuickBooks');
+
+    if (!session.client.isAccessTokenValid()) {
+        await refreshToken(companyId);
     }
 
+    await waitForRateLimit(session, bucket);
+
     const requestObj = {
         url,
         method,
@@ -87,9 +296,11 @@ const makeRequest = async (url, method = 'GET', body = null) => {
     if (body) {
         requestObj.body = JSON.stringify(body);
     }
+    // Retries are handled above so they can honor the rate limit
+    requestObj.maxRetries = 1;
 
     try {
-        const response = await oauthClient.makeApiCall(requestObj);
+        const response = await session.client.makeApiCall(requestObj);
         // The API response object has a 'json' property, not a 'getJson()' method
         return response.json || JSON.parse(response.body);
     } catch (e) {
@@ -105,5 +316,8 @@ module.exports = {
   getClient,
   getRealmId,
   isTokenValid,
+  getStatus,
+  restoreToken,
+  disconnect,
   makeRequest
 };
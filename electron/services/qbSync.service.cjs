@@ -1,32 +1,66 @@
+const crypto = require('crypto');
 const qbAuth = require('./qbAuth.service.cjs');
+const syncCheckpoint = require('./syncCheckpoint.service.cjs');
 
+// Entities that carry a DocNumber we can match duplicates on (Deposits have none)
+const DUPLICATE_CHECK_ENTITIES = ['JournalEntry', 'Bill', 'SalesReceipt'];
+const DUPLICATE_QUERY_CHUNK = 50;
+// Maximum operations QBO accepts in one /batch request
+const BATCH_SIZE = 30;
+// Upper bound on the receipt combinations tried when matching a deposit
+const RECEIPT_MATCH_STEPS = 200000;
+// Prefixes for per-document error messages
+const ENTITY_LABELS = { JournalEntry: 'Journal', Bill: 'Bill', SalesReceipt: 'Sales Receipt', Deposit: 'Deposit' };
+
+// Each company profile gets its own service so lookup caches never mix realms
 class QBSyncService {
-    constructor() {
+    constructor(companyId) {
+        this.companyId = companyId;
         this.accountMap = {}; // Name -> Id
         this.vendorMap = {};  // Name -> Id
+        this.customerMap = {}; // Name -> Id
+        this.itemMap = {};    // Name -> Id
+        this.itemIncomeMap = {}; // Income Account Id -> Item Id
+        this.undepositedFundsIds = new Set(); // Account Ids with the UndepositedFunds subtype
+        this.resolutions = { vendors: {}, accounts: {} }; // Saved choices for names missing in QBO
+    }
+
+    setResolutions(resolutions) {
+        this.resolutions = {
+            vendors: (resolutions && resolutions.vendors) || {},
+            accounts: (resolutions && resolutions.accounts) || {}
+        };
     }
 
     async refreshMappings() {
-        const realmId = qbAuth.getRealmId();
-        const baseUrl = qbAuth.getClient().environment === 'sandbox' 
-            ? 'https://sandbox-quickbooks.api.intuit.com' 
-            : 'https://quickbooks.api.intuit.com';
+        this.accountMap = {};
+        this.vendorMap = {};
+        this.customerMap = {};
+        this.itemMap = {};
+        this.itemIncomeMap = {};
+        this.undepositedFundsIds = new Set();
+
+        const realmId = qbAuth.getRealmId(this.companyId);
+        const baseUrl = this.getBaseUrl();
 
         // 1. Fetch Accounts
         const accQuery = "SELECT * FROM Account MAXRESULTS 1000";
         const accUrl = `${baseUrl}/v3/company/${realmId}/query?query=${encodeURIComponent(accQuery)}`;
-        const accData = await qbAuth.makeRequest(accUrl);
+        const accData = await qbAuth.makeRequest(this.companyId, accUrl);
         
         if (accData.QueryResponse && accData.QueryResponse.Account) {
             accData.QueryResponse.Account.forEach(acc => {
                 this.accountMap[acc.Name.trim()] = acc.Id;
+                if (acc.AccountSubType === 'UndepositedFunds') {
+                    this.undepositedFundsIds.add(acc.Id);
+                }
             });
         }
 
         // 2. Fetch Vendors
         const venQuery = "SELECT * FROM Vendor MAXRESULTS 1000";
         const venUrl = `${baseUrl}/v3/company/${realmId}/query?query=${encodeURIComponent(venQuery)}`;
-        const venData = await qbAuth.makeRequest(venUrl);
+        const venData = await qbAuth.makeRequest(this.companyId, venUrl);
         
         if (venData.QueryResponse && venData.QueryResponse.Vendor) {
             venData.QueryResponse.Vendor.forEach(ven => {
@@ -34,123 +68,678 @@ class QBSyncService {
             });
         }
 
+        // 3. Fetch Customers (Sales Receipts)
+        const custQuery = "SELECT * FROM Customer MAXRESULTS 1000";
+        const custUrl = `${baseUrl}/v3/company/${realmId}/query?query=${encodeURIComponent(custQuery)}`;
+        const custData = await qbAuth.makeRequest(this.companyId, custUrl);
+
+        if (custData.QueryResponse && custData.QueryResponse.Customer) {
+            custData.QueryResponse.Customer.forEach(cust => {
+                this.customerMap[cust.DisplayName.trim()] = cust.Id;
+            });
+        }
+
+        // 4. Fetch Products/Services (Sales Receipt lines need an ItemRef)
+        const itemQuery = "SELECT * FROM Item MAXRESULTS 1000";
+        const itemUrl = `${baseUrl}/v3/company/${realmId}/query?query=${encodeURIComponent(itemQuery)}`;
+        const itemData = await qbAuth.makeRequest(this.companyId, itemUrl);
+
+        if (itemData.QueryResponse && itemData.QueryResponse.Item) {
+            itemData.QueryResponse.Item.forEach(item => {
+                this.itemMap[item.Name.trim()] = item.Id;
+                if (item.IncomeAccountRef && !this.itemIncomeMap[item.IncomeAccountRef.value]) {
+                    this.itemIncomeMap[item.IncomeAccountRef.value] = item.Id;
+                }
+            });
+        }
+
         return { 
             accounts: Object.keys(this.accountMap).length, 
-            vendors: Object.keys(this.vendorMap).length 
+            vendors: Object.keys(this.vendorMap).length,
+            customers: Object.keys(this.customerMap).length,
+            items: Object.keys(this.itemMap).length
         };
     }
 
-    async syncJournalEntries(entries) {
-        const realmId = qbAuth.getRealmId();
-        const baseUrl = this.getBaseUrl();
-        const url = `${baseUrl}/v3/company/${realmId}/journalentry`;
+    // --- MISSING REFERENCES ---
 
-        // Group by JournalNo
-        const groups = {};
-        entries.forEach(e => {
-            if (!groups[e.JournalNo]) groups[e.JournalNo] = [];
-            groups[e.JournalNo].push(e);
+    // Every vendor/account name in the batch that QBO doesn't know (after saved mappings),
+    // with the documents that depend on it and the choice made for it last time
+    async findMissingReferences(mode, entries) {
+        await this.refreshMappings();
+
+        const missing = { vendors: {}, accounts: {} };
+        const addMissing = (kind, name, docKey) => {
+            const cleanName = (name || '').trim();
+            if (!cleanName) return;
+            if (!missing[kind][cleanName]) {
+                missing[kind][cleanName] = { name: cleanName, documents: [], saved: this.resolutions[kind][cleanName] || null };
+            }
+            if (!missing[kind][cleanName].documents.includes(docKey)) missing[kind][cleanName].documents.push(docKey);
+        };
+
+        Object.values(this.groupDocuments(mode, entries)).forEach(({ ref, rows }) => {
+            if (ref.vendorName && !this.findVendorId(ref.vendorName)) addMissing('vendors', ref.vendorName, ref.key);
+
+            rows.forEach(row => {
+                // Receipt lines only need the account when no product/service matches the item name
+                const needsAccount = ref.entity !== 'SalesReceipt' || !this.findItemId(row.Item, null);
+                [needsAccount ? row.Account : null, row.DepositTo].forEach(name => {
+                    if (name && !this.findAccountId(name)) addMissing('accounts', name, ref.key);
+                });
+            });
         });
 
-        const results = { success: 0, failed: 0, errors: [] };
+        return {
+            vendors: Object.values(missing.vendors),
+            accounts: Object.values(missing.accounts),
+            existing: {
+                vendors: Object.keys(this.vendorMap).sort().map(name => ({ id: this.vendorMap[name], name })),
+                accounts: Object.keys(this.accountMap).sort().map(name => ({ id: this.accountMap[name], name }))
+            }
+        };
+    }
 
-        for (const [journalNo, rows] of Object.entries(groups)) {
-            try {
-                const payload = {
-                    DocNumber: journalNo,
-                    TxnDate: this.formatDate(rows[0].JournalDate),
-                    Line: rows.map(row => {
-                        const amount = parseFloat(row.Debit || row.Credit);
-                        const accountId = this.findAccountId(row.Account);
-                        
-                        if (!accountId) throw new Error(`Account "${row.Account}" not found in QuickBooks.`);
-
-                        return {
-                            Description: row.Description,
-                            Amount: amount,
-                            DetailType: "JournalEntryLineDetail",
-                            JournalEntryLineDetail: {
-                                PostingType: row.Debit !== "0" && row.Debit !== "" ? "Debit" : "Credit",
-                                AccountRef: { value: accountId }
-                            }
-                        };
-                    })
-                };
+    // Creates the vendors/accounts the user chose to create: [{ kind, name, accountType }]
+    async createReferences(items) {
+        const realmId = qbAuth.getRealmId(this.companyId);
+        const baseUrl = this.getBaseUrl();
+        const results = { created: 0, failed: 0, errors: [] };
 
-                await qbAuth.makeRequest(url, 'POST', payload);
-                results.success++;
+        for (const item of items) {
+            try {
+                if (item.kind === 'vendors') {
+                    const response = await qbAuth.makeRequest(this.companyId, `${baseUrl}/v3/company/${realmId}/vendor`, 'POST', {
+                        DisplayName: item.name
+                    });
+                    this.vendorMap[response.Vendor.DisplayName.trim()] = response.Vendor.Id;
+                } else {
+                    if (!item.accountType) throw new Error('An account type is required.');
+                    const response = await qbAuth.makeRequest(this.companyId, `${baseUrl}/v3/company/${realmId}/account`, 'POST', {
+                        Name: item.name,
+                        AccountType: item.accountType
+                    });
+                    this.accountMap[response.Account.Name.trim()] = response.Account.Id;
+                }
+                results.created++;
             } catch (err) {
                 results.failed++;
-                results.errors.push(`Journal ${journalNo}: ${err.message}`);
+                results.errors.push(`${item.kind === 'vendors' ? 'Vendor' : 'Account'} "${item.name}": ${err.message}`);
+            }
+        }
+
+        return results;
+    }
+
+    // Skip decisions for documents that use a name the user chose to skip
+    getReferenceSkips(mode, entries) {
+        const skips = {};
+        Object.values(this.groupDocuments(mode, entries)).forEach(({ ref, rows }) => {
+            const isSkipped = (kind, name) => {
+                const resolution = name && this.resolutions[kind][name.trim()];
+                return resolution && resolution.action === 'skip' && !(kind === 'vendors' ? this.vendorMap : this.accountMap)[name.trim()];
+            };
+
+            if (isSkipped('vendors', ref.vendorName) || rows.some(row => isSkipped('accounts', row.Account) || isSkipped('accounts', row.DepositTo))) {
+                skips[ref.key] = { action: 'skip' };
+            }
+        });
+        return skips;
+    }
+
+    // --- DUPLICATE DETECTION ---
+
+    // Looks up every document of the batch in QBO by DocNumber (and vendor, for bills)
+    async checkDuplicates(mode, entries) {
+        const realmId = qbAuth.getRealmId(this.companyId);
+        const baseUrl = this.getBaseUrl();
+
+        const docs = Object.values(this.groupDocuments(mode, entries)).map(({ ref, rows }) => ({
+            ...ref,
+            amount: this.getDocumentTotal(ref.entity, rows)
+        }));
+
+        // Entity -> DocNumber -> existing QBO records
+        const existing = {};
+
+        for (const entity of DUPLICATE_CHECK_ENTITIES) {
+            existing[entity] = {};
+            const numbers = [...new Set(docs.filter(d => d.entity === entity && d.docNumber).map(d => d.docNumber))];
+
+            for (let i = 0; i < numbers.length; i += DUPLICATE_QUERY_CHUNK) {
+                const inList = numbers.slice(i, i + DUPLICATE_QUERY_CHUNK).map(n => `'${this.escapeQuery(n)}'`).join(', ');
+                const query = `SELECT * FROM ${entity} WHERE DocNumber IN (${inList}) MAXRESULTS 1000`;
+                const data = await qbAuth.makeRequest(this.companyId, `${baseUrl}/v3/company/${realmId}/query?query=${encodeURIComponent(query)}`);
+
+                if (data.QueryResponse && data.QueryResponse[entity]) {
+                    data.QueryResponse[entity].forEach(record => {
+                        if (!existing[entity][record.DocNumber]) existing[entity][record.DocNumber] = [];
+                        existing[entity][record.DocNumber].push(record);
+                    });
+                }
+            }
+        }
+
+        return docs.map(doc => {
+            let matches = (existing[doc.entity] && existing[doc.entity][doc.docNumber]) || [];
+
+            if (doc.entity === 'Bill') {
+                const vendorId = this.findVendorId(doc.vendorName);
+                matches = matches.filter(m => m.VendorRef && (
+                    m.VendorRef.value === vendorId || (m.VendorRef.name || '').trim() === doc.vendorName
+                ));
+            }
+
+            if (matches.length === 0) return { ...doc, status: 'new' };
+
+            const sameAmount = matches.find(m => Math.round(m.TotalAmt * 100) === Math.round(doc.amount * 100));
+            const match = sameAmount || matches[0];
+
+            return {
+                ...doc,
+                status: sameAmount ? 'exists' : 'conflict',
+                existingId: match.Id,
+                syncToken: match.SyncToken,
+                existingAmount: match.TotalAmt
+            };
+        });
+    }
+
+    // --- SYNC ---
+    // `decisions` maps a document key to { action: 'create' | 'update' | 'skip', existingId, syncToken }.
+    // Documents without a decision are created. `onProgress` receives counts after every step.
+    // Documents go to QBO through the batch endpoint; progress is checkpointed after every batch
+    // so re-running the same batch after an interruption only posts what is left.
+
+    // `source` ({ fileName, fileHash }) is kept in the checkpoint for logging an interrupted run.
+
+    async syncJournalEntries(entries, decisions = {}, onProgress, source) {
+        return this.runBatchSync('GL', entries, decisions, onProgress, source);
+    }
+
+    async syncBills(entries, decisions = {}, onProgress, source) {
+        return this.runBatchSync('AP', entries, decisions, onProgress, source);
+    }
+
+    // Sales Receipts are posted first so Deposits from Undeposited Funds can link to them
+    async syncSales(entries, decisions = {}, onProgress, source) {
+        return this.runBatchSync('SALES', entries, decisions, onProgress, source);
+    }
+
+    async runBatchSync(mode, entries, decisions, onProgress, source) {
+        const groups = Object.values(this.groupDocuments(mode, entries));
+        const checkpoint = syncCheckpoint.begin(this.companyId, mode, entries, source);
+        const results = this.createResults();
+        let processed = 0;
+
+        const report = () => {
+            if (!onProgress) return;
+            onProgress({
+                total: groups.length,
+                processed,
+                success: results.success,
+                updated: results.updated,
+                skipped: results.skipped,
+                failed: results.failed,
+                resumed: checkpoint.resumed
+            });
+        };
+
+        // Only links made by deposits that actually posted survive an interruption
+        checkpoint.receipts.forEach(receipt => { receipt.linked = !!receipt.linkedBy; });
+
+        // Documents already posted by an interrupted attempt of this same batch. They count toward
+        // this run, but ones the interrupted run already logged stay listed (and undoable) there.
+        const pending = groups.filter(({ ref }) => {
+            const done = checkpoint.completed[ref.key];
+            if (!done) return true;
+            this.countSuccess(results, done.action);
+            if (!checkpoint.recordedKeys.includes(ref.key)) results.documents.push(done);
+            processed++;
+            return false;
+        });
+        report();
+
+        const phases = mode === 'SALES'
+            ? [pending.filter(g => g.ref.entity === 'SalesReceipt'), pending.filter(g => g.ref.entity === 'Deposit')]
+            : [pending];
+
+        for (const phase of phases) {
+            const operations = [];
+            phase.forEach(({ ref, rows }) => {
+                const decision = decisions[ref.key];
+                if (decision && decision.action === 'skip') {
+                    results.skipped++;
+                    processed++;
+                    return;
+                }
+
+                try {
+                    const payload = this.buildPayload(ref, rows, checkpoint.receipts);
+                    if (decision && decision.action === 'update') {
+                        Object.assign(payload, { Id: decision.existingId, SyncToken: decision.syncToken, sparse: true });
+                    }
+                    operations.push({ ref, decision, payload });
+                } catch (err) {
+                    this.recordFailure(results, ref, err.message);
+                    processed++;
+                }
+            });
+            report();
+
+            for (const { chunk, requestId } of this.chunkOperations(operations, checkpoint.inFlight)) {
+                // Saved before posting: if we never hear back, the resumed run replays this exact request
+                checkpoint.inFlight = { requestId, keys: chunk.map(op => op.ref.key) };
+                syncCheckpoint.save(this.companyId, checkpoint);
+
+                // Throws once retries are exhausted; the checkpoint keeps everything posted so far
+                const responses = await this.postBatch(chunk, requestId);
+
+                chunk.forEach((op, index) => {
+                    const response = responses[index];
+                    const record = response && response[op.ref.entity];
+
+                    const linkedReceipts = (op.payload.Line || [])
+                        .filter(line => line.LinkedTxn)
+                        .map(line => checkpoint.receipts.find(r => r.id === line.LinkedTxn[0].TxnId))
+                        .filter(Boolean);
+
+                    if (record) {
+                        const doc = this.recordSuccess(results, op.ref, op.decision, response);
+                        checkpoint.completed[op.ref.key] = doc;
+                        linkedReceipts.forEach(receipt => { receipt.linkedBy = op.ref.key; });
+                        if (op.ref.entity === 'SalesReceipt' && this.undepositedFundsIds.has(op.payload.DepositToAccountRef.value)) {
+                            checkpoint.receipts.push({ id: record.Id, date: op.payload.TxnDate, amount: record.TotalAmt, linked: false, linkedBy: null });
+                        }
+                    } else {
+                        // The receipts a failed deposit would have used are free for the next attempt
+                        linkedReceipts.forEach(receipt => { receipt.linked = false; });
+                        this.recordFailure(results, op.ref, this.getFaultMessage(response));
+                    }
+                    processed++;
+                });
+
+                checkpoint.inFlight = null;
+                syncCheckpoint.save(this.companyId, checkpoint);
+                report();
             }
         }
 
+        syncCheckpoint.clear(this.companyId);
         return results;
     }
 
-    async syncBills(entries) {
-        const realmId = qbAuth.getRealmId();
+    // Splits operations into batch requests. A request that was in flight when the last attempt
+    // died goes first with its original requestid, so QBO answers it from its cache instead of
+    // posting the documents twice.
+    chunkOperations(operations, inFlight) {
+        const chunks = [];
+        let remaining = operations;
+
+        if (inFlight) {
+            const replay = inFlight.keys.map(key => operations.find(op => op.ref.key === key));
+            if (replay.every(Boolean)) {
+                chunks.push({ chunk: replay, requestId: inFlight.requestId });
+                remaining = operations.filter(op => !inFlight.keys.includes(op.ref.key));
+            }
+        }
+
+        for (let i = 0; i < remaining.length; i += BATCH_SIZE) {
+            chunks.push({ chunk: remaining.slice(i, i + BATCH_SIZE), requestId: crypto.randomUUID() });
+        }
+        return chunks;
+    }
+
+    // Posts up to BATCH_SIZE operations in one call; returns the BatchItemResponse of each, in order.
+    // Retries of the same call reuse its requestid, which makes them idempotent on QBO's side.
+    async postBatch(operations, requestId) {
+        const realmId = qbAuth.getRealmId(this.companyId);
         const baseUrl = this.getBaseUrl();
-        const url = `${baseUrl}/v3/company/${realmId}/bill`;
 
-        // Group by BillNo
+        const body = {
+            BatchItemRequest: operations.map((op, index) => ({
+                bId: String(index),
+                operation: op.decision && op.decision.action === 'update' ? 'update' : 'create',
+                [op.ref.entity]: op.payload
+            }))
+        };
+
+        const data = await qbAuth.makeRequest(this.companyId, `${baseUrl}/v3/company/${realmId}/batch?requestid=${requestId}`, 'POST', body);
+
+        const byId = {};
+        (data.BatchItemResponse || []).forEach(item => { byId[item.bId] = item; });
+        return operations.map((op, index) => byId[String(index)] || null);
+    }
+
+    getFaultMessage(response) {
+        const error = response && response.Fault && response.Fault.Error && response.Fault.Error[0];
+        if (!error) return 'No response from QuickBooks for this document.';
+        return error.Detail ? `${error.Message}: ${error.Detail}` : error.Message;
+    }
+
+    buildPayload(ref, rows, receipts) {
+        switch (ref.entity) {
+            case 'Bill': return this.buildBill(ref, rows);
+            case 'SalesReceipt': return this.buildSalesReceipt(ref, rows);
+            case 'Deposit': return this.buildDeposit(ref, rows, receipts);
+            default: return this.buildJournalEntry(ref, rows);
+        }
+    }
+
+    buildJournalEntry(ref, rows) {
+        return {
+            DocNumber: ref.docNumber,
+            TxnDate: this.formatDate(rows[0].JournalDate),
+            Line: rows.map(row => {
+                const amount = parseFloat(row.Debit || row.Credit);
+                const accountId = this.findAccountId(row.Account);
+                
+                if (!accountId) throw new Error(`Account "${row.Account}" not found in QuickBooks.`);
+
+                return {
+                    Description: row.Description,
+                    Amount: amount,
+                    DetailType: "JournalEntryLineDetail",
+                    JournalEntryLineDetail: {
+                        PostingType: row.Debit !== "0" && row.Debit !== "" ? "Debit" : "Credit",
+                        AccountRef: { value: accountId }
+                    }
+                };
+            })
+        };
+    }
+
+    buildBill(ref, rows) {
+        const supplierName = rows[0].Supplier;
+        const vendorId = this.findVendorId(supplierName);
+        
+        if (!vendorId) throw new Error(`Vendor "${supplierName}" not found in QuickBooks.`);
+
+        return {
+            DocNumber: ref.docNumber,
+            TxnDate: this.formatDate(rows[0].JournalDate),
+            DueDate: this.formatDate(rows[0].DueDate),
+            VendorRef: { value: vendorId },
+            Line: rows.map(row => {
+                const accountId = this.findAccountId(row.Account);
+                if (!accountId) throw new Error(`Account "${row.Account}" not found in QuickBooks.`);
+
+                return {
+                    Description: row.Description,
+                    Amount: parseFloat(row.LineAmount),
+                    DetailType: "AccountBasedExpenseLineDetail",
+                    AccountBasedExpenseLineDetail: {
+                        AccountRef: { value: accountId }
+                    }
+                };
+            })
+        };
+    }
+
+    buildSalesReceipt(ref, rows) {
+        const depositToId = this.findAccountId(rows[0].DepositTo);
+        if (!depositToId) throw new Error(`Deposit account "${rows[0].DepositTo}" not found in QuickBooks.`);
+
+        const payload = {
+            DocNumber: ref.docNumber,
+            TxnDate: this.formatDate(rows[0].JournalDate),
+            DepositToAccountRef: { value: depositToId },
+            Line: rows.map(row => {
+                const accountId = this.findAccountId(row.Account);
+                const itemId = this.findItemId(row.Item, accountId);
+                if (!itemId) throw new Error(`No product/service found for "${row.Item || row.Account}" in QuickBooks.`);
+
+                return {
+                    Description: row.Description,
+                    Amount: parseFloat(row.LineAmount),
+                    DetailType: "SalesItemLineDetail",
+                    SalesItemLineDetail: {
+                        ItemRef: { value: itemId }
+                    }
+                };
+            })
+        };
+
+        const customerId = rows[0].Name ? this.customerMap[rows[0].Name.trim()] : null;
+        if (customerId) payload.CustomerRef = { value: customerId };
+
+        return payload;
+    }
+
+    buildDeposit(ref, rows, receipts) {
+        const depositToId = this.findAccountId(rows[0].DepositTo);
+        if (!depositToId) throw new Error(`Deposit account "${rows[0].DepositTo}" not found in QuickBooks.`);
+
+        const txnDate = this.formatDate(rows[0].JournalDate);
+        const lines = [];
+
+        rows.forEach(row => {
+            const accountId = this.findAccountId(row.Account);
+            if (!accountId) throw new Error(`Account "${row.Account}" not found in QuickBooks.`);
+            const amount = parseFloat(row.LineAmount);
+
+            // Money leaving Undeposited Funds must be linked to the receipts that put it there
+            if (this.undepositedFundsIds.has(accountId)) {
+                lines.push(...this.linkUndepositedReceipts(receipts, amount, txnDate));
+                return;
+            }
+
+            // Clearing accounts (e.g. WEB CC) are plain account lines
+            lines.push({
+                Description: row.Description,
+                Amount: amount,
+                DetailType: "DepositLineDetail",
+                DepositLineDetail: {
+                    AccountRef: { value: accountId }
+                }
+            });
+        });
+
+        // Deposits have no DocNumber in QBO, so the IIF number goes in the memo
+        return {
+            PrivateNote: `Deposit ${ref.docNumber}`,
+            TxnDate: txnDate,
+            DepositToAccountRef: { value: depositToId },
+            Line: lines
+        };
+    }
+
+    // Links the unlinked receipts that make up a deposit: the deposit day's own receipts when they
+    // add up to it, otherwise an exact set of receipts dated on/before it (oldest preferred)
+    linkUndepositedReceipts(receipts, amount, txnDate) {
+        const targetCents = Math.round(amount * 100);
+        const candidates = receipts
+            .filter(r => !r.linked && r.date <= txnDate)
+            .sort((a, b) => a.date.localeCompare(b.date));
+        const centsOf = receipt => Math.round(receipt.amount * 100);
+
+        const sameDay = candidates.filter(r => r.date === txnDate);
+        const sameDayCents = sameDay.reduce((sum, r) => sum + centsOf(r), 0);
+        const picked = sameDay.length > 0 && sameDayCents === targetCents
+            ? sameDay
+            : this.findReceiptSubset(candidates, targetCents);
+
+        if (!picked) {
+            throw new Error(`Undeposited funds of ${amount.toFixed(2)} could not be matched to sales receipts in this batch.`);
+        }
+
+        return picked.map(receipt => {
+            receipt.linked = true;
+            return {
+                Amount: receipt.amount,
+                LinkedTxn: [{ TxnId: receipt.id, TxnType: "SalesReceipt", TxnLineId: "0" }]
+            };
+        });
+    }
+
+    // Depth-first search for receipts totalling exactly targetCents, trying older receipts first.
+    // Gives up (null) after RECEIPT_MATCH_STEPS steps rather than stalling on a large batch.
+    findReceiptSubset(candidates, targetCents) {
+        const cents = candidates.map(r => Math.round(r.amount * 100));
+        // Running totals can only be pruned when every receipt adds to them
+        const allPositive = cents.every(c => c > 0);
+        // remaining[i]: the most receipts i.. can still add
+        const remaining = new Array(cents.length + 1).fill(0);
+        for (let i = cents.length - 1; i >= 0; i--) remaining[i] = remaining[i + 1] + cents[i];
+
+        let steps = 0;
+        const picked = [];
+        const search = (start, total) => {
+            if (total === targetCents && picked.length > 0) return true;
+            for (let i = start; i < candidates.length; i++) {
+                if (++steps > RECEIPT_MATCH_STEPS) return false;
+                if (allPositive && (total + cents[i] > targetCents || total + remaining[i] < targetCents)) continue;
+                picked.push(i);
+                if (search(i + 1, total + cents[i])) return true;
+                picked.pop();
+            }
+            return false;
+        };
+
+        return search(0, 0) ? picked.map(i => candidates[i]) : null;
+    }
+
+    // --- DOCUMENT HELPERS ---
+
+    // Identifies the QBO document a converted row belongs to
+    getDocumentRef(mode, row) {
+        const entity = mode === 'AP' ? 'Bill' : mode === 'SALES' ? row.RecordType : 'JournalEntry';
+        const docNumber = (mode === 'AP' ? row.BillNo : row.JournalNo) || '';
+        const vendorName = mode === 'AP' ? (row.Supplier || '').trim() : '';
+        const key = vendorName ? `${entity}:${vendorName}:${docNumber}` : `${entity}:${docNumber}`;
+        return { key, entity, docNumber, vendorName };
+    }
+
+    groupDocuments(mode, entries) {
         const groups = {};
         entries.forEach(e => {
-            if (!groups[e.BillNo]) groups[e.BillNo] = [];
-            groups[e.BillNo].push(e);
+            const ref = this.getDocumentRef(mode, e);
+            if (!groups[ref.key]) groups[ref.key] = { ref, rows: [] };
+            groups[ref.key].rows.push(e);
         });
+        return groups;
+    }
+
+    // Same basis as QBO's TotalAmt: debits for journals, line amounts for everything else
+    getDocumentTotal(entity, rows) {
+        const cents = rows.reduce((sum, row) => {
+            const amount = entity === 'JournalEntry' ? parseFloat(row.Debit) : parseFloat(row.LineAmount);
+            return sum + (isNaN(amount) ? 0 : Math.round(amount * 100));
+        }, 0);
+        return cents / 100;
+    }
+
+    createResults() {
+        return { success: 0, updated: 0, skipped: 0, failed: 0, errors: [], documents: [] };
+    }
+
+    // Keeps the QBO Id/SyncToken of every posted document so the run can be logged and undone
+    recordSuccess(results, ref, decision, response) {
+        const action = decision && decision.action === 'update' ? 'update' : 'create';
+        this.countSuccess(results, action);
+
+        const record = response && response[ref.entity];
+        const doc = {
+            key: ref.key,
+            entity: ref.entity,
+            docNumber: ref.docNumber,
+            action,
+            id: record ? record.Id : null,
+            syncToken: record ? record.SyncToken : null
+        };
+        results.documents.push(doc);
+        return doc;
+    }
+
+    countSuccess(results, action) {
+        if (action === 'update') {
+            results.updated++;
+        } else {
+            results.success++;
+        }
+    }
+
+    recordFailure(results, ref, message) {
+        results.failed++;
+        results.errors.push(`${ENTITY_LABELS[ref.entity] || ref.entity} ${ref.docNumber}: ${message}`);
+    }
 
-        const results = { success: 0, failed: 0, errors: [] };
+    // --- UNDO ---
 
-        for (const [billNo, rows] of Object.entries(groups)) {
+    // Deletes documents created by a run, newest first (deposits before the receipts they link)
+    async deleteDocuments(documents) {
+        const realmId = qbAuth.getRealmId(this.companyId);
+        const baseUrl = this.getBaseUrl();
+        const results = { deleted: 0, failed: 0, errors: [], deletedKeys: [] };
+
+        for (const doc of [...documents].reverse()) {
+            const entityPath = doc.entity.toLowerCase();
             try {
-                const supplierName = rows[0].Supplier;
-                const vendorId = this.vendorMap[supplierName.trim()];
-                
-                if (!vendorId) throw new Error(`Vendor "${supplierName}" not found in QuickBooks.`);
-
-                const payload = {
-                    DocNumber: billNo,
-                    TxnDate: this.formatDate(rows[0].JournalDate),
-                    DueDate: this.formatDate(rows[0].DueDate),
-                    VendorRef: { value: vendorId },
-                    Line: rows.map(row => {
-                        const accountId = this.findAccountId(row.Account);
-                        if (!accountId) throw new Error(`Account "${row.Account}" not found in QuickBooks.`);
-
-                        return {
-                            Description: row.Description,
-                            Amount: parseFloat(row.LineAmount),
-                            DetailType: "AccountBasedExpenseLineDetail",
-                            AccountBasedExpenseLineDetail: {
-                                AccountRef: { value: accountId }
-                            }
-                        };
-                    })
-                };
+                // The SyncToken may have moved on since the run (e.g. a receipt linked by a deposit)
+                const current = await qbAuth.makeRequest(this.companyId, `${baseUrl}/v3/company/${realmId}/${entityPath}/${doc.id}`);
+                const syncToken = current[doc.entity] ? current[doc.entity].SyncToken : doc.syncToken;
 
-                await qbAuth.makeRequest(url, 'POST', payload);
-                results.success++;
+                await qbAuth.makeRequest(
+                    this.companyId,
+                    `${baseUrl}/v3/company/${realmId}/${entityPath}?operation=delete`,
+                    'POST',
+                    { Id: doc.id, SyncToken: syncToken }
+                );
+                results.deleted++;
+                results.deletedKeys.push(doc.key);
             } catch (err) {
                 results.failed++;
-                results.errors.push(`Bill ${billNo}: ${err.message}`);
+                results.errors.push(`${doc.entity} ${doc.docNumber}: ${err.message}`);
             }
         }
 
         return results;
     }
 
+    escapeQuery(value) {
+        return String(value).replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+    }
+
+    // Item by exact name first, otherwise the first item that posts to the line's income account
+    findItemId(itemName, accountId) {
+        if (itemName && this.itemMap[itemName.trim()]) return this.itemMap[itemName.trim()];
+        if (accountId && this.itemIncomeMap[accountId]) return this.itemIncomeMap[accountId];
+        return null;
+    }
+
+    // A saved 'map' resolution wins over matching by name, as long as its target still exists
+    getMappedId(kind, name) {
+        const resolution = this.resolutions[kind][name];
+        if (!resolution || resolution.action !== 'map') return null;
+        const known = Object.values(kind === 'vendors' ? this.vendorMap : this.accountMap);
+        return known.includes(resolution.targetId) ? resolution.targetId : null;
+    }
+
+    findVendorId(name) {
+        const cleanName = (name || '').trim();
+        return this.vendorMap[cleanName] || this.getMappedId('vendors', cleanName);
+    }
+
     // Helper to find account ID, handling the "0-115-0 INVENTORY" style matching
     findAccountId(name) {
         const cleanName = name.trim();
         // Exact match
         if (this.accountMap[cleanName]) return this.accountMap[cleanName];
+
+        const mappedId = this.getMappedId('accounts', cleanName);
+        if (mappedId) return mappedId;
         
         // Partial match (e.g. if IIF has "0-115-0" and QBO has "0-115-0 Inventory")
         const found = Object.keys(this.accountMap).find(k => k.startsWith(cleanName) || cleanName.startsWith(k));
         return found ? this.accountMap[found] : null;
     }
 
+    getBaseUrl() {
+        return qbAuth.getClient(this.companyId).environment === 'sandbox' 
+            ? 'https://sandbox-quickbooks.api.intuit.com' 
+            : 'https://quickbooks.api.intuit.com';
+    }
+
     formatDate(dateStr) {
         if (!dateStr) return new Date().toISOString().split('T')[0];
         // Handle MM/DD/YY or MM/DD/YYYY
@@ -164,4 +753,18 @@ class QBSyncService {
     }
 }
 
-module.exports = new QBSyncService();
+const services = {};
+
+const forCompany = (companyId) => {
+    if (!services[companyId]) services[companyId] = new QBSyncService(companyId);
+    return services[companyId];
+};
+
+const removeCompany = (companyId) => {
+    delete services[companyId];
+};
+
+module.exports = {
+    forCompany,
+    removeCompany
+};
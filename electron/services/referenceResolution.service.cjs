@@ -0,0 +1,46 @@
+const configStore = require('./configStore.service.cjs');
+
+const RESOLUTIONS_FILE = 'reference-resolutions.json';
+const KINDS = ['vendors', 'accounts'];
+const ACTIONS = ['map', 'skip'];
+
+// Name -> { action: 'map', targetId, targetName } | { action: 'skip' }, per kind.
+// 'create' choices are not stored: once created the name exists in QBO.
+const getResolutions = (companyId) => {
+    const stored = configStore.readJson(configStore.getCompanyPath(companyId, RESOLUTIONS_FILE), null);
+    return {
+        vendors: (stored && stored.vendors) || {},
+        accounts: (stored && stored.accounts) || {}
+    };
+};
+
+// Merges new choices into the saved ones
+const saveResolutions = (companyId, updates) => {
+    const current = getResolutions(companyId);
+
+    KINDS.forEach(kind => {
+        Object.entries((updates && updates[kind]) || {}).forEach(([name, resolution]) => {
+            if (!ACTIONS.includes(resolution.action)) {
+                delete current[kind][name];
+                return;
+            }
+            if (resolution.action === 'map' && !resolution.targetId) {
+                throw new Error(`No QuickBooks target chosen for "${name}".`);
+            }
+            current[kind][name] = resolution.action === 'map'
+                ? { action: 'map', targetId: resolution.targetId, targetName: resolution.targetName }
+                : { action: 'skip' };
+        });
+    });
+
+    configStore.writeJson(configStore.getCompanyPath(companyId, RESOLUTIONS_FILE), {
+        ...current,
+        updatedAt: new Date().toISOString()
+    });
+    return current;
+};
+
+module.exports = {
+    getResolutions,
+    saveResolutions
+};
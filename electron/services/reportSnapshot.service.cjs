@@ -0,0 +1,41 @@
+const crypto = require('crypto');
+const configStore = require('./configStore.service.cjs');
+
+// Totals of processed payment reports, kept for period-over-period comparison (per company)
+const SNAPSHOTS_FILE = 'report-snapshots.json';
+
+// Newest first
+const listSnapshots = (companyId) => {
+    return configStore.readJson(configStore.getCompanyPath(companyId, SNAPSHOTS_FILE), []);
+};
+
+// A snapshot with a known id is replaced (e.g. renamed); anything else is added
+const saveSnapshot = (companyId, snapshot) => {
+    const name = String((snapshot && snapshot.name) || '').trim();
+    if (!name) throw new Error('Snapshot name is required.');
+    if (!Array.isArray(snapshot.days) || typeof snapshot.totalAmount !== 'number') {
+        throw new Error('Invalid report snapshot: expected report totals and reporting days.');
+    }
+
+    const snapshots = listSnapshots(companyId);
+    const existing = snapshots.find(s => s.id === snapshot.id);
+    const saved = {
+        ...snapshot,
+        id: existing ? existing.id : crypto.randomUUID(),
+        name,
+        createdAt: existing ? existing.createdAt : new Date().toISOString()
+    };
+    const updated = existing ? snapshots.map(s => s.id === saved.id ? saved : s) : [saved, ...snapshots];
+    configStore.writeJson(configStore.getCompanyPath(companyId, SNAPSHOTS_FILE), updated);
+    return saved;
+};
+
+const deleteSnapshot = (companyId, id) => {
+    configStore.writeJson(configStore.getCompanyPath(companyId, SNAPSHOTS_FILE), listSnapshots(companyId).filter(s => s.id !== id));
+};
+
+module.exports = {
+    listSnapshots,
+    saveSnapshot,
+    deleteSnapshot
+};
@@ -0,0 +1,50 @@
+const configStore = require('./configStore.service.cjs');
+
+// Layout of the transaction PDF (company name, logo, columns, page setup)
+const REPORT_TEMPLATE_FILE = 'report-template.json';
+const COLUMNS = ['time', 'order', 'customer', 'type', 'cardBrand', 'amount', 'fee', 'net', 'verify'];
+const PAGE_SIZES = ['letter', 'legal', 'a4'];
+// Logos are stored inline as data URLs: a 1.5 MB image is about 2.1 MB of base64
+const MAX_LOGO_LENGTH = 2.1 * 1024 * 1024;
+
+// Returns null when the company has never saved one, so the renderer uses its defaults
+const getTemplate = (companyId) => {
+    return configStore.readJson(configStore.getCompanyPath(companyId, REPORT_TEMPLATE_FILE), null);
+};
+
+const saveTemplate = (companyId, template) => {
+    if (!template || !Array.isArray(template.columns)) {
+        throw new Error('Invalid report template: expected a list of columns.');
+    }
+    const columns = COLUMNS.filter(column => template.columns.includes(column));
+    if (columns.length === 0) {
+        throw new Error('Invalid report template: pick at least one column.');
+    }
+    const logoDataUrl = template.logoDataUrl || null;
+    if (logoDataUrl && (!/^data:image\/(png|jpeg);base64,/.test(logoDataUrl) || logoDataUrl.length > MAX_LOGO_LENGTH)) {
+        throw new Error('Invalid report template: the logo must be a PNG or JPEG under 1.5 MB.');
+    }
+    if (!/^#[0-9a-f]{6}$/i.test(template.accentColor || '')) {
+        throw new Error('Invalid report template: accent color must look like #336699.');
+    }
+
+    configStore.writeJson(configStore.getCompanyPath(companyId, REPORT_TEMPLATE_FILE), {
+        companyName: String(template.companyName || '').trim(),
+        logoDataUrl,
+        title: String(template.title || '').trim(),
+        columns,
+        pageSize: PAGE_SIZES.includes(template.pageSize) ? template.pageSize : 'letter',
+        orientation: template.orientation === 'landscape' ? 'landscape' : 'portrait',
+        accentColor: template.accentColor,
+        headerText: String(template.headerText || '').trim(),
+        footerText: String(template.footerText || '').trim(),
+        layout: template.layout === 'consolidated' ? 'consolidated' : 'daily',
+        updatedAt: new Date().toISOString()
+    });
+    return getTemplate(companyId);
+};
+
+module.exports = {
+    getTemplate,
+    saveTemplate
+};
@@ -0,0 +1,73 @@
+const configStore = require('./configStore.service.cjs');
+
+const SETTINGS_FILE = 'reporting-settings.json';
+const RECONCILIATION_FILE = 'reconciliation-settings.json';
+const CURRENCY_FILE = 'currency-settings.json';
+
+// Returns null when nothing has been saved, so the renderer uses its defaults
+const getSettings = () => configStore.readJson(SETTINGS_FILE, null);
+
+const saveSettings = (settings) => {
+    if (!settings || typeof settings.cutoffTime !== 'string' || typeof settings.timeZone !== 'string') {
+        throw new Error('Invalid reporting settings: expected a cutoff time and timezone.');
+    }
+    configStore.writeJson(SETTINGS_FILE, {
+        cutoffTime: settings.cutoffTime,
+        timeZone: settings.timeZone,
+        rollForwardDays: Array.isArray(settings.rollForwardDays) ? settings.rollForwardDays : [],
+        holidays: Array.isArray(settings.holidays) ? settings.holidays : [],
+        updatedAt: new Date().toISOString()
+    });
+    return getSettings();
+};
+
+// Bank reconciliation tolerances; null until saved, like the reporting settings
+const getReconciliationSettings = () => configStore.readJson(RECONCILIATION_FILE, null);
+
+const saveReconciliationSettings = (settings) => {
+    const dateToleranceDays = Number(settings && settings.dateToleranceDays);
+    const amountTolerance = Number(settings && settings.amountTolerance);
+    if (!(dateToleranceDays >= 0) || !(amountTolerance >= 0)) {
+        throw new Error('Invalid reconciliation settings: tolerances must be zero or more.');
+    }
+    configStore.writeJson(RECONCILIATION_FILE, {
+        dateToleranceDays,
+        amountTolerance,
+        updatedAt: new Date().toISOString()
+    });
+    return getReconciliationSettings();
+};
+
+// Home currency and conversion rate table; null until saved
+const getCurrencySettings = () => configStore.readJson(CURRENCY_FILE, null);
+
+const saveCurrencySettings = (settings) => {
+    const homeCurrency = settings && typeof settings.homeCurrency === 'string' ? settings.homeCurrency.trim().toUpperCase() : '';
+    if (!/^[A-Z]{3}$/.test(homeCurrency)) {
+        throw new Error('Invalid currency settings: expected a three-letter home currency code.');
+    }
+    const rates = {};
+    Object.keys((settings && settings.rates) || {}).forEach((code) => {
+        const rate = Number(settings.rates[code]);
+        if (!/^[A-Z]{3}$/.test(code) || !(rate > 0)) {
+            throw new Error(`Invalid currency settings: bad rate for "${code}".`);
+        }
+        rates[code] = rate;
+    });
+    configStore.writeJson(CURRENCY_FILE, {
+        homeCurrency,
+        convertToHome: settings.convertToHome !== false,
+        rates,
+        updatedAt: new Date().toISOString()
+    });
+    return getCurrencySettings();
+};
+
+module.exports = {
+    getSettings,
+    saveSettings,
+    getReconciliationSettings,
+    saveReconciliationSettings,
+    getCurrencySettings,
+    saveCurrencySettings
+};
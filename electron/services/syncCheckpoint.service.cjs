@@ -0,0 +1,95 @@
+const fs = require('fs');
+const crypto = require('crypto');
+const configStore = require('./configStore.service.cjs');
+
+// Progress of the company's current sync, so an interrupted run can pick up where it stopped.
+// Only one batch is resumable at a time: syncing a different batch replaces it, but not while
+// it holds posted documents that aren't in the sync history yet (they could no longer be undone).
+const CHECKPOINT_FILE = 'sync-checkpoint.json';
+
+const getPath = (companyId) => configStore.getCompanyPath(companyId, CHECKPOINT_FILE);
+
+const hashBatch = (mode, entries) => crypto.createHash('sha256').update(JSON.stringify({ mode, entries })).digest('hex');
+
+// Posted documents of a checkpoint that no sync history run lists yet
+const unrecordedDocuments = (saved) => {
+    const recorded = new Set(saved.recordedKeys || []);
+    return Object.values(saved.completed).filter(doc => !recorded.has(doc.key));
+};
+
+// Resumes the saved checkpoint when it belongs to the same batch, otherwise starts a new one.
+// `source` ({ fileName, fileHash }) is kept so an interrupted run can be logged later.
+const begin = (companyId, mode, entries, source = {}) => {
+    const batchHash = hashBatch(mode, entries);
+    const saved = configStore.readJson(getPath(companyId));
+
+    if (saved && saved.batchHash === batchHash) {
+        return { recordedKeys: [], ...saved, resumed: true };
+    }
+
+    const unrecorded = saved ? unrecordedDocuments(saved).length : 0;
+    if (unrecorded > 0) {
+        const err = new Error(`An interrupted sync of ${saved.fileName || `another ${saved.mode} batch`} posted ${unrecorded} document(s) that are not in the sync history.`);
+        err.code = 'UNRECORDED_CHECKPOINT';
+        throw err;
+    }
+
+    return {
+        batchHash,
+        mode,
+        fileName: source.fileName || null,
+        fileHash: source.fileHash || null,
+        startedAt: new Date().toISOString(),
+        completed: {},  // Document key -> synced document entry
+        recordedKeys: [],  // Completed documents already logged by an interrupted run in the sync history
+        inFlight: null, // { requestId, keys } of the batch request awaiting its response
+        receipts: [],   // Sales receipts parked in Undeposited Funds: { id, date, amount, linked, linkedBy }
+        resumed: false
+    };
+};
+
+const save = (companyId, checkpoint) => {
+    const { resumed, ...data } = checkpoint;
+    configStore.writeJson(getPath(companyId), { ...data, updatedAt: new Date().toISOString() });
+};
+
+const clear = (companyId) => {
+    const filePath = configStore.resolvePath(getPath(companyId));
+    if (fs.existsSync(filePath)) fs.unlinkSync(filePath);
+};
+
+// Summary for the UI, or null when nothing is waiting to be resumed
+const getPending = (companyId) => {
+    const saved = configStore.readJson(getPath(companyId));
+    if (!saved) return null;
+    return {
+        mode: saved.mode,
+        startedAt: saved.startedAt,
+        updatedAt: saved.updatedAt,
+        completed: Object.keys(saved.completed).length
+    };
+};
+
+// The posted documents an interrupted run left unlogged, with the batch they came from
+const getUnrecorded = (companyId) => {
+    const saved = configStore.readJson(getPath(companyId));
+    if (!saved) return null;
+    const documents = unrecordedDocuments(saved);
+    if (documents.length === 0) return null;
+    return { mode: saved.mode, fileName: saved.fileName || null, fileHash: saved.fileHash || null, documents };
+};
+
+const markRecorded = (companyId, keys) => {
+    const saved = configStore.readJson(getPath(companyId));
+    if (!saved) return;
+    save(companyId, { ...saved, recordedKeys: [...(saved.recordedKeys || []), ...keys] });
+};
+
+module.exports = {
+    begin,
+    save,
+    clear,
+    getPending,
+    getUnrecorded,
+    markRecorded
+};
@@ -0,0 +1,96 @@
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const configStore = require('./configStore.service.cjs');
+
+// Append-only JSON-lines ledger: one 'run' event per sync, one 'undo' event per undone run.
+const HISTORY_FILE = 'sync-history.jsonl';
+
+const appendEvent = (event) => {
+    const filePath = configStore.resolvePath(HISTORY_FILE);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.appendFileSync(filePath, JSON.stringify(event) + '\n', 'utf8');
+};
+
+const readEvents = () => {
+    const filePath = configStore.resolvePath(HISTORY_FILE);
+    if (!fs.existsSync(filePath)) return [];
+
+    return fs.readFileSync(filePath, 'utf8')
+        .split('\n')
+        .filter(line => line.trim() !== '')
+        .map(line => {
+            try {
+                return JSON.parse(line);
+            } catch (e) {
+                console.error('Skipping corrupt sync history line:', e);
+                return null;
+            }
+        })
+        .filter(Boolean);
+};
+
+// `interrupted` is the error that stopped a run; its documents are the ones posted before it
+const recordRun = ({ company, mode, fileName, fileHash, results, interrupted = null }) => {
+    const run = {
+        type: 'run',
+        runId: crypto.randomUUID(),
+        timestamp: new Date().toISOString(),
+        companyId: company.id,
+        companyName: company.name,
+        realmId: company.realmId,
+        mode,
+        fileName,
+        fileHash,
+        counts: {
+            success: results.success,
+            updated: results.updated,
+            skipped: results.skipped,
+            failed: results.failed
+        },
+        documents: results.documents,
+        interrupted
+    };
+    appendEvent(run);
+    return run;
+};
+
+const recordUndo = (runId, undoResults) => {
+    appendEvent({
+        type: 'undo',
+        runId,
+        timestamp: new Date().toISOString(),
+        deleted: undoResults.deleted,
+        failed: undoResults.failed,
+        errors: undoResults.errors,
+        deletedKeys: undoResults.deletedKeys
+    });
+};
+
+// Runs newest first, each with its latest undo attempt folded in.
+// deletedKeys accumulates across attempts so a retry only touches what is left.
+// Runs recorded before company profiles existed belong to the default company.
+const listRuns = (companyId = null) => {
+    const runs = {};
+    readEvents().forEach(event => {
+        if (event.type === 'run') {
+            runs[event.runId] = { companyId: 'default', ...event, undo: null };
+        } else if (event.type === 'undo' && runs[event.runId]) {
+            const previous = runs[event.runId].undo;
+            const deletedKeys = [...(previous ? previous.deletedKeys : []), ...(event.deletedKeys || [])];
+            runs[event.runId].undo = { ...event, deletedKeys };
+        }
+    });
+    return Object.values(runs)
+        .filter(run => !companyId || run.companyId === companyId)
+        .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+};
+
+const getRun = (runId) => listRuns().find(run => run.runId === runId) || null;
+
+module.exports = {
+    recordRun,
+    recordUndo,
+    listRuns,
+    getRun
+};
@@ -0,0 +1,34 @@
+const configStore = require('./configStore.service.cjs');
+
+// Per-transaction review sign-offs, keyed by "<source file hash>:<transaction id>"
+const VERIFICATIONS_FILE = 'transaction-verifications.json';
+
+const listVerifications = () => configStore.readJson(VERIFICATIONS_FILE, {});
+
+const saveVerification = (key, verification) => {
+    const reviewer = String((verification && verification.reviewer) || '').trim();
+    if (!key) throw new Error('Verification key is required.');
+    if (!reviewer) throw new Error('Reviewer name is required to verify a transaction.');
+
+    const saved = {
+        reviewer,
+        verifiedAt: verification.verifiedAt || new Date().toISOString(),
+        note: String(verification.note || '').trim()
+    };
+    const verifications = listVerifications();
+    verifications[key] = saved;
+    configStore.writeJson(VERIFICATIONS_FILE, verifications);
+    return saved;
+};
+
+const deleteVerification = (key) => {
+    const verifications = listVerifications();
+    delete verifications[key];
+    configStore.writeJson(VERIFICATIONS_FILE, verifications);
+};
+
+module.exports = {
+    listVerifications,
+    saveVerification,
+    deleteVerification
+};
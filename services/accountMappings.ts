@@ -0,0 +1,91 @@
+import Papa from 'papaparse';
+import { AccountMappings } from './converter.service';
+
+export type MappingMode = keyof AccountMappings;
+
+export const MAPPING_MODES: MappingMode[] = ['GL', 'AP'];
+
+// Flat, editable form of AccountMappings used by the mapping editor
+export interface AccountMappingRow {
+  mode: MappingMode;
+  iifAccount: string;
+  qboAccount: string;
+}
+
+const CSV_HEADERS = ['Mode', 'IIF Account', 'QBO Account'];
+
+export const mappingsToRows = (mappings: AccountMappings): AccountMappingRow[] => {
+  return MAPPING_MODES.flatMap(mode =>
+    Object.entries(mappings[mode] || {}).map(([iifAccount, qboAccount]) => ({ mode, iifAccount, qboAccount }))
+  );
+};
+
+/**
+ * Rebuilds the mapping tables from editor rows.
+ * Blank rows are dropped; duplicate IIF accounts within a mode are rejected.
+ */
+export const rowsToMappings = (rows: AccountMappingRow[]): AccountMappings => {
+  const mappings: AccountMappings = { GL: {}, AP: {} };
+
+  rows.forEach(row => {
+    const iifAccount = row.iifAccount.trim();
+    const qboAccount = row.qboAccount.trim();
+    if (!iifAccount && !qboAccount) return;
+
+    if (!iifAccount || !qboAccount) {
+      throw new Error(`${row.mode} mapping is incomplete: both the IIF and QBO account are required.`);
+    }
+    if (mappings[row.mode][iifAccount] !== undefined) {
+      throw new Error(`${row.mode} mapping for "${iifAccount}" is defined more than once.`);
+    }
+    mappings[row.mode][iifAccount] = qboAccount;
+  });
+
+  return mappings;
+};
+
+export const mappingsToCSV = (mappings: AccountMappings): string => {
+  return Papa.unparse({
+    fields: CSV_HEADERS,
+    data: mappingsToRows(mappings).map(r => [r.mode, r.iifAccount, r.qboAccount])
+  });
+};
+
+export const mappingsToJSON = (mappings: AccountMappings): string => {
+  return JSON.stringify({ GL: mappings.GL, AP: mappings.AP }, null, 2);
+};
+
+const isMappingMode = (mode: string): mode is MappingMode => (MAPPING_MODES as string[]).includes(mode);
+
+/**
+ * Parses an exported mapping file. JSON must be { GL: {...}, AP: {...} };
+ * CSV must carry the Mode / IIF Account / QBO Account columns.
+ */
+export const parseMappingsFile = (text: string, fileName: string): AccountMappings => {
+  if (fileName.toLowerCase().endsWith('.json')) {
+    const data = JSON.parse(text);
+    if (!data || typeof data !== 'object') {
+      throw new Error('Invalid mapping JSON: expected an object with GL and AP tables.');
+    }
+    return {
+      GL: { ...(data.GL || {}) },
+      AP: { ...(data.AP || {}) }
+    };
+  }
+
+  const results = Papa.parse<Record<string, string>>(text, { header: true, skipEmptyLines: true });
+  const missing = CSV_HEADERS.filter(h => !results.meta.fields?.includes(h));
+  if (missing.length > 0) {
+    throw new Error(`Invalid mapping CSV: missing column(s) ${missing.join(', ')}.`);
+  }
+
+  const rows: AccountMappingRow[] = results.data.map((row, index) => {
+    const mode = (row['Mode'] || '').trim().toUpperCase();
+    if (!isMappingMode(mode)) {
+      throw new Error(`Invalid mapping CSV: row ${index + 2} has unknown mode "${row['Mode']}".`);
+    }
+    return { mode, iifAccount: row['IIF Account'] || '', qboAccount: row['QBO Account'] || '' };
+  });
+
+  return rowsToMappings(rows);
+};
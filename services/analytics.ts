@@ -0,0 +1,115 @@
+import { ReportSummary } from '../types';
+import { getStoreWallClock } from './reportingSettings';
+import { countsTowardTotals } from './transactionCategories';
+import { toHomeCents } from './currency';
+
+/**
+ * Chart data for the analytics tab, worked out from a ReportSummary (the filtered one when a
+ * filter is on). Amounts are in the home currency, like the report's totals.
+ */
+
+export interface DailyAnalytics {
+  dateKey: string;
+  date: string;
+  gross: number;
+  net: number;
+  sales: number;
+  refunds: number;            // Positive
+  feeRate: number | null;     // Fees as a % of sales; null on a day without sales
+  refundRate: number | null;  // Refunds as a % of sales
+}
+
+export interface CardBrandSlice {
+  label: string;
+  cardBrands: string[];  // The brands behind the slice ("Other" groups several)
+  count: number;
+  amount: number;
+}
+
+export interface HourCell {
+  weekday: number;  // 0 = Sunday
+  hour: number;
+  count: number;
+  amount: number;
+}
+
+export interface ReportAnalytics {
+  days: DailyAnalytics[];
+  cardBrands: CardBrandSlice[];
+  heatmap: HourCell[];  // 7 x 24, Sunday midnight first
+  maxHourCount: number;
+}
+
+// The pie gets this many brands; the rest share one "Other" slice
+const MAX_BRAND_SLICES = 6;
+
+const percentOf = (part: number, whole: number): number | null => {
+  return whole > 0 ? Math.round(part / whole * 10000) / 100 : null;
+};
+
+export const buildReportAnalytics = (summary: ReportSummary): ReportAnalytics => {
+  // Oldest first, undated transactions left out
+  const days = summary.dailyGroups
+    .filter(group => group.dateKey !== '')
+    .sort((a, b) => a.dateKey.localeCompare(b.dateKey))
+    .map(group => {
+      const sales = group.categoryTotals.find(t => t.category === 'SALE')?.amount ?? 0;
+      const refunds = Math.abs(group.categoryTotals.find(t => t.category === 'REFUND')?.amount ?? 0);
+      return {
+        dateKey: group.dateKey,
+        date: group.date,
+        gross: group.subtotal,
+        net: group.subtotalNet,
+        sales,
+        refunds,
+        feeRate: percentOf(Math.abs(group.subtotalFees), sales),
+        refundRate: percentOf(refunds, sales)
+      };
+    });
+
+  // Card mix and busy hours come from the sales themselves
+  const sales = summary.allTransactions.filter(t => t.category === 'SALE' && countsTowardTotals(t));
+
+  const brands: Record<string, { count: number, cents: number }> = {};
+  sales.forEach(t => {
+    if (!brands[t.cardBrand]) brands[t.cardBrand] = { count: 0, cents: 0 };
+    brands[t.cardBrand].count++;
+    brands[t.cardBrand].cents += toHomeCents(t).amount;
+  });
+  const slices = Object.keys(brands)
+    .map(brand => ({ label: brand || 'Unknown', cardBrands: [brand], count: brands[brand].count, amount: brands[brand].cents / 100 }))
+    .sort((a, b) => b.amount - a.amount);
+  const cardBrands = slices.slice(0, MAX_BRAND_SLICES);
+  if (slices.length > MAX_BRAND_SLICES) {
+    const rest = slices.slice(MAX_BRAND_SLICES);
+    cardBrands.push({
+      label: 'Other',
+      cardBrands: rest.flatMap(s => s.cardBrands),
+      count: rest.reduce((sum, s) => sum + s.count, 0),
+      amount: rest.reduce((sum, s) => sum + Math.round(s.amount * 100), 0) / 100
+    });
+  }
+
+  const heatmap: HourCell[] = [];
+  for (let weekday = 0; weekday < 7; weekday++) {
+    for (let hour = 0; hour < 24; hour++) {
+      heatmap.push({ weekday, hour, count: 0, amount: 0 });
+    }
+  }
+  const { timeZone } = summary.reportingSettings;
+  sales.forEach(t => {
+    const clock = getStoreWallClock(t.dateTime, timeZone);
+    if (!clock) return;
+    const weekday = new Date(Date.UTC(clock.year, clock.month - 1, clock.day)).getUTCDay();
+    const cell = heatmap[weekday * 24 + clock.hour];
+    cell.count++;
+    cell.amount = (Math.round(cell.amount * 100) + toHomeCents(t).amount) / 100;
+  });
+
+  return {
+    days,
+    cardBrands,
+    heatmap,
+    maxHourCount: Math.max(0, ...heatmap.map(cell => cell.count))
+  };
+};
@@ -0,0 +1,96 @@
+import Papa from 'papaparse';
+import { BankDeposit } from '../types';
+import { getStoreWallClock } from './reportingSettings';
+import { parseMoney, pickColumn } from './processors/processor';
+
+/**
+ * Bank statement import for reconciliation. Only credits are kept: they're the deposits
+ * payout reports are matched against.
+ */
+
+// Column names used by the common bank CSV exports, in order of preference
+const DATE_COLUMNS = ['Posting Date', 'Posted Date', 'Date', 'Transaction Date', 'Effective Date'];
+const AMOUNT_COLUMNS = ['Amount', 'Transaction Amount'];
+const CREDIT_COLUMNS = ['Credit', 'Credits', 'Deposit', 'Deposits', 'Credit Amount'];
+const DESCRIPTION_COLUMNS = ['Description', 'Payee', 'Name', 'Memo', 'Details', 'Transaction Description'];
+const REFERENCE_COLUMNS = ['Reference', 'Reference Number', 'Ref', 'Check or Slip #', 'Transaction ID', 'FITID'];
+
+// Statement dates are calendar days; read them as-is rather than through a timezone
+const toDateKey = (value: string): string | null => {
+  const clock = getStoreWallClock(value, 'UTC');
+  if (!clock) return null;
+  return `${clock.year}-${String(clock.month).padStart(2, '0')}-${String(clock.day).padStart(2, '0')}`;
+};
+
+const parseCsvStatement = (text: string, fileName: string): BankDeposit[] => {
+  const results = Papa.parse<Record<string, string>>(text, { header: true, skipEmptyLines: true });
+  const headers = results.meta.fields || [];
+
+  const hasAny = (candidates: string[]) => candidates.some(c => headers.includes(c));
+  if (!hasAny(DATE_COLUMNS) || !(hasAny(AMOUNT_COLUMNS) || hasAny(CREDIT_COLUMNS))) {
+    throw new Error(`${fileName}: couldn't find a date and an amount (or credit) column.`);
+  }
+
+  const deposits: BankDeposit[] = [];
+  results.data.forEach((row, index) => {
+    const date = toDateKey(pickColumn(row, ...DATE_COLUMNS));
+    // Split debit/credit layouts put deposits in their own column
+    const amount = hasAny(CREDIT_COLUMNS)
+      ? parseMoney(pickColumn(row, ...CREDIT_COLUMNS))
+      : parseMoney(pickColumn(row, ...AMOUNT_COLUMNS));
+    if (!date || isNaN(amount) || amount <= 0) return;
+
+    deposits.push({
+      id: `${fileName}-${index}`,
+      date,
+      amount,
+      description: pickColumn(row, ...DESCRIPTION_COLUMNS),
+      reference: pickColumn(row, ...REFERENCE_COLUMNS),
+      sourceFile: fileName
+    });
+  });
+  return deposits;
+};
+
+// OFX 1.x is SGML (closing tags optional), 2.x is XML; reading tag values line by line covers both
+const readOfxTag = (block: string, tag: string): string => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : '';
+};
+
+const parseOfxStatement = (text: string, fileName: string): BankDeposit[] => {
+  const blocks = text.split(/<STMTTRN>/i).slice(1);
+  if (blocks.length === 0) {
+    throw new Error(`${fileName}: no transactions found in the OFX/QFX file.`);
+  }
+
+  const deposits: BankDeposit[] = [];
+  blocks.forEach((block, index) => {
+    // DTPOSTED is YYYYMMDD[HHMMSS[.XXX]][TZ]; the calendar day is all we need
+    const posted = readOfxTag(block, 'DTPOSTED').match(/^(\d{4})(\d{2})(\d{2})/);
+    const amount = parseMoney(readOfxTag(block, 'TRNAMT'));
+    if (!posted || isNaN(amount) || amount <= 0) return;
+
+    const fitId = readOfxTag(block, 'FITID');
+    deposits.push({
+      id: fitId ? `${fileName}-${fitId}` : `${fileName}-${index}`,
+      date: `${posted[1]}-${posted[2]}-${posted[3]}`,
+      amount,
+      description: [readOfxTag(block, 'NAME'), readOfxTag(block, 'MEMO')].filter(Boolean).join(' '),
+      reference: fitId || readOfxTag(block, 'REFNUM'),
+      sourceFile: fileName
+    });
+  });
+  return deposits;
+};
+
+export const parseBankStatements = async (files: FileList | File[]): Promise<BankDeposit[]> => {
+  const fileArray: File[] = Array.from(files);
+  const statements = await Promise.all(fileArray.map(async file => {
+    const text = await file.text();
+    return /\.(ofx|qfx)$/i.test(file.name) || /<OFX>/i.test(text)
+      ? parseOfxStatement(text, file.name)
+      : parseCsvStatement(text, file.name);
+  }));
+  return statements.flat().sort((a, b) => a.date.localeCompare(b.date));
+};
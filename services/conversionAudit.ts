@@ -0,0 +1,172 @@
+import { ConversionMode, QBOJournalEntry, ValidationReport } from './converter.service';
+
+/**
+ * The record of one IIF-to-QBO conversion that goes into the month-end close package:
+ * where the rows came from, each journal/bill with its debit and credit totals and a
+ * balance check, and which IIF accounts the account mappings replaced.
+ */
+
+export interface ConversionAuditSource {
+  fileName: string;
+  fileHash: string | null;  // SHA-256 of the source file
+  convertedAt: string;      // ISO timestamp
+  mode: ConversionMode;
+}
+
+export interface ConversionAuditLine {
+  account: string;
+  description: string;
+  name: string;
+  debit: number;
+  credit: number;
+  isOffset: boolean;  // Not in the import: the side QBO posts itself (AP, deposit-to account)
+}
+
+export interface ConversionAuditDocument {
+  label: string;  // e.g. "CPIIF-010524", "Bill 1043", "Deposit 88"
+  date: string;
+  name: string;
+  lines: ConversionAuditLine[];
+  debits: number;
+  credits: number;
+  difference: number;  // Debits less credits
+  isBalanced: boolean;
+}
+
+export interface AccountSubstitution {
+  sourceAccount: string;  // As written in the IIF file
+  qboAccount: string;     // What was sent to QBO
+  lineCount: number;
+  isMapped: boolean;      // False when the account went to QBO unchanged
+}
+
+export interface ConversionAudit {
+  source: ConversionAuditSource;
+  documents: ConversionAuditDocument[];
+  substitutions: AccountSubstitution[];
+  lineCount: number;
+  debits: number;
+  credits: number;
+  unbalancedCount: number;
+  validation: ValidationReport | null;
+}
+
+const toCents = (value: string | undefined): number => {
+  const amount = parseFloat(value || '');
+  return Number.isNaN(amount) ? 0 : Math.round(amount * 100);
+};
+
+// The QBO document a row posts to; bill numbers are only unique per vendor, as qbSync keys them
+const documentKey = (entry: QBOJournalEntry): string => {
+  return `${entry.RecordType ?? ''}|${entry.Supplier?.trim() ?? ''}|${entry.BillNo ?? entry.JournalNo}`;
+};
+
+const documentLabel = (entry: QBOJournalEntry, mode: ConversionMode): string => {
+  if (mode === 'AP') return `Bill ${entry.BillNo ?? entry.JournalNo}`;
+  if (entry.RecordType === 'SalesReceipt') return `Sales Receipt ${entry.JournalNo}`;
+  if (entry.RecordType === 'Deposit') return `Deposit ${entry.JournalNo}`;
+  return entry.JournalNo;
+};
+
+// Bills and sales documents are imported as one side only; QBO posts the other itself. It is
+// taken from the IIF TRNS amount (not the lines), so lines that don't add up to it show as out of balance.
+const offsetLine = (first: QBOJournalEntry, mode: ConversionMode): ConversionAuditLine | null => {
+  if (mode !== 'AP' && mode !== 'SALES') return null;
+  const totalCents = toCents(first.SourceTotal);
+  if (totalCents === 0) return null;
+  return {
+    account: mode === 'AP' ? 'Accounts Payable' : first.DepositTo || '(deposit-to account)',
+    description: mode === 'AP' ? 'Bill total, posted by QBO' : 'Document total, posted by QBO',
+    name: first.Name,
+    debit: totalCents > 0 ? totalCents / 100 : 0,
+    credit: totalCents < 0 ? -totalCents / 100 : 0,
+    isOffset: true
+  };
+};
+
+const buildDocument = (entries: QBOJournalEntry[], mode: ConversionMode): ConversionAuditDocument => {
+  const first = entries[0];
+  const lines: ConversionAuditLine[] = entries.map(entry => ({
+    account: entry.Account,
+    description: entry.Description,
+    name: entry.Name,
+    debit: toCents(entry.Debit) / 100,
+    credit: toCents(entry.Credit) / 100,
+    isOffset: false
+  }));
+
+  const lineDebits = entries.reduce((sum, entry) => sum + toCents(entry.Debit), 0);
+  const lineCredits = entries.reduce((sum, entry) => sum + toCents(entry.Credit), 0);
+  const offset = offsetLine(first, mode);
+  if (offset) lines.push(offset);
+
+  const debitCents = lineDebits + Math.round((offset?.debit ?? 0) * 100);
+  const creditCents = lineCredits + Math.round((offset?.credit ?? 0) * 100);
+  return {
+    label: documentLabel(first, mode),
+    date: first.JournalDate,
+    name: mode === 'AP' ? first.Supplier ?? first.Name : first.Name,
+    lines,
+    debits: debitCents / 100,
+    credits: creditCents / 100,
+    difference: (debitCents - creditCents) / 100,
+    isBalanced: debitCents === creditCents
+  };
+};
+
+// Every IIF account the rows were converted from, with what QBO received instead
+const collectSubstitutions = (entries: QBOJournalEntry[]): AccountSubstitution[] => {
+  const pairs: Record<string, AccountSubstitution> = {};
+  const add = (sourceAccount: string | undefined, qboAccount: string | undefined) => {
+    // Rows built in the app (daily journals) have no IIF account to report
+    if (sourceAccount === undefined || qboAccount === undefined) return;
+    const key = `${sourceAccount}\u0000${qboAccount}`;
+    if (!pairs[key]) {
+      pairs[key] = { sourceAccount, qboAccount, lineCount: 0, isMapped: sourceAccount !== qboAccount };
+    }
+    pairs[key].lineCount++;
+  };
+
+  entries.forEach(entry => add(entry.SourceAccount, entry.Account));
+  // Deposit-to accounts are mapped once per sales document
+  const seen = new Set<string>();
+  entries.forEach(entry => {
+    const key = documentKey(entry);
+    if (entry.SourceDepositTo === undefined || seen.has(key)) return;
+    seen.add(key);
+    add(entry.SourceDepositTo, entry.DepositTo);
+  });
+
+  return Object.values(pairs).sort((a, b) => a.sourceAccount.localeCompare(b.sourceAccount));
+};
+
+/**
+ * Groups converted rows into their journals or bills (by JournalNo, BillNo and vendor in AP
+ * mode, and record type in SALES mode), in the order they were converted.
+ */
+export const buildConversionAudit = (entries: QBOJournalEntry[], source: ConversionAuditSource, validation: ValidationReport | null = null): ConversionAudit => {
+  const groups = new Map<string, QBOJournalEntry[]>();
+  entries.forEach(entry => {
+    const key = documentKey(entry);
+    const group = groups.get(key);
+    if (group) {
+      group.push(entry);
+    } else {
+      groups.set(key, [entry]);
+    }
+  });
+
+  const documents = Array.from(groups.values()).map(group => buildDocument(group, source.mode));
+  const sum = (values: number[]) => values.reduce((total, v) => total + Math.round(v * 100), 0) / 100;
+
+  return {
+    source,
+    documents,
+    substitutions: collectSubstitutions(entries),
+    lineCount: entries.length,
+    debits: sum(documents.map(d => d.debits)),
+    credits: sum(documents.map(d => d.credits)),
+    unbalancedCount: documents.filter(d => !d.isBalanced).length,
+    validation
+  };
+};
@@ -1,3 +1,5 @@
+import { parseIIF, IIFDocument, IIFRecord, IIFTransaction } from './iifParser';
+
 export interface QBOJournalEntry {
   JournalNo: string;
   JournalDate: string;
@@ -11,14 +13,64 @@ export interface QBOJournalEntry {
   LineAmount?: string;
   BillNo?: string;
   Supplier?: string;
+  // Other Transaction Fields
+  TxnType?: string;
+  // Sales Receipt / Deposit Fields
+  RecordType?: SalesRecordType;
+  DepositTo?: string;
+  Item?: string;
+  // Accounts as written in the IIF file, before the account mappings (for the audit trail)
+  SourceAccount?: string;
+  SourceDepositTo?: string;
+  // Bills and sales documents: the TRNS amount as written, the side QBO posts from the line total
+  SourceTotal?: string;
 }
 
-export type ConversionMode = 'GL' | 'AP';
+export type ConversionMode = 'GL' | 'AP' | 'TXN' | 'SALES';
 
-export class ConverterService {
-  
-  // --- CONFIGURATION: GL ACCOUNT MAPPING ---
-  private glAccountOverrides: Record<string, string> = {
+export type SalesRecordType = 'SalesReceipt' | 'Deposit';
+
+// IIF transaction types handled by SALES mode (Counterpoint end-of-day export)
+export const SALES_TXN_TYPES: Record<string, SalesRecordType> = {
+  'CASH SALE': 'SalesReceipt',
+  'DEPOSIT': 'Deposit',
+};
+
+// IIF transaction types handled by TXN mode, with the JournalNo prefix used for each
+export const TXN_TYPE_PREFIXES: Record<string, string> = {
+  'INVOICE': 'INV',
+  'CHECK': 'CHK',
+  'DEPOSIT': 'DEP',
+  'CREDIT MEMO': 'CM',
+  'PAYMENT': 'PMT',
+};
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  severity: ValidationSeverity;
+  line: number; // 1-based line in the source IIF, 0 when the issue spans a whole document
+  docNo?: string;
+  message: string;
+}
+
+export interface ValidationReport {
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+  documentCount: number;
+}
+
+export type AccountMappingTable = Record<string, string>;
+
+// IIF account -> QBO account, one table per conversion mode
+export interface AccountMappings {
+  GL: AccountMappingTable;
+  AP: AccountMappingTable;
+}
+
+export const DEFAULT_ACCOUNT_MAPPINGS: AccountMappings = {
+  // --- GL ACCOUNT MAPPING ---
+  GL: {
     "0-115-0": "0-115-0 INVENTORY - PARTS",
     "0-119-0": "0-119-0 OTHER CC CLEARING",
     "0-121-0": "0-121-0 UNDEPOSITED FUNDS",
@@ -32,50 +84,50 @@ export class ConverterService {
     "0-405-0": "0-405-0 SHIPPING & HANDLING FEES",
     "0-490-0": "0-490-0 SALES RETURNS AND ALLOWANCES",
     "0-501-0": "0-501-0 COST OF GOODS SOLD",
-  };
-
-  // --- CONFIGURATION: AP ACCOUNT MAPPING ---
-  private apAccountOverrides: Record<string, string> = {
-    // AP Accounts
+  },
+  // --- AP ACCOUNT MAPPING ---
+  AP: {
     "0-201-0": "0-201-0 ACCOUNTS PAYABLE",
     "0-202-0": "0-202-0 ACCOUNTS PAYABLE CLEARING",
     "0-682-0": "0-682-0 SHIPPING EXPENSE",
-  };
+  },
+};
+
+export class ConverterService {
+
+  private glAccountOverrides: AccountMappingTable;
+  private apAccountOverrides: AccountMappingTable;
+
+  constructor(mappings: AccountMappings = DEFAULT_ACCOUNT_MAPPINGS) {
+    this.glAccountOverrides = { ...mappings.GL };
+    this.apAccountOverrides = { ...mappings.AP };
+  }
   
   convert(iifString: string, mode: ConversionMode): QBOJournalEntry[] {
+    const doc = parseIIF(iifString);
     if (mode === 'AP') {
-      return this.convertBills(iifString);
+      return this.convertBills(doc);
+    }
+    if (mode === 'TXN') {
+      return this.convertTransactions(doc);
     }
-    return this.convertGL(iifString);
+    if (mode === 'SALES') {
+      return this.convertSales(doc);
+    }
+    return this.convertGL(doc);
   }
 
   // --- GL LOGIC (Original) ---
-  private convertGL(iifString: string): QBOJournalEntry[] {
-    const lines = iifString.split(/\r?\n/);
-    let headerMap: Record<string, number> = {};
+  private convertGL(doc: IIFDocument): QBOJournalEntry[] {
     const processedRows: QBOJournalEntry[] = [];
 
-    // Header Discovery
-    for (const line of lines) {
-      if (line.trim().startsWith('!SPL')) {
-        const headers = line.trim().split('\t');
-        headers.forEach((h, i) => headerMap[h] = i);
-        break;
-      }
-    }
-
-    if (Object.keys(headerMap).length === 0) {
+    if (!doc.headers['SPL']) {
       throw new Error("Invalid IIF File: Could not find '!SPL' header row definition.");
     }
 
-    // Process Data Rows
-    for (const line of lines) {
-      if (!line.startsWith('SPL')) {
-        continue;
-      }
-
-      const parts = line.trim().split('\t');
-      const getVal = (colName: string) => this.getVal(parts, headerMap, colName);
+    // Process every SPL row, whether or not it sits inside a TRNS block
+    for (const split of doc.transactions.flatMap(t => t.splits)) {
+      const getVal = (colName: string) => this.getVal(split, colName);
 
       const rawDocNum = getVal('DOCNUM');
       const rawDate = getVal('DATE');
@@ -84,19 +136,7 @@ export class ConverterService {
       const rawAmount = getVal('AMOUNT');
       
       // LOGIC 1: CREATE JOURNAL ID (CPIIF-MMDDYY)
-      let finalJournalNo = rawDocNum;
-      try {
-        const dateParts = rawDate.split('/');
-        if (dateParts.length === 3) {
-            const [mm, dd, yyyy] = dateParts;
-            const yy = yyyy.slice(-2);
-            finalJournalNo = `CPIIF-${mm}${dd}${yy}`;
-        } else {
-             finalJournalNo = `CPIIF-${rawDate.replace(/\//g, '')}`;
-        }
-      } catch (e) {
-        finalJournalNo = rawDocNum;
-      }
+      const finalJournalNo = this.buildJournalNo(rawDate, rawDocNum);
 
       const finalDescription = rawMemo ? `${rawMemo} (Ref: ${rawDocNum})` : `(Ref: ${rawDocNum})`;
       const finalAccount = this.glAccountOverrides[rawAccnt] ?? rawAccnt;
@@ -109,7 +149,8 @@ export class ConverterService {
         Account: finalAccount,
         Debit: debitStr,
         Credit: creditStr,
-        Name: getVal('NAME')
+        Name: getVal('NAME'),
+        SourceAccount: rawAccnt
       });
     }
 
@@ -124,80 +165,30 @@ export class ConverterService {
   }
 
   // --- AP LOGIC (Bills) ---
-  private convertBills(iifString: string): QBOJournalEntry[] {
-    const lines = iifString.split(/\r?\n/);
-    let headerMapTrns: Record<string, number> = {};
-    let headerMapSpl: Record<string, number> = {};
-    
-    // Context Memory for Vendor info from TRNS line
-    const currentContext = {
-      docNum: "",
-      date: "",
-      dueDate: "",
-      name: "",
-      terms: ""
-    };
-
+  private convertBills(doc: IIFDocument): QBOJournalEntry[] {
     const processedRows: QBOJournalEntry[] = [];
 
-    // SINGLE PASS PROCESSING
-    for (const line of lines) {
-      // Handle Headers
-      if (line.startsWith('!TRNS')) {
-        headerMapTrns = {};
-        const headers = line.trim().split('\t');
-        headers.forEach((h, i) => headerMapTrns[h] = i);
-        continue;
-      } 
-      
-      if (line.startsWith('!SPL')) {
-        headerMapSpl = {};
-        const headers = line.trim().split('\t');
-        headers.forEach((h, i) => headerMapSpl[h] = i);
-        continue;
-      }
-
-      // Skip invalid or non-data lines
-      if (!line.startsWith('TRNS') && !line.startsWith('SPL')) {
-        continue;
-      }
+    for (const txn of doc.transactions) {
+      // Split-only blocks carry no vendor context and cannot become bills
+      if (!txn.trns || !this.isBillTransaction(txn)) continue;
 
-      let rowType = "";
-      let currentMap: Record<string, number> = {};
-
-      if (line.startsWith('TRNS')) {
-        rowType = 'TRNS';
-        currentMap = headerMapTrns;
-      } else if (line.startsWith('SPL')) {
-        rowType = 'SPL';
-        currentMap = headerMapSpl;
-      }
-
-      // Safety check
-      if (Object.keys(currentMap).length === 0) {
-        continue; 
-      }
+      // Context Memory for Vendor info from TRNS line
+      const trns = txn.trns;
+      const currentContext = {
+        docNum: this.getVal(trns, 'DOCNUM'),
+        date: this.getVal(trns, 'DATE'),
+        dueDate: this.getVal(trns, 'DUEDATE') || this.getVal(trns, 'DUE DATE'),
+        name: this.getVal(trns, 'NAME'),
+        terms: this.getVal(trns, 'TERMS')
+      };
 
-      const parts = line.trim().split('\t');
-      const getVal = (colName: string) => this.getVal(parts, currentMap, colName);
-
-      // Capture Context (TRNS Line Only)
-      if (rowType === 'TRNS') {
-        currentContext.docNum = getVal('DOCNUM');
-        currentContext.date = getVal('DATE');
-        currentContext.dueDate = getVal('DUEDATE') || getVal('DUE DATE');
-        currentContext.name = getVal('NAME');
-        currentContext.terms = getVal('TERMS');
-        
-        // In BILL Mode, the TRNS line is typically the AP credit (Negative Amount).
-        // We DO NOT create a row for this in the CSV for Bills, 
-        // because QBO automatically creates the AP Credit side based on the Total.
-        continue; 
-      }
+      // In BILL Mode, the TRNS line is typically the AP credit (Negative Amount).
+      // We DO NOT create a row for this in the CSV for Bills, 
+      // because QBO automatically creates the AP Credit side based on the Total.
 
       // Process SPL Lines (Expenses)
-      if (rowType === 'SPL') {
-          const rawAccnt = getVal('ACCNT');
+      for (const split of txn.splits) {
+          const rawAccnt = this.getVal(split, 'ACCNT');
           
           // SKIPPING THE AP ACCOUNT IF IT APPEARS IN SPLIT (Rare, but safety first)
           // Also skip if it matches the main AP account 0-201-0
@@ -205,14 +196,14 @@ export class ConverterService {
               continue;
           }
 
-          const rawAmount = getVal('AMOUNT');
+          const rawAmount = this.getVal(split, 'AMOUNT');
           const amountVal = parseFloat(rawAmount);
 
           // For Bills, expense lines should be POSITIVE. 
           // If for some reason they are negative (e.g. a credit memo), we preserve the sign.
           const lineAmount = amountVal.toFixed(2);
 
-          const rawMemo = getVal('MEMO');
+          const rawMemo = this.getVal(split, 'MEMO');
           const finalDescription = rawMemo; // Description is per line
 
           const finalAccount = this.apAccountOverrides[rawAccnt] ?? rawAccnt;
@@ -226,6 +217,8 @@ export class ConverterService {
             Account: finalAccount,
             Description: finalDescription,
             LineAmount: lineAmount,
+            SourceAccount: rawAccnt,
+            SourceTotal: this.getVal(trns, 'AMOUNT'),
             
             // Legacy Fields (kept for Type safety/compatibility)
             JournalNo: currentContext.docNum,
@@ -248,14 +241,286 @@ export class ConverterService {
     return processedRows;
   }
 
+  // --- TXN LOGIC (Invoices, Checks, Deposits, Credit Memos, Payments) ---
+  // Each transaction becomes one balanced journal: the TRNS row plus its SPL rows.
+  private convertTransactions(doc: IIFDocument): QBOJournalEntry[] {
+    const processedRows: QBOJournalEntry[] = [];
+
+    for (const txn of doc.transactions) {
+      const txnType = txn.trnsType.toUpperCase();
+      const prefix = TXN_TYPE_PREFIXES[txnType];
+      if (!txn.trns || !prefix) continue;
+
+      const trns = txn.trns;
+      const docNum = this.getVal(trns, 'DOCNUM') || `L${txn.line}`;
+      const trnsName = this.getVal(trns, 'NAME');
+
+      for (const record of [trns, ...txn.splits]) {
+        const rawAccnt = this.getVal(record, 'ACCNT');
+        const { debitStr, creditStr } = this.parseAmount(this.getVal(record, 'AMOUNT'));
+
+        processedRows.push({
+          JournalNo: `${prefix}-${docNum}`,
+          JournalDate: this.getVal(trns, 'DATE'),
+          Description: this.getVal(record, 'MEMO') || `${txnType} ${docNum}`,
+          Account: this.glAccountOverrides[rawAccnt] ?? rawAccnt,
+          Debit: debitStr,
+          Credit: creditStr,
+          Name: this.getVal(record, 'NAME') || trnsName,
+          TxnType: txnType,
+          SourceAccount: rawAccnt
+        });
+      }
+    }
+
+    return processedRows;
+  }
+
+  // --- SALES LOGIC (Sales Receipts & Deposits) ---
+  // CASH SALE: TRNS debits the deposit-to account (undeposited funds / WEB CC), SPLs credit income.
+  // DEPOSIT:   TRNS debits the bank, SPLs credit the clearing accounts being emptied.
+  // Either way, each SPL row becomes one positive line on the QBO document.
+  private convertSales(doc: IIFDocument): QBOJournalEntry[] {
+    const processedRows: QBOJournalEntry[] = [];
+
+    for (const txn of doc.transactions) {
+      const recordType = SALES_TXN_TYPES[txn.trnsType.toUpperCase()];
+      if (!txn.trns || !recordType) continue;
+
+      const trns = txn.trns;
+      const docNum = this.getVal(trns, 'DOCNUM');
+      const rawDepositTo = this.getVal(trns, 'ACCNT');
+      const depositTo = this.glAccountOverrides[rawDepositTo] ?? rawDepositTo;
+
+      for (const split of txn.splits) {
+        const rawAccnt = this.getVal(split, 'ACCNT');
+        const amountVal = -parseFloat(this.getVal(split, 'AMOUNT'));
+        const lineAmount = amountVal.toFixed(2);
+
+        processedRows.push({
+          RecordType: recordType,
+          JournalNo: docNum,
+          JournalDate: this.getVal(trns, 'DATE'),
+          Description: this.getVal(split, 'MEMO'),
+          Account: this.glAccountOverrides[rawAccnt] ?? rawAccnt,
+          DepositTo: depositTo,
+          Item: this.getVal(split, 'INVITEM'),
+          LineAmount: lineAmount,
+          Name: this.getVal(split, 'NAME') || this.getVal(trns, 'NAME'),
+          TxnType: txn.trnsType.toUpperCase(),
+          SourceAccount: rawAccnt,
+          SourceDepositTo: rawDepositTo,
+          SourceTotal: this.getVal(trns, 'AMOUNT'),
+
+          // Legacy Fields (kept for Type safety/compatibility)
+          Debit: amountVal < 0 ? Math.abs(amountVal).toFixed(2) : '0',
+          Credit: amountVal > 0 ? lineAmount : '0'
+        });
+      }
+    }
+
+    // Sales receipts first (deposits empty what they fill), then by date and number
+    processedRows.sort((a, b) => {
+      if (a.RecordType !== b.RecordType) return a.RecordType === 'SalesReceipt' ? -1 : 1;
+      if (a.JournalDate < b.JournalDate) return -1;
+      if (a.JournalDate > b.JournalDate) return 1;
+      if (a.JournalNo < b.JournalNo) return -1;
+      if (a.JournalNo > b.JournalNo) return 1;
+      return 0;
+    });
+
+    return processedRows;
+  }
+
+  // --- VALIDATION (Pre-flight) ---
+
+  /**
+   * Checks an IIF file before conversion: every journal/bill must balance,
+   * amounts must parse, dates must be present and accounts should be mapped.
+   */
+  validate(iifString: string, mode: ConversionMode): ValidationReport {
+    const doc = parseIIF(iifString);
+    const report: ValidationReport = { errors: [], warnings: [], documentCount: 0 };
+
+    // Structural problems don't stop conversion, but are worth knowing about
+    doc.errors.forEach(err => this.addIssue(report, 'warning', err.line, err.message));
+
+    if (mode === 'AP') {
+      this.validateBills(doc, report);
+    } else if (mode === 'TXN') {
+      this.validateTransactions(doc, report, TXN_TYPE_PREFIXES);
+    } else if (mode === 'SALES') {
+      this.validateTransactions(doc, report, SALES_TXN_TYPES);
+    } else {
+      this.validateGL(doc, report);
+    }
+    return report;
+  }
+
+  private validateGL(doc: IIFDocument, report: ValidationReport) {
+    if (!doc.headers['SPL']) {
+      this.addIssue(report, 'error', 0, "Could not find '!SPL' header row definition.");
+      return;
+    }
+
+    // JournalNo -> running balance in cents
+    const balances: Record<string, number> = {};
+
+    for (const split of doc.transactions.flatMap(t => t.splits)) {
+      const rawDate = this.getVal(split, 'DATE');
+      const docNo = this.buildJournalNo(rawDate, this.getVal(split, 'DOCNUM'));
+
+      if (!rawDate) {
+        this.addIssue(report, 'error', split.line, 'Missing DATE.', docNo);
+      }
+      this.checkAccount(report, split.line, this.getVal(split, 'ACCNT'), this.glAccountOverrides, docNo);
+
+      const cents = this.checkAmount(report, split.line, this.getVal(split, 'AMOUNT'), docNo);
+      if (balances[docNo] === undefined) balances[docNo] = 0;
+      balances[docNo] += cents ?? 0;
+    }
+
+    Object.entries(balances).forEach(([docNo, cents]) => {
+      if (cents !== 0) {
+        this.addIssue(report, 'error', 0, `Journal does not balance: debits and credits differ by ${this.formatCents(cents)}.`, docNo);
+      }
+    });
+
+    report.documentCount = Object.keys(balances).length;
+  }
+
+  private validateBills(doc: IIFDocument, report: ValidationReport) {
+    for (const txn of doc.transactions) {
+      if (!txn.trns) {
+        this.addIssue(report, 'error', txn.line, 'SPL row is not attached to a TRNS row.');
+        continue;
+      }
+      if (!this.isBillTransaction(txn)) {
+        this.addIssue(report, 'warning', txn.line, `${txn.trnsType} transaction is not a bill and will be skipped.`);
+        continue;
+      }
+      this.validateBlock(report, txn, 'Bill', this.apAccountOverrides, true);
+    }
+  }
+
+  private validateTransactions(doc: IIFDocument, report: ValidationReport, supportedTypes: Record<string, string>) {
+    const skipped: Record<string, number> = {};
+
+    for (const txn of doc.transactions) {
+      const txnType = txn.trnsType.toUpperCase() || 'UNTYPED';
+      if (!txn.trns || !supportedTypes[txnType]) {
+        skipped[txnType] = (skipped[txnType] || 0) + 1;
+        continue;
+      }
+      this.validateBlock(report, txn, 'Transaction', this.glAccountOverrides, false);
+    }
+
+    Object.entries(skipped).forEach(([txnType, count]) => {
+      this.addIssue(report, 'warning', 0, `${count} ${txnType} transaction(s) are not supported in this mode and will be skipped.`);
+    });
+  }
+
+  // A TRNS block balances when the TRNS amount and its SPL amounts sum to zero
+  private validateBlock(report: ValidationReport, txn: IIFTransaction, label: string, overrides: AccountMappingTable, isBill: boolean) {
+    const trns = txn.trns!;
+    const docNo = this.getVal(trns, 'DOCNUM');
+
+    if (!docNo) {
+      const fallback = isBill ? 'bill number will be blank' : 'the line number will be used instead';
+      this.addIssue(report, 'warning', trns.line, `Missing DOCNUM; ${fallback}.`);
+    }
+    if (!this.getVal(trns, 'DATE')) this.addIssue(report, 'error', trns.line, 'Missing DATE.', docNo);
+
+    if (isBill) {
+      if (!this.getVal(trns, 'NAME')) this.addIssue(report, 'error', trns.line, 'Missing vendor NAME.', docNo);
+    } else {
+      // The TRNS account (AR, bank...) is posted too outside of bill mode
+      this.checkAccount(report, trns.line, this.getVal(trns, 'ACCNT'), overrides, docNo);
+    }
+
+    const trnsCents = this.checkAmount(report, trns.line, this.getVal(trns, 'AMOUNT'), docNo) ?? 0;
+    let splCents = 0;
+
+    for (const split of txn.splits) {
+      const rawAccnt = this.getVal(split, 'ACCNT');
+      const splitCents = this.checkAmount(report, split.line, this.getVal(split, 'AMOUNT'), docNo) ?? 0;
+      // convertBills drops AP splits, so they don't count toward the bill QBO receives
+      if (isBill && rawAccnt === '0-201-0') {
+        if (splitCents !== 0) {
+          this.addIssue(report, 'warning', split.line, `AP split of ${this.formatCents(splitCents)} is not imported; QBO posts the AP side from the bill total.`, docNo);
+        }
+        continue;
+      }
+      this.checkAccount(report, split.line, rawAccnt, overrides, docNo);
+      splCents += splitCents;
+    }
+
+    if (trnsCents + splCents !== 0) {
+      this.addIssue(
+        report, 'error', trns.line,
+        `${label} does not balance: split lines total ${this.formatCents(splCents)} but TRNS amount is ${this.formatCents(-trnsCents)}.`,
+        docNo
+      );
+    }
+    report.documentCount++;
+  }
+
+  private checkAmount(report: ValidationReport, lineNo: number, rawAmount: string, docNo?: string): number | null {
+    const trimmed = rawAmount.trim();
+    const value = Number(trimmed);
+    if (trimmed === '' || isNaN(value)) {
+      this.addIssue(report, 'error', lineNo, `Unparseable AMOUNT "${rawAmount}".`, docNo);
+      return null;
+    }
+    return Math.round(value * 100);
+  }
+
+  private checkAccount(report: ValidationReport, lineNo: number, rawAccnt: string, overrides: Record<string, string>, docNo?: string) {
+    if (!rawAccnt) {
+      this.addIssue(report, 'error', lineNo, 'Missing ACCNT.', docNo);
+    } else if (overrides[rawAccnt] === undefined) {
+      this.addIssue(report, 'warning', lineNo, `Unknown account "${rawAccnt}" has no QBO mapping; it will be sent as-is.`, docNo);
+    }
+  }
+
+  private addIssue(report: ValidationReport, severity: ValidationSeverity, line: number, message: string, docNo?: string) {
+    const issue: ValidationIssue = { severity, line, message, docNo };
+    if (severity === 'error') {
+      report.errors.push(issue);
+    } else {
+      report.warnings.push(issue);
+    }
+  }
+
+  private formatCents(cents: number): string {
+    return (cents / 100).toFixed(2);
+  }
+
   // --- HELPERS ---
 
-  private getVal(parts: string[], map: Record<string, number>, colName: string): string {
-    const idx = map[colName];
-    if (idx !== undefined && idx < parts.length) {
-      return parts[idx];
+  // CPIIF-MMDDYY, falling back to the raw DOCNUM if the date is unusable
+  private buildJournalNo(rawDate: string, rawDocNum: string): string {
+    try {
+      const dateParts = rawDate.split('/');
+      if (dateParts.length === 3) {
+        const [mm, dd, yyyy] = dateParts;
+        const yy = yyyy.slice(-2);
+        return `CPIIF-${mm}${dd}${yy}`;
+      }
+      return `CPIIF-${rawDate.replace(/\//g, '')}`;
+    } catch (e) {
+      return rawDocNum;
     }
-    return "";
+  }
+
+  // Types converted by TXN/SALES mode never become bills, even in a mixed file
+  private isBillTransaction(txn: IIFTransaction): boolean {
+    const txnType = txn.trnsType.toUpperCase();
+    return !TXN_TYPE_PREFIXES[txnType] && !SALES_TXN_TYPES[txnType];
+  }
+
+  private getVal(record: IIFRecord, colName: string): string {
+    return record.fields[colName] ?? "";
   }
 
   private parseAmount(amountStr: string): { debitStr: string, creditStr: string } {
@@ -275,12 +540,27 @@ export class ConverterService {
     return { debitStr, creditStr };
   }
 
-  toCSV(data: QBOJournalEntry[], mode: ConversionMode = 'GL'): string {
+  /**
+   * SALES mode produces two QBO imports; `recordType` picks which one
+   * (rows of the other type are left out).
+   */
+  toCSV(data: QBOJournalEntry[], mode: ConversionMode = 'GL', recordType: SalesRecordType = 'SalesReceipt'): string {
     
     let fieldNames: string[] = [];
     let headers: string[] = [];
 
-    if (mode === 'AP') {
+    if (mode === 'SALES') {
+        data = data.filter(row => row.RecordType === recordType);
+        if (recordType === 'Deposit') {
+            // DEPOSIT FORMAT
+            headers = ["Deposit No", "Deposit Date", "Deposit To", "Received From", "From Account", "Line Amount", "Memo"];
+            fieldNames = ["JournalNo", "JournalDate", "DepositTo", "Name", "Account", "LineAmount", "Description"];
+        } else {
+            // SALES RECEIPT FORMAT
+            headers = ["Sales Receipt No", "Customer", "Sales Receipt Date", "Deposit To", "Product/Service", "Account", "Line Amount", "Line Description"];
+            fieldNames = ["JournalNo", "Name", "JournalDate", "DepositTo", "Item", "Account", "LineAmount", "Description"];
+        }
+    } else if (mode === 'AP') {
         // BILL IMPORT FORMAT
         // Headers must match QBO expectations exactly for easiest mapping
         headers = ["Bill no", "Supplier", "Bill Date", "Due Date", "Account", "Line Amount", "Line Description"];
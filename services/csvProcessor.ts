@@ -1,123 +1,88 @@
 
 import Papa from 'papaparse';
-import { ShopifyTransaction, ReportSummary, DailyGroup } from '../types';
+import { ShopifyTransaction, ReportSummary, DailyGroup, ReportingSettings, ReportSource, CsvPreview, FileImportPlan, SourceTotals, CurrencySettings, CurrencyTotals, ConversionRate } from '../types';
+import { getReportingDateKey, formatDateKey } from './reportingSettings';
+import { CsvRow, getProcessor } from './processors';
+import { hashText } from './fileHash';
+import { countsTowardTotals, isCountedCategory, summarizeByCategory } from './transactionCategories';
+import { DEFAULT_CURRENCY_SETTINGS, resolveConversionRates, toHomeCents } from './currency';
+
+const PREVIEW_ROWS = 5;
+
+// Reads just the header row and a few sample rows, to pick (or build) a column mapping
+export const readCsvPreview = (file: File): Promise<CsvPreview> => {
+  return new Promise((resolve, reject) => {
+    Papa.parse(file, {
+      header: true,
+      skipEmptyLines: true,
+      preview: PREVIEW_ROWS,
+      complete: (results) => {
+        resolve({
+          fileName: file.name,
+          headers: (results.meta.fields || []).filter(Boolean),
+          sampleRows: results.data as Record<string, string>[]
+        });
+      },
+      error: (error) => reject(error)
+    });
+  });
+};
 
 /**
  * Enhanced processor that treats the CSV as a ledger.
- * Supports multiple files and groups transactions by date.
+ * Supports multiple files (of mixed sources) and groups transactions by date. Each file is
+ * read by the processor of its detected source (plans are keyed by file name); Shopify files
+ * carry their column mapping from a saved import profile, the built-in layout, or the wizard.
  */
-export const parseShopifyCSV = (files: FileList | File[]): Promise<ReportSummary> => {
+export const parseTransactionCSV = (
+  files: FileList | File[],
+  plans: Record<string, FileImportPlan>,
+  settings: ReportingSettings,
+  currencySettings: CurrencySettings = DEFAULT_CURRENCY_SETTINGS
+): Promise<ReportSummary> => {
   return new Promise(async (resolve, reject) => {
     try {
       // Convert FileList to Array
       const fileArray = Array.from(files);
       const allTransactions: ShopifyTransaction[] = [];
       
-      // Use a global counter to ensure unique IDs across multiple files if order IDs clash
-      let globalEntryCounter = 0;
-
-      const parseFile = (file: File) => new Promise<void>((resolveFile, rejectFile) => {
-        Papa.parse(file, {
-          header: true,
-          skipEmptyLines: true,
-          complete: (results) => {
-            try {
-              const rawData = results.data as any[];
-
-              rawData.forEach((row) => {
-                const keys = Object.keys(row);
-                
-                // Date extraction logic
-                const dateValue = 
-                  row['Created at'] || 
-                  row['Date'] || 
-                  row['Processed at'] || 
-                  row['Occurred at'] || 
-                  row['Day'] || 
-                  (keys.length > 0 ? row[keys[0]] : null);
-                
-                const dateTime = dateValue || new Date().toISOString();
-
-                const orderId = row['Name'] || row['Order'] || row['Order ID'] || row['ID'] || `Line-${globalEntryCounter}`;
-                const rawAmount = row['Amount'] || row['Total'] || '0';
-                const amount = parseFloat(rawAmount.toString().replace(/[^0-9.-]+/g, ""));
-                
-                const rawFee = row['Fee'] || row['Fees'] || row['Transaction Fee'] || '0';
-                const fee = parseFloat(rawFee.toString().replace(/[^0-9.-]+/g, ""));
+      const parseFile = async (file: File) => {
+        const plan = plans[file.name];
+        if (!plan) {
+          throw new Error(`${file.name} wasn't recognized as any supported export.`);
+        }
+        const processor = getProcessor(plan.source);
 
-                const rawNet = row['Net'] || row['Net Amount'] || '0';
-                let net = parseFloat(rawNet.toString().replace(/[^0-9.-]+/g, ""));
-                
-                // If Net is 0 but we have Amount and Fee, calculate it.
-                // Assuming Fee is often negative in exports. If Fee is positive, we might need logic, 
-                // but usually Net = Amount + Fee (algebraic sum)
-                if (net === 0 && (amount !== 0 || fee !== 0)) {
-                    net = (Math.round(amount * 100) + Math.round(fee * 100)) / 100;
-                }
+        // The content hash identifies the file across sessions (verification state is keyed by it)
+        const text = await file.text();
+        const sourceFileHash = await hashText(text);
 
-                const status = row['Status'] || row['Financial Status'] || row['Type'] || 'Unknown';
-                const customer = row['Billing Name'] || row['Customer'] || row['Source'] || 'Internal/Guest';
-                const currency = row['Currency'] || 'USD';
-                
-                const cardBrand = row['Card Brand'] || row['Brand'] || row['Payment Method'] || row['Card'] || 'N/A';
+        const results = Papa.parse<CsvRow>(text, { header: true, skipEmptyLines: true });
+        const headers = results.meta.fields || [];
+        // Shopify layouts the built-in detection misses are covered by their mapping
+        if (!processor.detect(headers) && !plan.columnMapping) {
+          throw new Error(`${file.name} doesn't look like a ${processor.label} export.`);
+        }
 
-                if (!isNaN(amount)) {
-                  allTransactions.push({
-                    id: `${orderId}-${globalEntryCounter}`,
-                    orderNumber: orderId,
-                    dateTime: dateTime,
-                    customerName: customer,
-                    amount: amount,
-                    fee: fee,
-                    net: net,
-                    type: status,
-                    cardBrand: cardBrand,
-                    currency: currency,
-                    sourceFile: file.name
-                  });
-                  globalEntryCounter++;
-                }
-              });
-              resolveFile();
-            } catch (err) {
-              rejectFile(err);
-            }
-          },
-          error: (error) => rejectFile(error)
+        // Ids use the row's position in its own file, so reloading the same file gives the same ids
+        results.data.forEach((row, rowIndex) => {
+          if (processor.isExcluded(row)) return;
+
+          const transaction = processor.mapRow(row, {
+            sourceFile: file.name,
+            entryIndex: rowIndex,
+            columnMapping: plan.columnMapping
+          });
+          if (transaction) {
+            allTransactions.push({ ...transaction, sourceFileHash });
+          }
         });
-      });
+      };
 
       // Process all files
       await Promise.all(fileArray.map(parseFile));
 
-      // Sort all transactions chronologically (newest to oldest)
-      allTransactions.sort((a, b) => new Date(b.dateTime).getTime() - new Date(a.dateTime).getTime());
-
-      // Group by Date using the 4:00 PM Reporting Rule
-      const dailyGroups = groupTransactionsByDate(allTransactions);
-
-      const totalAmount = allTransactions.reduce((sum, t) => sum + Math.round(t.amount * 100), 0) / 100;
-      const totalFees = allTransactions.reduce((sum, t) => sum + Math.round(t.fee * 100), 0) / 100;
-      const totalNet = allTransactions.reduce((sum, t) => sum + Math.round(t.net * 100), 0) / 100;
-      
-      // Calculate Date Range based on Reporting Dates
-      let dateRange = new Date().toLocaleDateString();
-      if (dailyGroups.length > 0) {
-        const newest = dailyGroups[0].date;
-        const oldest = dailyGroups[dailyGroups.length - 1].date;
-        
-        dateRange = oldest === newest ? oldest : `${oldest} - ${newest}`;
-      }
-
-      resolve({
-        dateRange,
-        totalAmount,
-        totalFees,
-        totalNet,
-        transactionCount: allTransactions.length,
-        dailyGroups,
-        allTransactions
-      });
+      resolve(buildReportSummary(allTransactions, settings, currencySettings));
 
     } catch (error) {
       reject(error);
@@ -125,156 +90,171 @@ export const parseShopifyCSV = (files: FileList | File[]): Promise<ReportSummary
   });
 };
 
-export const parsePaypalCSV = (files: FileList | File[]): Promise<ReportSummary> => {
-  return new Promise(async (resolve, reject) => {
-    try {
-      const fileArray = Array.from(files);
-      const allTransactions: ShopifyTransaction[] = [];
-      let globalEntryCounter = 0;
-
-      const parseFile = (file: File) => new Promise<void>((resolveFile, rejectFile) => {
-        Papa.parse(file, {
-          header: true,
-          skipEmptyLines: true,
-          complete: (results) => {
-            try {
-              const rawData = results.data as any[];
-
-              rawData.forEach((row) => {
-                // PayPal Format: "Date", "Time", "Name", "Gross", "Fee", "Net", "Transaction ID", "Type"
-                const dateStr = row['Date'];
-                const timeStr = row['Time'];
-                
-                if (!dateStr || !timeStr) return; // Skip invalid rows
-
-                const type = row['Type'] || 'Unknown';
-
-                // EXCLUSIONS: Skip specific withdrawal types to ensure end-of-day balancing
-                if (type === 'General Withdrawal' || type === 'User Initiated Withdrawal') return;
-
-                const dateTime = `${dateStr} ${timeStr}`; // "MM/DD/YYYY HH:mm:ss"
-
-                const orderId = row['Transaction ID'] || `PP-${globalEntryCounter}`;
-                
-                // Helper to clean currency strings
-                const cleanFloat = (val: any) => {
-                    if (!val) return 0;
-                    return parseFloat(val.toString().replace(/[^0-9.-]+/g, ""));
-                }
-
-                const amount = cleanFloat(row['Gross']);
-                const fee = cleanFloat(row['Fee']);
-                const net = cleanFloat(row['Net']);
-                
-                const customer = row['Name'] || 'Unknown';
-                const currency = row['Currency'] || 'USD';
-                
-                // Filter out empty entries if any (sometimes PayPal exports summary rows)
-                if (amount === 0 && fee === 0 && net === 0) return;
+/**
+ * Sorts, groups and totals parsed transactions. Also used to re-group an existing
+ * report when the reporting or currency settings change.
+ */
+export const buildReportSummary = (
+  transactions: ShopifyTransaction[],
+  settings: ReportingSettings,
+  currencySettings: CurrencySettings = DEFAULT_CURRENCY_SETTINGS
+): ReportSummary => {
+  // Totals are in the home currency. A report in a single foreign currency that can't be converted
+  // (conversion off, or no rate for it) is totalled in its own currency instead.
+  const currencies = Array.from(new Set(transactions.map(t => t.currency)));
+  const homeRates = resolveConversionRates(transactions, currencySettings);
+  const isUnconvertible = currencies.length === 1 && currencies[0] !== currencySettings.homeCurrency && !homeRates[currencies[0]];
+  const homeCurrency = isUnconvertible ? currencies[0] : currencySettings.homeCurrency;
+  const effectiveSettings = { ...currencySettings, homeCurrency };
+  const conversionRates = isUnconvertible ? {} : homeRates;
+
+  // Foreign transactions carry the rate into the home currency; null leaves them out of the totals
+  const allTransactions = transactions.map(t => ({
+    ...t,
+    homeRate: t.currency === homeCurrency ? 1 : conversionRates[t.currency]?.rate ?? null
+  }));
+
+  // Sort all transactions chronologically (newest to oldest)
+  allTransactions.sort((a, b) => new Date(b.dateTime).getTime() - new Date(a.dateTime).getTime());
+
+  // Group by reporting day (cutoff time, store timezone, roll-forward days)
+  const dailyGroups = groupTransactionsByDate(allTransactions, settings, homeCurrency);
+
+  return summarizeDailyGroups(allTransactions, dailyGroups, settings, effectiveSettings, conversionRates);
+};
 
-                allTransactions.push({
-                    id: `${orderId}-${globalEntryCounter}`,
-                    orderNumber: orderId,
-                    dateTime: dateTime,
-                    customerName: customer,
-                    amount: amount,
-                    fee: fee,
-                    net: net,
-                    type: type,
-                    cardBrand: 'PayPal', // PayPal doesn't expose card brand in this CSV
-                    currency: currency,
-                    sourceFile: file.name
-                });
-                globalEntryCounter++;
-              });
-              resolveFile();
-            } catch (err) {
-              rejectFile(err);
-            }
-          },
-          error: (error) => rejectFile(error)
-        });
-      });
+/**
+ * Report-level totals over already grouped transactions. Filtered ledgers reuse the full
+ * report's days, settings and rates through this instead of grouping again.
+ */
+export const summarizeDailyGroups = (
+  allTransactions: ShopifyTransaction[],
+  dailyGroups: DailyGroup[],
+  settings: ReportingSettings,
+  currencySettings: CurrencySettings,
+  conversionRates: Record<string, ConversionRate>
+): ReportSummary => {
+  // Payouts, conversions and failed captures are listed but don't add to the totals
+  const counted = allTransactions.filter(countsTowardTotals).map(toHomeCents);
+  const totalAmount = counted.reduce((sum, t) => sum + t.amount, 0) / 100;
+  const totalFees = counted.reduce((sum, t) => sum + t.fee, 0) / 100;
+  const totalNet = counted.reduce((sum, t) => sum + t.net, 0) / 100;
+
+  // Calculate Date Range based on Reporting Dates
+  let dateRange = new Date().toLocaleDateString();
+  const datedGroups = dailyGroups.filter(g => g.dateKey !== '').sort((a, b) => b.dateKey.localeCompare(a.dateKey));
+  if (datedGroups.length > 0) {
+    const newest = datedGroups[0].date;
+    const oldest = datedGroups[datedGroups.length - 1].date;
+
+    dateRange = oldest === newest ? oldest : `${oldest} - ${newest}`;
+  }
+
+  return {
+    dateRange,
+    totalAmount,
+    totalFees,
+    totalNet,
+    transactionCount: allTransactions.length,
+    dailyGroups,
+    allTransactions,
+    sourceTotals: summarizeBySource(allTransactions),
+    categoryTotals: summarizeByCategory(allTransactions),
+    currencyTotals: summarizeByCurrency(allTransactions, currencySettings.homeCurrency),
+    reportingSettings: settings,
+    currencySettings,
+    conversionRates
+  };
+};
 
-      await Promise.all(fileArray.map(parseFile));
+// Transactions whose date can't be read are collected under this group, listed last
+const UNDATED_GROUP_LABEL = 'Unknown Date';
 
-      // Sort
-      allTransactions.sort((a, b) => new Date(b.dateTime).getTime() - new Date(a.dateTime).getTime());
+// Expects transactions sorted newest first; groups come out newest reporting day first
+const groupTransactionsByDate = (transactions: ShopifyTransaction[], settings: ReportingSettings, homeCurrency: string): DailyGroup[] => {
+    const transactionsByKey: Record<string, ShopifyTransaction[]> = {};
 
-      // Group
-      const dailyGroups = groupTransactionsByDate(allTransactions);
+    transactions.forEach(t => {
+      const dateKey = getReportingDateKey(t.dateTime, settings) ?? '';
+      (transactionsByKey[dateKey] ??= []).push(t);
+    });
 
-      // Totals
-      const totalAmount = allTransactions.reduce((sum, t) => sum + Math.round(t.amount * 100), 0) / 100;
-      const totalFees = allTransactions.reduce((sum, t) => sum + Math.round(t.fee * 100), 0) / 100;
-      const totalNet = allTransactions.reduce((sum, t) => sum + Math.round(t.net * 100), 0) / 100;
-      
-      let dateRange = new Date().toLocaleDateString();
-      if (dailyGroups.length > 0) {
-        const newest = dailyGroups[0].date;
-        const oldest = dailyGroups[dailyGroups.length - 1].date;
-        dateRange = oldest === newest ? oldest : `${oldest} - ${newest}`;
-      }
+    // YYYY-MM-DD keys sort as text; the undated group ('') ends up last
+    return Object.keys(transactionsByKey)
+      .sort((a, b) => b.localeCompare(a))
+      .map(dateKey => buildDailyGroup(dateKey, transactionsByKey[dateKey], homeCurrency));
+};
 
-      resolve({
-        dateRange,
-        totalAmount,
-        totalFees,
-        totalNet,
-        transactionCount: allTransactions.length,
-        dailyGroups,
-        allTransactions
-      });
+// One reporting day with its cent-exact subtotals; every transaction is listed and counted in
+// `count`, but only those that count toward the totals are added up
+export const buildDailyGroup = (dateKey: string, transactions: ShopifyTransaction[], homeCurrency: string): DailyGroup => {
+  const counted = transactions.filter(countsTowardTotals).map(toHomeCents);
+  return {
+    date: dateKey ? formatDateKey(dateKey) : UNDATED_GROUP_LABEL,
+    dateKey,
+    transactions,
+    sourceTotals: summarizeBySource(transactions),
+    categoryTotals: summarizeByCategory(transactions),
+    currencyTotals: summarizeByCurrency(transactions, homeCurrency),
+    subtotal: counted.reduce((sum, t) => sum + t.amount, 0) / 100,
+    subtotalFees: counted.reduce((sum, t) => sum + t.fee, 0) / 100,
+    subtotalNet: counted.reduce((sum, t) => sum + t.net, 0) / 100,
+    count: transactions.length
+  };
+};
 
-    } catch (error) {
-        reject(error);
-    }
+// Per-source count and cent-exact home-currency totals, largest gross first. Every source present gets an
+// entry, but only transactions that count toward the totals are added up
+export const summarizeBySource = (transactions: ShopifyTransaction[]): SourceTotals[] => {
+  const cents: Record<string, { count: number, amount: number, fees: number, net: number }> = {};
+
+  transactions.forEach(t => {
+    const totals = cents[t.source] ??= { count: 0, amount: 0, fees: 0, net: 0 };
+    if (!countsTowardTotals(t)) return;
+    const home = toHomeCents(t);
+    totals.count += 1;
+    totals.amount += home.amount;
+    totals.fees += home.fee;
+    totals.net += home.net;
   });
-};
 
-const groupTransactionsByDate = (transactions: ShopifyTransaction[]): DailyGroup[] => {
-    const dailyGroups: DailyGroup[] = [];
-    
-    const getReportingDateString = (isoString: string): string => {
-      const date = new Date(isoString);
-      // Rule: 4:00 PM (16:00) and later belongs to the next reporting day
-      if (date.getHours() >= 16) {
-        date.setDate(date.getDate() + 1);
-      }
-      return date.toLocaleDateString();
-    };
+  return Object.entries(cents)
+    .map(([source, totals]) => ({
+      source: source as ReportSource,
+      count: totals.count,
+      amount: totals.amount / 100,
+      fees: totals.fees / 100,
+      net: totals.net / 100
+    }))
+    .sort((a, b) => b.amount - a.amount);
+};
 
-    if (transactions.length > 0) {
-      let currentGroup: DailyGroup | null = null;
+// Per-currency count and cent-exact totals in each currency's own units, home currency first.
+// Unlike the home totals these include amounts that have no rate
+export const summarizeByCurrency = (transactions: ShopifyTransaction[], homeCurrency: string): CurrencyTotals[] => {
+  const cents: Record<string, { count: number, amount: number, fees: number, net: number, homeRate: number | null }> = {};
+
+  transactions.forEach(t => {
+    const totals = cents[t.currency] ??= { count: 0, amount: 0, fees: 0, net: 0, homeRate: t.homeRate ?? null };
+    if (!isCountedCategory(t.category)) return;
+    totals.count += 1;
+    totals.amount += Math.round(t.amount * 100);
+    totals.fees += Math.round(t.fee * 100);
+    totals.net += Math.round(t.net * 100);
+  });
 
-      transactions.forEach(t => {
-        const tDate = getReportingDateString(t.dateTime);
-        
-        if (!currentGroup || currentGroup.date !== tDate) {
-          if (currentGroup) {
-            dailyGroups.push(currentGroup);
-          }
-          currentGroup = {
-            date: tDate,
-            transactions: [],
-            subtotal: 0,
-            subtotalFees: 0,
-            subtotalNet: 0,
-            count: 0
-          };
-        }
-        
-        currentGroup.transactions.push(t);
-        
-        currentGroup.subtotal = (Math.round(currentGroup.subtotal * 100) + Math.round(t.amount * 100)) / 100;
-        currentGroup.subtotalFees = (Math.round(currentGroup.subtotalFees * 100) + Math.round(t.fee * 100)) / 100;
-        currentGroup.subtotalNet = (Math.round(currentGroup.subtotalNet * 100) + Math.round(t.net * 100)) / 100;
-        currentGroup.count += 1;
-      });
-      
-      if (currentGroup) {
-        dailyGroups.push(currentGroup);
-      }
-    }
-    return dailyGroups;
+  return Object.keys(cents)
+    .map(currency => ({
+      currency,
+      count: cents[currency].count,
+      amount: cents[currency].amount / 100,
+      fees: cents[currency].fees / 100,
+      net: cents[currency].net / 100,
+      homeRate: cents[currency].homeRate
+    }))
+    .sort((a, b) => {
+      if (a.currency === homeCurrency) return -1;
+      if (b.currency === homeCurrency) return 1;
+      return a.currency.localeCompare(b.currency);
+    });
 };
@@ -0,0 +1,172 @@
+import Papa from 'papaparse';
+import { ConversionRate, CurrencySettings, ShopifyTransaction } from '../types';
+import { ipcRenderer } from './ipc';
+
+/**
+ * Currency handling for reports. Transactions keep their original amounts and currency;
+ * totals are in the home currency, with foreign amounts converted at PayPal's own conversion
+ * rate when the export has one, otherwise at the user's rate table.
+ */
+
+export const DEFAULT_CURRENCY_SETTINGS: CurrencySettings = {
+  homeCurrency: 'USD',
+  convertToHome: true,
+  rates: {}
+};
+
+const formatterCache: Record<string, Intl.NumberFormat> = {};
+
+export const isValidCurrency = (currency: string): boolean => {
+  if (!/^[A-Z]{3}$/.test(currency)) return false;
+  try {
+    new Intl.NumberFormat('en-US', { style: 'currency', currency });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// "$1,234.50", "CA$12.00", "€9.99"; unknown codes fall back to "12.00 XYZ"
+export const formatMoney = (amount: number, currency: string, display: 'symbol' | 'code' = 'symbol'): string => {
+  const key = `${currency}|${display}`;
+  try {
+    formatterCache[key] ??= new Intl.NumberFormat('en-US', { style: 'currency', currency, currencyDisplay: display });
+    return formatterCache[key].format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+};
+
+// jsPDF's built-in fonts only cover plain ASCII reliably: "$12.00" stays, "€9.99" becomes "EUR 9.99"
+export const formatMoneyForPdf = (amount: number, currency: string): string => {
+  const formatted = formatMoney(amount, currency);
+  if (/^[\x20-\x7E]*$/.test(formatted)) return formatted;
+  return formatMoney(amount, currency, 'code').replace(/ /g, ' ');
+};
+
+/**
+ * Amount, fee and net of a transaction in home-currency cents. A converted transaction whose
+ * amount + fee = net in its own currency keeps that identity after rounding, so daily journals
+ * still balance.
+ */
+export const toHomeCents = (t: ShopifyTransaction): { amount: number, fee: number, net: number } => {
+  const rate = t.homeRate ?? 1;
+  if (rate === 1) {
+    return { amount: Math.round(t.amount * 100), fee: Math.round(t.fee * 100), net: Math.round(t.net * 100) };
+  }
+  const amount = Math.round(t.amount * rate * 100);
+  const fee = Math.round(t.fee * rate * 100);
+  const balanced = Math.round(t.amount * 100) + Math.round(t.fee * 100) === Math.round(t.net * 100);
+  return { amount, fee, net: balanced ? amount + fee : Math.round(t.net * rate * 100) };
+};
+
+/**
+ * Rates implied by PayPal's "General Currency Conversion" rows: each conversion is a pair of
+ * rows at the same time, one taking the foreign amount out and one putting the home amount in.
+ * Several conversions of one currency give their amount-weighted average.
+ */
+export const derivePayPalRates = (transactions: ShopifyTransaction[], homeCurrency: string): Record<string, number> => {
+  const pairs: Record<string, ShopifyTransaction[]> = {};
+  transactions
+    .filter(t => t.source === 'PAYPAL' && t.category === 'CONVERSION')
+    .forEach(t => {
+      const key = `${t.sourceFile}|${t.dateTime}`;
+      (pairs[key] ??= []).push(t);
+    });
+
+  const sums: Record<string, { home: number, foreign: number }> = {};
+  Object.keys(pairs).forEach(key => {
+    const rows = pairs[key];
+    const home = rows.filter(t => t.currency === homeCurrency);
+    const foreignCurrencies = Array.from(new Set(rows.filter(t => t.currency !== homeCurrency).map(t => t.currency)));
+    // Only a clean home <-> one foreign currency pair says anything about the rate
+    if (home.length === 0 || foreignCurrencies.length !== 1) return;
+
+    const currency = foreignCurrencies[0];
+    const homeAmount = Math.abs(home.reduce((sum, t) => sum + t.amount, 0));
+    const foreignAmount = Math.abs(rows.filter(t => t.currency === currency).reduce((sum, t) => sum + t.amount, 0));
+    if (homeAmount === 0 || foreignAmount === 0) return;
+
+    const totals = sums[currency] ??= { home: 0, foreign: 0 };
+    totals.home += homeAmount;
+    totals.foreign += foreignAmount;
+  });
+
+  const rates: Record<string, number> = {};
+  Object.keys(sums).forEach(currency => { rates[currency] = sums[currency].home / sums[currency].foreign; });
+  return rates;
+};
+
+// Rate for every foreign currency in the report that has one; PayPal's actual rates win over the table
+export const resolveConversionRates = (transactions: ShopifyTransaction[], settings: CurrencySettings): Record<string, ConversionRate> => {
+  const rates: Record<string, ConversionRate> = {};
+  if (!settings.convertToHome) return rates;
+
+  const paypalRates = derivePayPalRates(transactions, settings.homeCurrency);
+  const currencies = new Set(transactions.map(t => t.currency).filter(c => c !== settings.homeCurrency));
+  currencies.forEach(currency => {
+    if (paypalRates[currency]) {
+      rates[currency] = { rate: paypalRates[currency], source: 'paypal' };
+    } else if (settings.rates[currency] > 0) {
+      rates[currency] = { rate: settings.rates[currency], source: 'table' };
+    }
+  });
+  return rates;
+};
+
+/**
+ * Reads a rate table CSV with "Currency" and "Rate" columns (home currency units per unit).
+ * Header names are matched case-insensitively.
+ */
+export const parseRateTable = (text: string): Record<string, number> => {
+  const results = Papa.parse<Record<string, string>>(text, { header: true, skipEmptyLines: true });
+  const headers = results.meta.fields || [];
+  const currencyHeader = headers.find(h => h.trim().toLowerCase() === 'currency');
+  const rateHeader = headers.find(h => h.trim().toLowerCase() === 'rate');
+  if (!currencyHeader || !rateHeader) {
+    throw new Error('Invalid rate table: expected "Currency" and "Rate" columns.');
+  }
+
+  const rates: Record<string, number> = {};
+  results.data.forEach((row, index) => {
+    const currency = (row[currencyHeader] || '').trim().toUpperCase();
+    const rate = parseFloat(row[rateHeader] || '');
+    if (!isValidCurrency(currency)) {
+      throw new Error(`Invalid rate table: row ${index + 2} has unknown currency "${row[currencyHeader]}".`);
+    }
+    if (!(rate > 0)) {
+      throw new Error(`Invalid rate table: row ${index + 2} needs a rate above zero.`);
+    }
+    rates[currency] = rate;
+  });
+  return rates;
+};
+
+export const validateCurrencySettings = (settings: CurrencySettings): CurrencySettings => {
+  const homeCurrency = settings.homeCurrency.trim().toUpperCase();
+  if (!isValidCurrency(homeCurrency)) {
+    throw new Error(`"${settings.homeCurrency}" isn't a currency code (e.g. USD, CAD, EUR).`);
+  }
+  const rates: Record<string, number> = {};
+  Object.keys(settings.rates).forEach(code => {
+    const currency = code.trim().toUpperCase();
+    if (!isValidCurrency(currency)) throw new Error(`"${code}" isn't a currency code.`);
+    if (!(settings.rates[code] > 0)) throw new Error(`The ${currency} rate must be above zero.`);
+    if (currency !== homeCurrency) rates[currency] = settings.rates[code];
+  });
+  return { homeCurrency, convertToHome: settings.convertToHome, rates };
+};
+
+// Saved settings, falling back to the defaults outside Electron or when none are saved
+export const loadCurrencySettings = async (): Promise<CurrencySettings> => {
+  const res = await ipcRenderer.invoke('settings:get-currency');
+  if (!res?.success || !res.settings) return DEFAULT_CURRENCY_SETTINGS;
+  return { ...DEFAULT_CURRENCY_SETTINGS, ...res.settings };
+};
+
+export const saveCurrencySettings = async (settings: CurrencySettings): Promise<void> => {
+  const res = await ipcRenderer.invoke('settings:save-currency', { settings: validateCurrencySettings(settings) });
+  if (res && !res.success) {
+    throw new Error(res.error);
+  }
+};
@@ -0,0 +1,165 @@
+import { DailyGroup, JournalAccounts, ReportSummary } from '../types';
+import { QBOJournalEntry, ValidationIssue, ValidationReport } from './converter.service';
+import { getReportLabels } from './processors';
+import { countsTowardTotals, isCountedCategory } from './transactionCategories';
+import { ipcRenderer } from './ipc';
+import { formatMoney, toHomeCents } from './currency';
+
+/**
+ * Builds one QBO journal per reporting day from the report's daily totals, in the same
+ * QBOJournalEntry (GL) rows the IIF converter produces, so they export and sync the same way.
+ *
+ *   Dr Clearing  net        Dr Merchant fees  fees
+ *   Dr Refunds   refunds    Cr Sales          gross sales
+ */
+
+export const DEFAULT_JOURNAL_ACCOUNTS: JournalAccounts = {
+  sales: '0-401-0 SALES',
+  fees: 'Bank Charges & Fees',
+  refunds: '0-490-0 SALES RETURNS AND ALLOWANCES',
+  clearing: '0-122-0 WEB CC'
+};
+
+export const JOURNAL_ACCOUNT_FIELDS: { field: keyof JournalAccounts, label: string }[] = [
+  { field: 'sales', label: 'Sales' },
+  { field: 'fees', label: 'Merchant Fees' },
+  { field: 'refunds', label: 'Refunds' },
+  { field: 'clearing', label: 'Clearing' }
+];
+
+export interface DailyJournalBatch {
+  fileName: string;  // Stands in for the source file name in exports and the sync history
+  entries: QBOJournalEntry[];
+  validation: ValidationReport;
+}
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+// 2024-01-05 -> 01/05/2024, the JournalDate form QBO imports and qb:sync read
+const toJournalDate = (dateKey: string): string => {
+  const [year, month, day] = dateKey.split('-');
+  return `${month}/${day}/${year}`;
+};
+
+const buildDayJournal = (group: DailyGroup, journalNo: string, label: string, accounts: JournalAccounts): { entries: QBOJournalEntry[], balanceCents: number } => {
+  // subtotal is sales less refunds (and chargebacks); the journal shows them on their own lines
+  const counted = group.transactions.filter(countsTowardTotals);
+  const salesCents = counted.reduce((sum, t) => sum + Math.max(toHomeCents(t).amount, 0), 0);
+  const refundCents = counted.reduce((sum, t) => sum + Math.max(-toHomeCents(t).amount, 0), 0);
+  // Fees are negative (amount + fee = net), so a normal day debits the fee account
+  const feeCents = -toCents(group.subtotalFees);
+  const netCents = toCents(group.subtotalNet);
+
+  // Positive cents are debits, negative credits; empty lines are left out
+  const lines: [string, string, number][] = [
+    [accounts.clearing, `${label} net to clearing`, netCents],
+    [accounts.fees, `${label} merchant fees`, feeCents],
+    [accounts.refunds, `${label} refunds`, refundCents],
+    [accounts.sales, `${label} sales`, -salesCents]
+  ];
+
+  const entries = lines
+    .filter(([, , cents]) => cents !== 0)
+    .map(([account, description, cents]) => ({
+      JournalNo: journalNo,
+      JournalDate: toJournalDate(group.dateKey),
+      Description: `${description} ${group.date}`,
+      Account: account,
+      Debit: cents > 0 ? (cents / 100).toFixed(2) : '',
+      Credit: cents < 0 ? (-cents / 100).toFixed(2) : '',
+      Name: ''
+    }));
+
+  return { entries, balanceCents: lines.reduce((sum, [, , cents]) => sum + cents, 0) };
+};
+
+// Counted amounts with no rate into the home currency, per currency; they are not in the day's totals
+const getUnconvertedAmounts = (group: DailyGroup): string[] => {
+  const cents: Record<string, number> = {};
+  group.transactions
+    .filter(t => isCountedCategory(t.category) && t.homeRate === null)
+    .forEach(t => { cents[t.currency] = (cents[t.currency] ?? 0) + toCents(t.amount); });
+  return Object.keys(cents).sort().map(currency => formatMoney(cents[currency] / 100, currency));
+};
+
+/**
+ * `homeCurrency` is the company's configured home currency, the one its QBO books are kept in.
+ * A single-currency report is only totalled in another currency when it has no rate into the
+ * home currency, and then it can't be posted.
+ */
+export const buildDailyJournals = (summary: ReportSummary, accounts: JournalAccounts, homeCurrency: string): DailyJournalBatch => {
+  const { label, journalPrefix } = getReportLabels(summary.sourceTotals.map(t => t.source));
+  const reportCurrency = summary.currencySettings.homeCurrency;
+  const errors: ValidationIssue[] = [];
+  const warnings: ValidationIssue[] = [];
+  const entries: QBOJournalEntry[] = [];
+  let documentCount = 0;
+
+  const missingAccounts = JOURNAL_ACCOUNT_FIELDS.filter(({ field }) => !accounts[field].trim());
+  missingAccounts.forEach(({ label: accountLabel }) => {
+    errors.push({ severity: 'error', line: 0, message: `No QBO account set for ${accountLabel}.` });
+  });
+
+  if (reportCurrency !== homeCurrency) {
+    errors.push({
+      severity: 'error',
+      line: 0,
+      message: `${reportCurrency} amounts not converted to ${homeCurrency}: add a rate in the currency settings (with conversion to the home currency on).`
+    });
+  }
+
+  // Oldest day first, like the journals would be keyed in by hand
+  [...summary.dailyGroups].reverse().forEach(group => {
+    if (!group.dateKey) {
+      warnings.push({ severity: 'warning', line: 0, message: `${group.count} transaction(s) without a date were left out.` });
+      return;
+    }
+
+    const journalNo = `${journalPrefix}-${group.dateKey.replace(/-/g, '')}`;
+    // Left out of the totals, so the journal would silently understate the day
+    const unconverted = getUnconvertedAmounts(group);
+    if (unconverted.length > 0) {
+      errors.push({
+        severity: 'error',
+        line: 0,
+        docNo: journalNo,
+        message: `${unconverted.join(', ')} not converted to ${reportCurrency}: add a rate in the currency settings.`
+      });
+    }
+
+    const journal = buildDayJournal(group, journalNo, label, accounts);
+    if (journal.entries.length === 0) {
+      warnings.push({ severity: 'warning', line: 0, docNo: journalNo, message: 'Nothing to post: the day nets to zero.' });
+      return;
+    }
+    // Only happens when an export's net column disagrees with its gross and fee columns
+    if (journal.balanceCents !== 0) {
+      errors.push({
+        severity: 'error',
+        line: 0,
+        docNo: journalNo,
+        message: `Out of balance by ${formatMoney(Math.abs(journal.balanceCents) / 100, reportCurrency)}: gross + fees doesn't equal net for this day.`
+      });
+    }
+
+    entries.push(...journal.entries);
+    documentCount++;
+  });
+
+  const fileName = `${journalPrefix}-Journals-${summary.dateRange.replace(/[^a-z0-9]+/gi, '-')}.csv`;
+  return { fileName, entries, validation: { errors, warnings, documentCount } };
+};
+
+// Saved accounts of the active company, falling back to the defaults outside Electron or when none are saved
+export const loadJournalAccounts = async (): Promise<JournalAccounts> => {
+  const res = await ipcRenderer.invoke('journal-accounts:get');
+  if (!res?.success || !res.accounts) return DEFAULT_JOURNAL_ACCOUNTS;
+  return { ...DEFAULT_JOURNAL_ACCOUNTS, ...res.accounts };
+};
+
+export const saveJournalAccounts = async (accounts: JournalAccounts): Promise<void> => {
+  const res = await ipcRenderer.invoke('journal-accounts:save', { accounts });
+  if (res && !res.success) {
+    throw new Error(res.error);
+  }
+};
@@ -0,0 +1,24 @@
+/**
+ * Triggers a browser download for generated text content (CSV, JSON, IIF...).
+ */
+export const downloadTextFile = (content: string, fileName: string, mimeType = 'text/plain;charset=utf-8;') => {
+  downloadBlob(new Blob([content], { type: mimeType }), fileName);
+};
+
+// Same for generated binary files (XLSX workbooks)
+export const downloadBinaryFile = (content: Uint8Array<ArrayBuffer>, fileName: string, mimeType: string) => {
+  downloadBlob(new Blob([content], { type: mimeType }), fileName);
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', fileName);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
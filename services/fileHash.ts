@@ -0,0 +1,11 @@
+/**
+ * SHA-256 of a file's text content, hex encoded.
+ * Used to recognise the same source file across runs and sessions.
+ */
+export const hashText = async (text: string): Promise<string> => {
+  const bytes = new TextEncoder().encode(text);
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+};
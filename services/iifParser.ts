@@ -0,0 +1,159 @@
+/**
+ * IIF (Intuit Interchange Format) parser.
+ *
+ * An IIF file is tab-delimited. Rows starting with "!" define the column
+ * headers for a record type (and may be redefined later in the file);
+ * every other row is a record of the type named in its first column.
+ * Transactions are TRNS + SPL... + ENDTRNS blocks; everything else
+ * (ACCNT, VEND, CUST, INVITEM, ...) is a list record.
+ */
+
+export interface IIFRecord {
+  type: string;   // TRNS, SPL, ACCNT, VEND...
+  line: number;   // 1-based line in the source file
+  fields: Record<string, string>;
+}
+
+export interface IIFTransaction {
+  trnsType: string;         // TRNSTYPE of the TRNS row (BILL, INVOICE, GENERAL JOURNAL...)
+  line: number;
+  trns: IIFRecord | null;   // null for split-only blocks (e.g. Counterpoint GL exports)
+  splits: IIFRecord[];
+  closed: boolean;          // true once ENDTRNS was seen
+}
+
+export interface IIFParseError {
+  line: number;
+  message: string;
+}
+
+export interface IIFDocument {
+  transactions: IIFTransaction[];
+  lists: Record<string, IIFRecord[]>;
+  headers: Record<string, string[]>;  // Last header definition seen per record type
+  errors: IIFParseError[];
+}
+
+/**
+ * Splits one IIF line into fields. Fields are tab-separated and may be
+ * wrapped in double quotes, with "" as an escaped quote inside.
+ */
+export const tokenizeLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  let wasQuoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+
+    if (inQuotes) {
+      if (ch === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        current += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' && current === '' && !wasQuoted) {
+      inQuotes = true;
+      wasQuoted = true;
+    } else if (ch === '\t') {
+      fields.push(wasQuoted ? current : current.trim());
+      current = '';
+      wasQuoted = false;
+    } else {
+      current += ch;
+    }
+  }
+
+  fields.push(wasQuoted ? current : current.trim());
+  return fields;
+};
+
+export const parseIIF = (text: string): IIFDocument => {
+  const doc: IIFDocument = { transactions: [], lists: {}, headers: {}, errors: [] };
+  const lines = text.split(/\r?\n/);
+
+  let openTransaction: IIFTransaction | null = null;
+
+  // Ends the current block; a TRNS block that never saw ENDTRNS is reported
+  const closeOpenTransaction = () => {
+    if (openTransaction && openTransaction.trns && !openTransaction.closed) {
+      doc.errors.push({ line: openTransaction.line, message: 'Transaction is missing its ENDTRNS row.' });
+    }
+    openTransaction = null;
+  };
+
+  lines.forEach((rawLine, index) => {
+    const lineNo = index + 1;
+    if (rawLine.trim() === '') return;
+
+    const tokens = tokenizeLine(rawLine);
+    const recordType = tokens[0].toUpperCase();
+
+    // Header definitions (may redefine an earlier header)
+    if (recordType.startsWith('!')) {
+      doc.headers[recordType.slice(1)] = tokens.map(t => t.trim());
+      return;
+    }
+
+    if (recordType === 'ENDTRNS') {
+      const current: IIFTransaction | null = openTransaction;
+      if (!current || !current.trns) {
+        doc.errors.push({ line: lineNo, message: 'ENDTRNS without a matching TRNS row.' });
+      } else {
+        current.closed = true;
+      }
+      closeOpenTransaction();
+      return;
+    }
+
+    const header = doc.headers[recordType];
+    if (!header) {
+      doc.errors.push({ line: lineNo, message: `${recordType} row found before any '!${recordType}' header.` });
+      return;
+    }
+
+    // Trailing empty fields are common in exports; only real overflow is an error
+    if (tokens.slice(header.length).some(t => t !== '')) {
+      doc.errors.push({ line: lineNo, message: `${recordType} row has ${tokens.length} fields but its header defines ${header.length}.` });
+    }
+
+    const fields: Record<string, string> = {};
+    header.forEach((name, i) => {
+      if (i > 0) fields[name] = tokens[i] ?? '';
+    });
+    const record: IIFRecord = { type: recordType, line: lineNo, fields };
+
+    if (recordType === 'TRNS') {
+      closeOpenTransaction();
+      openTransaction = { trnsType: fields['TRNSTYPE'] || '', line: lineNo, trns: record, splits: [], closed: false };
+      doc.transactions.push(openTransaction);
+      return;
+    }
+
+    if (recordType === 'SPL') {
+      // SPL rows outside a TRNS block are grouped into a split-only block
+      if (!openTransaction) {
+        openTransaction = { trnsType: fields['TRNSTYPE'] || '', line: lineNo, trns: null, splits: [], closed: false };
+        doc.transactions.push(openTransaction);
+      }
+      openTransaction.splits.push(record);
+      return;
+    }
+
+    // List record (ACCNT, VEND, CUST, INVITEM...) ends any open block
+    closeOpenTransaction();
+
+    if (!doc.lists[recordType]) doc.lists[recordType] = [];
+    doc.lists[recordType].push(record);
+  });
+
+  closeOpenTransaction();
+  return doc;
+};
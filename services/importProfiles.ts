@@ -0,0 +1,119 @@
+import { ColumnMapping, ImportProfile, TransactionField } from '../types';
+import { ipcRenderer } from './ipc';
+
+export const TRANSACTION_FIELDS: { field: TransactionField, label: string, required: boolean }[] = [
+  { field: 'dateTime', label: 'Date / Time', required: true },
+  { field: 'amount', label: 'Amount', required: true },
+  { field: 'orderNumber', label: 'Order #', required: false },
+  { field: 'customerName', label: 'Customer', required: false },
+  { field: 'fee', label: 'Fee', required: false },
+  { field: 'net', label: 'Net', required: false },
+  { field: 'type', label: 'Status / Type', required: false },
+  { field: 'cardBrand', label: 'Card Type', required: false },
+  { field: 'currency', label: 'Currency', required: false },
+  { field: 'payoutId', label: 'Payout ID', required: false }
+];
+
+// Headers the built-in Shopify layout is recognized by, in order of preference
+const BUILTIN_COLUMNS: Record<TransactionField, string[]> = {
+  dateTime: ['Created at', 'Transaction Date', 'Date', 'Processed at', 'Occurred at', 'Day'],
+  orderNumber: ['Name', 'Order', 'Order ID', 'ID'],
+  customerName: ['Billing Name', 'Customer', 'Source'],
+  amount: ['Amount', 'Total'],
+  fee: ['Fee', 'Fees', 'Transaction Fee'],
+  net: ['Net', 'Net Amount'],
+  type: ['Status', 'Financial Status', 'Type'],
+  cardBrand: ['Card Brand', 'Brand', 'Payment Method', 'Card'],
+  currency: ['Currency'],
+  payoutId: ['Payout ID', 'Payout']
+};
+
+// Columns only Shopify's own exports have (orders and Shopify Payments transactions). Generic
+// "Date" and "Amount" headers alone aren't enough: other layouts go through the mapping wizard.
+const SHOPIFY_SIGNATURE_COLUMNS = [
+  'Financial Status',
+  'Fulfillment Status',
+  'Billing Name',
+  'Paid at',
+  'Card Source',
+  'Payout Status',
+  'Available On',
+  'Presentment Amount'
+];
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase();
+
+// Same columns in any order (or case) give the same fingerprint
+export const getHeaderFingerprint = (headers: string[]): string => {
+  return headers.map(normalizeHeader).filter(Boolean).sort().join('|');
+};
+
+// Every field whose built-in header is present; the starting point for the mapping wizard
+export const suggestColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  (Object.keys(BUILTIN_COLUMNS) as TransactionField[]).forEach(field => {
+    const header = BUILTIN_COLUMNS[field].find(candidate => headers.includes(candidate));
+    if (header) mapping[field] = header;
+  });
+  return mapping;
+};
+
+/**
+ * Mapping for the built-in Shopify layout, or null when the file isn't a Shopify export
+ * (or lacks a recognizable date or amount column) and needs to be mapped by hand.
+ */
+export const detectBuiltinMapping = (headers: string[]): ColumnMapping | null => {
+  if (!SHOPIFY_SIGNATURE_COLUMNS.some(header => headers.includes(header))) return null;
+  const mapping = suggestColumnMapping(headers);
+  return mapping.dateTime && mapping.amount ? mapping : null;
+};
+
+export const findImportProfile = (headers: string[], profiles: ImportProfile[]): ImportProfile | null => {
+  const fingerprint = getHeaderFingerprint(headers);
+  return profiles.find(p => p.fingerprint === fingerprint) || null;
+};
+
+// Throws when a required field is unmapped or one column is assigned to two fields
+export const validateColumnMapping = (mapping: ColumnMapping): ColumnMapping => {
+  const missing = TRANSACTION_FIELDS.filter(f => f.required && !mapping[f.field]);
+  if (missing.length > 0) {
+    throw new Error(`Map a column to ${missing.map(f => f.label).join(' and ')}.`);
+  }
+
+  const seen: Record<string, TransactionField> = {};
+  (Object.keys(mapping) as TransactionField[]).forEach(field => {
+    const header = mapping[field];
+    if (!header) return;
+    if (seen[header]) {
+      throw new Error(`Column "${header}" is mapped to more than one field.`);
+    }
+    seen[header] = field;
+  });
+  return mapping;
+};
+
+export const loadImportProfiles = async (): Promise<ImportProfile[]> => {
+  const res = await ipcRenderer.invoke('import-profiles:list');
+  return res?.success ? res.profiles : [];
+};
+
+export const saveImportProfile = async (name: string, headers: string[], mapping: ColumnMapping): Promise<ImportProfile> => {
+  validateColumnMapping(mapping);
+  const profile = { name, fingerprint: getHeaderFingerprint(headers), headers, mapping };
+  const res = await ipcRenderer.invoke('import-profiles:save', { profile });
+  if (!res) {
+    // Browser dev mode: usable for this import, just not remembered
+    return { ...profile, id: `local-${Date.now()}`, createdAt: new Date().toISOString() };
+  }
+  if (!res.success) {
+    throw new Error(res.error);
+  }
+  return res.profile;
+};
+
+export const deleteImportProfile = async (id: string): Promise<void> => {
+  const res = await ipcRenderer.invoke('import-profiles:delete', { id });
+  if (res && !res.success) {
+    throw new Error(res.error);
+  }
+};
@@ -0,0 +1,17 @@
+// Safely get IPC Renderer
+export const getIpcRenderer = () => {
+  if (typeof window !== 'undefined' && (window as any).require) {
+    return (window as any).require('electron').ipcRenderer;
+  }
+  // Mock for browser dev environment
+  return {
+    on: () => {},
+    removeListener: () => {},
+    invoke: () => {
+        console.warn("Electron IPC not available. Are you running in the browser?");
+        return Promise.resolve();
+    }
+  };
+};
+
+export const ipcRenderer = getIpcRenderer();
@@ -0,0 +1,193 @@
+import Papa from 'papaparse';
+import { DailyGroup, ReportSummary } from '../types';
+import { getProcessor, getReportLabels } from './processors';
+import { CATEGORY_LABELS, countsTowardTotals } from './transactionCategories';
+import { formatTransactionTime } from './reportingSettings';
+import { toHomeCents } from './currency';
+import { DailyJournalBatch } from './dailyJournal';
+import { XlsxCell, XlsxSheet, buildXlsx, columnName, sheetRef, toSheetName } from './xlsxWriter';
+
+/**
+ * Spreadsheet and QuickBooks Desktop exports of a report: a flat transaction CSV, an XLSX
+ * workbook (summary sheet plus one sheet per reporting day) and an IIF file of the daily journals.
+ */
+
+const LEDGER_CSV_COLUMNS = [
+  'Reporting Day', 'Time', 'Date/Time', 'Order', 'Customer', 'Source', 'Type', 'Category',
+  'Card Brand', 'Amount', 'Fee', 'Net', 'Currency', 'Payout ID', 'Source File'
+];
+
+/**
+ * Flat CSV of a report's transactions, one row each, in ledger order (reporting day, then the
+ * day's rows). Amounts stay in the transaction's own currency.
+ */
+export const buildLedgerCsv = (summary: ReportSummary): string => {
+  const data = summary.dailyGroups.flatMap(group => group.transactions.map(t => [
+    group.dateKey,
+    formatTransactionTime(t.dateTime, summary.reportingSettings),
+    t.dateTime,
+    t.orderNumber,
+    t.customerName,
+    getProcessor(t.source).label,
+    t.type,
+    CATEGORY_LABELS[t.category],
+    t.cardBrand,
+    t.amount.toFixed(2),
+    t.fee.toFixed(2),
+    t.net.toFixed(2),
+    t.currency,
+    t.payoutId || '',
+    t.sourceFile
+  ]));
+  // Headers are written even when the filter leaves nothing
+  return Papa.unparse({ fields: LEDGER_CSV_COLUMNS, data });
+};
+
+// e.g. Shopify-Ledger-1-5-2024-1-31-2024.csv
+export const getLedgerFileName = (summary: ReportSummary, extension: 'csv' | 'xlsx'): string => {
+  const { filePrefix } = getReportLabels(summary.sourceTotals.map(t => t.source));
+  return `${filePrefix}-Ledger-${summary.dateRange.replace(/[^a-z0-9]+/gi, '-')}.${extension}`;
+};
+
+const DAY_SHEET_COLUMNS = [
+  'Time', 'Date/Time', 'Order', 'Customer', 'Source', 'Type', 'Category', 'Card Brand',
+  'Amount', 'Fee', 'Net', 'Currency', 'Counted', 'Home Amount', 'Home Fee', 'Home Net', 'Source File'
+];
+const DAY_SHEET_WIDTHS = [10, 22, 14, 24, 12, 24, 14, 14, 12, 12, 12, 9, 9, 14, 12, 14, 28];
+// Columns of the day sheet the summary and totals formulas point at
+const COUNTED_COLUMN = 12;
+const HOME_COLUMNS = [13, 14, 15];
+
+// One reporting day: its transactions, then a totals row summing the counted home amounts
+const buildDaySheet = (group: DailyGroup, summary: ReportSummary, name: string): { sheet: XlsxSheet, totalsRow: number } => {
+  const rows: XlsxCell[][] = [DAY_SHEET_COLUMNS.map(header => ({ value: header, style: 'header' as const }))];
+
+  group.transactions.forEach(t => {
+    const counted = countsTowardTotals(t);
+    const home = t.homeRate === null ? null : toHomeCents(t);
+    rows.push([
+      formatTransactionTime(t.dateTime, summary.reportingSettings),
+      t.dateTime,
+      t.orderNumber,
+      t.customerName,
+      getProcessor(t.source).label,
+      t.type,
+      CATEGORY_LABELS[t.category],
+      t.cardBrand,
+      { value: t.amount, style: 'money' },
+      { value: t.fee, style: 'money' },
+      { value: t.net, style: 'money' },
+      t.currency,
+      counted ? 'Yes' : 'No',
+      home ? { value: home.amount / 100, style: 'money' } : null,
+      home ? { value: home.fee / 100, style: 'money' } : null,
+      home ? { value: home.net / 100, style: 'money' } : null,
+      t.sourceFile
+    ]);
+  });
+
+  const lastRow = rows.length;
+  const countedRange = `${columnName(COUNTED_COLUMN)}2:${columnName(COUNTED_COLUMN)}${lastRow}`;
+  const sumCounted = (column: number, value: number): XlsxCell => ({
+    formula: `SUMIF(${countedRange},"Yes",${columnName(column)}2:${columnName(column)}${lastRow})`,
+    value,
+    style: 'totalMoney'
+  });
+
+  rows.push([]);
+  const totals: XlsxCell[] = new Array(DAY_SHEET_COLUMNS.length).fill(null);
+  totals[0] = { value: `Day Total (${summary.currencySettings.homeCurrency})`, style: 'total' };
+  totals[COUNTED_COLUMN] = { formula: `COUNTIF(${countedRange},"Yes")`, value: group.transactions.filter(countsTowardTotals).length, style: 'total' };
+  totals[HOME_COLUMNS[0]] = sumCounted(HOME_COLUMNS[0], group.subtotal);
+  totals[HOME_COLUMNS[1]] = sumCounted(HOME_COLUMNS[1], group.subtotalFees);
+  totals[HOME_COLUMNS[2]] = sumCounted(HOME_COLUMNS[2], group.subtotalNet);
+  rows.push(totals);
+
+  return { sheet: { name, rows, columnWidths: DAY_SHEET_WIDTHS }, totalsRow: rows.length };
+};
+
+/**
+ * XLSX workbook of the report. The summary sheet links to each day sheet's totals row and
+ * sums them, so edits in a day sheet flow through to the report totals.
+ */
+export const buildLedgerWorkbook = (summary: ReportSummary): Uint8Array<ArrayBuffer> => {
+  const { reportTitle } = getReportLabels(summary.sourceTotals.map(t => t.source));
+  const days = summary.dailyGroups.map(group => {
+    const name = toSheetName(group.dateKey || group.date);
+    return { group, name, ...buildDaySheet(group, summary, name) };
+  });
+
+  const summaryRows: XlsxCell[][] = [
+    [{ value: reportTitle, style: 'total' }],
+    ['Period', summary.dateRange],
+    ['Home Currency', summary.currencySettings.homeCurrency],
+    [],
+    ['Reporting Day', 'Transactions', 'Counted', 'Gross', 'Fees', 'Net'].map(header => ({ value: header, style: 'header' as const }))
+  ];
+  const firstDayRow = summaryRows.length + 1;
+  days.forEach(({ group, name, totalsRow }) => {
+    const link = (column: number, value: number, style?: 'money'): XlsxCell => ({ formula: sheetRef(name, `${columnName(column)}${totalsRow}`), value, style });
+    summaryRows.push([
+      group.date,
+      group.count,
+      link(COUNTED_COLUMN, group.transactions.filter(countsTowardTotals).length),
+      link(HOME_COLUMNS[0], group.subtotal, 'money'),
+      link(HOME_COLUMNS[1], group.subtotalFees, 'money'),
+      link(HOME_COLUMNS[2], group.subtotalNet, 'money')
+    ]);
+  });
+  const lastDayRow = summaryRows.length;
+  const sumColumn = (column: number, value: number, style: 'total' | 'totalMoney'): XlsxCell => ({
+    formula: days.length > 0 ? `SUM(${columnName(column)}${firstDayRow}:${columnName(column)}${lastDayRow})` : undefined,
+    value,
+    style
+  });
+  summaryRows.push([
+    { value: 'Total', style: 'total' },
+    sumColumn(1, summary.transactionCount, 'total'),
+    sumColumn(2, summary.allTransactions.filter(countsTowardTotals).length, 'total'),
+    sumColumn(3, summary.totalAmount, 'totalMoney'),
+    sumColumn(4, summary.totalFees, 'totalMoney'),
+    sumColumn(5, summary.totalNet, 'totalMoney')
+  ]);
+
+  const summarySheet: XlsxSheet = { name: 'Summary', rows: summaryRows, columnWidths: [18, 14, 10, 14, 12, 14] };
+  return buildXlsx([summarySheet, ...days.map(day => day.sheet)]);
+};
+
+// IIF fields are tab-separated lines; tabs, newlines and quotes inside a value would break them
+const iifField = (value: string): string => value.replace(/[\t\r\n"]+/g, ' ').trim();
+
+/**
+ * IIF file with one GENERAL JOURNAL per daily journal, for QuickBooks Desktop. The first line
+ * of each journal is the TRNS row, the rest are its SPL rows; debits are positive amounts.
+ */
+export const buildJournalIif = (batch: DailyJournalBatch): string => {
+  const columns = ['TRNSTYPE', 'DATE', 'ACCNT', 'NAME', 'AMOUNT', 'DOCNUM', 'MEMO'];
+  const lines = [
+    ['!TRNS', 'TRNSID', ...columns].join('\t'),
+    ['!SPL', 'SPLID', ...columns].join('\t'),
+    '!ENDTRNS'
+  ];
+
+  const journalNos = Array.from(new Set(batch.entries.map(e => e.JournalNo)));
+  journalNos.forEach(journalNo => {
+    batch.entries.filter(e => e.JournalNo === journalNo).forEach((entry, i) => {
+      const amount = entry.Debit ? entry.Debit : `-${entry.Credit}`;
+      lines.push([
+        i === 0 ? 'TRNS' : 'SPL',
+        '',
+        'GENERAL JOURNAL',
+        entry.JournalDate,
+        iifField(entry.Account),
+        iifField(entry.Name),
+        amount,
+        journalNo,
+        iifField(entry.Description)
+      ].join('\t'));
+    });
+    lines.push('ENDTRNS');
+  });
+
+  return lines.join('\r\n') + '\r\n';
+};
@@ -0,0 +1,140 @@
+import { LedgerFilter, LedgerSort, ReportSummary, ReportingSettings, ShopifyTransaction } from '../types';
+import { buildDailyGroup, summarizeDailyGroups } from './csvProcessor';
+import { getStoreWallClock } from './reportingSettings';
+
+/**
+ * Filtering and sorting of the ledger. A filtered ledger is a ReportSummary of its own, with
+ * days and totals recomputed from the matching transactions, so the views and exports that
+ * take a summary work on it unchanged.
+ */
+
+export const EMPTY_LEDGER_FILTER: LedgerFilter = {
+  search: '',
+  types: [],
+  cardBrands: [],
+  sourceFiles: [],
+  minAmount: null,
+  maxAmount: null,
+  dateFrom: '',
+  dateTo: '',
+  weekdays: [],
+  hours: []
+};
+
+// Newest first within each day, the order the report is built in
+export const DEFAULT_LEDGER_SORT: LedgerSort = { field: 'dateTime', direction: 'desc' };
+
+export const isLedgerFiltered = (filter: LedgerFilter): boolean => {
+  return filter.search.trim() !== ''
+    || filter.types.length > 0
+    || filter.cardBrands.length > 0
+    || filter.sourceFiles.length > 0
+    || filter.minAmount !== null
+    || filter.maxAmount !== null
+    || filter.dateFrom !== ''
+    || filter.dateTo !== ''
+    || filter.weekdays.length > 0
+    || filter.hours.length > 0;
+};
+
+const distinct = (values: string[]): string[] => {
+  return Array.from(new Set(values.filter(Boolean))).sort((a, b) => a.localeCompare(b));
+};
+
+// Values the filter lists offer, taken from the whole report
+export const getLedgerFilterOptions = (summary: ReportSummary): { types: string[], cardBrands: string[], sourceFiles: string[] } => ({
+  types: distinct(summary.allTransactions.map(t => t.type)),
+  cardBrands: distinct(summary.allTransactions.map(t => t.cardBrand)),
+  sourceFiles: distinct(summary.allTransactions.map(t => t.sourceFile))
+});
+
+// Every search word has to appear in the order number or the customer
+const matchesSearch = (t: ShopifyTransaction, words: string[]): boolean => {
+  if (words.length === 0) return true;
+  const text = `${t.orderNumber} ${t.customerName}`.toLowerCase();
+  return words.every(word => text.includes(word));
+};
+
+// Weekday and hour in the store's timezone; only worked out when the filter asks for them
+const matchesTime = (t: ShopifyTransaction, filter: LedgerFilter, settings: ReportingSettings): boolean => {
+  if (filter.weekdays.length === 0 && filter.hours.length === 0) return true;
+  const clock = getStoreWallClock(t.dateTime, settings.timeZone);
+  if (!clock) return false;
+  const weekday = new Date(Date.UTC(clock.year, clock.month - 1, clock.day)).getUTCDay();
+  if (filter.weekdays.length > 0 && !filter.weekdays.includes(weekday)) return false;
+  if (filter.hours.length > 0 && !filter.hours.includes(clock.hour)) return false;
+  return true;
+};
+
+const matchesTransaction = (t: ShopifyTransaction, filter: LedgerFilter, words: string[], settings: ReportingSettings): boolean => {
+  if (filter.types.length > 0 && !filter.types.includes(t.type)) return false;
+  if (filter.cardBrands.length > 0 && !filter.cardBrands.includes(t.cardBrand)) return false;
+  if (filter.sourceFiles.length > 0 && !filter.sourceFiles.includes(t.sourceFile)) return false;
+  if (filter.minAmount !== null && t.amount < filter.minAmount) return false;
+  if (filter.maxAmount !== null && t.amount > filter.maxAmount) return false;
+  return matchesSearch(t, words) && matchesTime(t, filter, settings);
+};
+
+// Undated transactions only match while no date bound is set
+const matchesDay = (dateKey: string, filter: LedgerFilter): boolean => {
+  if (!filter.dateFrom && !filter.dateTo) return true;
+  if (!dateKey) return false;
+  if (filter.dateFrom && dateKey < filter.dateFrom) return false;
+  if (filter.dateTo && dateKey > filter.dateTo) return false;
+  return true;
+};
+
+// One collator for every comparison; localeCompare with options is far slower on large ledgers
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+const compareTransactions = (sort: LedgerSort) => (a: ShopifyTransaction, b: ShopifyTransaction): number => {
+  let result: number;
+  switch (sort.field) {
+    case 'amount':
+      result = a.amount - b.amount;
+      break;
+    case 'dateTime':
+      result = new Date(a.dateTime).getTime() - new Date(b.dateTime).getTime();
+      break;
+    default:
+      result = collator.compare(a[sort.field], b[sort.field]);
+  }
+  return sort.direction === 'asc' ? result : -result;
+};
+
+/**
+ * The report narrowed to the transactions that pass the filter, each day's rows in the sort
+ * order. Days stay newest first unless the ledger is sorted by time ascending. Returns the
+ * summary itself when there's nothing to filter or sort.
+ */
+export const filterReportSummary = (summary: ReportSummary, filter: LedgerFilter, sort: LedgerSort = DEFAULT_LEDGER_SORT): ReportSummary => {
+  const isDefaultSort = sort.field === DEFAULT_LEDGER_SORT.field && sort.direction === DEFAULT_LEDGER_SORT.direction;
+  if (!isLedgerFiltered(filter) && isDefaultSort) return summary;
+
+  const words = filter.search.toLowerCase().split(/\s+/).filter(Boolean);
+  const { homeCurrency } = summary.currencySettings;
+  // Days come from the full report, so nothing is regrouped; empty days drop out
+  const dailyGroups = summary.dailyGroups
+    .filter(group => matchesDay(group.dateKey, filter))
+    .map(group => {
+      const transactions = group.transactions.filter(t => matchesTransaction(t, filter, words, summary.reportingSettings));
+      return transactions.length === group.transactions.length ? group : buildDailyGroup(group.dateKey, transactions, homeCurrency);
+    })
+    .filter(group => group.transactions.length > 0);
+  const allTransactions = dailyGroups.flatMap(group => group.transactions);
+
+  // The full report's settings and rates, so converted totals don't shift as the filter changes
+  const filtered = summarizeDailyGroups(allTransactions, dailyGroups, summary.reportingSettings, summary.currencySettings, summary.conversionRates);
+  if (isDefaultSort) return filtered;
+
+  // Sorting copies each day's rows, leaving the full report's groups untouched
+  const compare = compareTransactions(sort);
+  filtered.dailyGroups = filtered.dailyGroups.map(group => ({ ...group, transactions: [...group.transactions].sort(compare) }));
+  filtered.allTransactions = [...filtered.allTransactions].sort(compare);
+  if (sort.field === 'dateTime' && sort.direction === 'asc') {
+    // Keep the undated group last
+    const dated = filtered.dailyGroups.filter(g => g.dateKey !== '').reverse();
+    filtered.dailyGroups = [...dated, ...filtered.dailyGroups.filter(g => g.dateKey === '')];
+  }
+  return filtered;
+};
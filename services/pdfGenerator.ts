@@ -1,163 +1,902 @@
 
 import { jsPDF } from 'jspdf';
-import autoTable from 'jspdf-autotable';
-import { ReportSummary, DailyGroup } from '../types';
+import autoTable, { CellHookData } from 'jspdf-autotable';
+import { ReportSummary, DailyGroup, ShopifyTransaction, ReconciliationResult, ReconciliationStatus, ReportColumn, ReportTemplate, ReportingSettings, SourceTotals, CurrencyTotals } from '../types';
+import { WEEKDAY_LABELS, describeReportingSettings, formatTransactionTime } from './reportingSettings';
+import { getProcessor, getReportLabels } from './processors';
+import { CATEGORY_LABELS, countsTowardTotals, isCountedCategory } from './transactionCategories';
+import { VerificationMap, countVerified, getReviewerInitials, getVerificationKey } from './verification';
+import { formatMoneyForPdf, toHomeCents } from './currency';
+import { DEFAULT_REPORT_TEMPLATE, REPORT_COLUMNS, hexToRgb } from './reportTemplate';
+import { ConversionAudit } from './conversionAudit';
+import { SnapshotComparison, formatComparisonValue, formatDeltaPercent } from './reportSnapshots';
 
-export const generateTransactionPDF = (summary: ReportSummary, reportType: 'SHOPIFY' | 'PAYPAL' = 'SHOPIFY') => {
-  // Use the pre-calculated daily groups from the processor (which follow the 4 PM rule)
-  const pdfGroups: DailyGroup[] = summary.dailyGroups;
-  const reportTitle = reportType === 'SHOPIFY' ? 'Web Order Transaction Report' : 'PayPal Transaction Report';
-  const filePrefix = reportType === 'SHOPIFY' ? 'Shopify-Report' : 'PayPal-Report';
+const BATCH_FILL: [number, number, number] = [248, 250, 252];  // Slate-50
+const SOURCE_FILL: [number, number, number] = [226, 232, 240]; // Slate-200
+const CATEGORY_FILL: [number, number, number] = [241, 245, 249]; // Slate-100
 
-  // Generate a separate PDF for EACH Reporting Day Group
-  pdfGroups.forEach(group => {
-      const doc = new jsPDF();
-      const pageWidth = doc.internal.pageSize.getWidth();
-      const pageHeight = doc.internal.pageSize.getHeight();
-
-      // Header - Centered
-      doc.setFontSize(22);
-      doc.setTextColor(40);
-      doc.text(reportTitle, pageWidth / 2, 22, { align: 'center' });
-      
-      doc.setFontSize(12);
-      doc.setTextColor(100);
-      doc.text(`Reporting Date: ${group.date}`, pageWidth / 2, 30, { align: 'center' });
-
-      // Construct Table Body for this specific group
-      const tableBody: any[] = [];
-
-      // Group transactions by sourceFile
-      const transactionsByFile: Record<string, import('../types').ShopifyTransaction[]> = {};
-      group.transactions.forEach(t => {
-        const key = t.sourceFile || 'Unknown Source';
-        if (!transactionsByFile[key]) {
-          transactionsByFile[key] = [];
-        }
-        transactionsByFile[key].push(t);
-      });
+// Continuation pages start below the template's header text
+const PAGE_TOP = 18;
+const PAGE_BOTTOM = 20;
 
-      // Iterate through each file group
-      Object.entries(transactionsByFile).forEach(([fileName, txns]) => {
-        
-        // Calculate Subtotals for this file using cent-based math to avoid float errors
-        const fileSubtotal = txns.reduce((sum, t) => sum + Math.round(t.amount * 100), 0) / 100;
-        const fileFees = txns.reduce((sum, t) => sum + Math.round(t.fee * 100), 0) / 100;
-        const fileNet = txns.reduce((sum, t) => sum + Math.round(t.net * 100), 0) / 100;
-
-        // Transaction Rows
-        txns.forEach(t => {
-          tableBody.push([
-            new Date(t.dateTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
-            t.orderNumber,
-            t.customerName,
-            t.type,
-            t.cardBrand,
-            `$${t.amount.toFixed(2)}`,
-            `$${t.fee.toFixed(2)}`,
-            `$${t.net.toFixed(2)}`,
-            '[  ]'
-          ]);
-        });
-
-        // Batch Subtotal Row (Generic, no filename)
-        tableBody.push([
-          {
-            content: `Batch Subtotal (${txns.length} txns)`,
-            colSpan: 5,
-            styles: {
-              fillColor: [248, 250, 252], // Slate-50
-              textColor: [30, 41, 59],
-              fontStyle: 'bold',
-              halign: 'right'
-            }
-          },
-          {
-            content: `$${fileSubtotal.toFixed(2)}`,
-            styles: {
-              fillColor: [248, 250, 252],
-              textColor: [30, 41, 59],
-              fontStyle: 'bold',
-              halign: 'right'
-            }
-          },
-          {
-            content: `$${fileFees.toFixed(2)}`,
-            styles: {
-              fillColor: [248, 250, 252],
-              textColor: [100, 116, 139],
-              fontStyle: 'bold',
-              halign: 'right'
-            }
-          },
-          {
-            content: `$${fileNet.toFixed(2)}`,
-            styles: {
-              fillColor: [248, 250, 252],
-              textColor: [30, 41, 59],
-              fontStyle: 'bold',
-              halign: 'right'
-            }
-          },
-          {
-            content: '',
-            styles: {
-              fillColor: [248, 250, 252]
-            }
-          }
-        ]);
-      });
+type PdfColumn = typeof REPORT_COLUMNS[number];
 
-      autoTable(doc, {
-        startY: 45,
-        head: [['Time', 'Order #', 'Customer', 'Type', 'Card Type', 'Amount', 'Fee', 'Net', 'Verify']],
-        body: tableBody,
-        theme: 'striped',
-        headStyles: { fillColor: [51, 65, 85], halign: 'left' },
-        columnStyles: {
-          5: { halign: 'right' },
-          6: { halign: 'right' },
-          7: { halign: 'right' },
-          8: { halign: 'center', cellWidth: 20 }
-        },
-        alternateRowStyles: { fillColor: [255, 255, 255] },
-        margin: { top: 45 },
-        styles: { fontSize: 7 },
-        didDrawPage: (data) => {
-            doc.setFontSize(8);
-            doc.setTextColor(150);
-            doc.text(`Page ${data.pageNumber}`, pageWidth / 2, pageHeight - 10, { align: 'center' });
-        }
+// Everything the transaction report's pieces need to draw a day
+interface TransactionPdfContext {
+  doc: jsPDF;
+  template: ReportTemplate;
+  columns: PdfColumn[];
+  settings: ReportingSettings;
+  homeCurrency: string;
+  verifications: VerificationMap;
+}
+
+// Bold subtotal row: the label spans the columns before the first money column, and each
+// visible Amount / Fee / Net column gets its total
+const buildSubtotalRow = (columns: PdfColumn[], label: string, amount: number, fees: number, net: number, currency: string, fillColor: [number, number, number]) => {
+  const labelStyles = { fillColor, textColor: [30, 41, 59], fontStyle: 'bold', halign: 'right' };
+  const totals: Partial<Record<ReportColumn, { value: number, textColor: number[] }>> = {
+    amount: { value: amount, textColor: [30, 41, 59] },
+    fee: { value: fees, textColor: [100, 116, 139] },
+    net: { value: net, textColor: [30, 41, 59] }
+  };
+
+  const labelSpan = columns.findIndex(c => c.isMoney);
+  if (labelSpan <= 0) {
+    // No room for a label beside the money columns: one cell with everything
+    const values = columns.filter(c => c.isMoney).map(c => `${c.label} ${formatMoneyForPdf(totals[c.id]!.value, currency)}`);
+    return [{ content: [label, ...values].join('   '), colSpan: columns.length, styles: labelStyles }];
+  }
+
+  return [
+    { content: label, colSpan: labelSpan, styles: labelStyles },
+    ...columns.slice(labelSpan).map(column => {
+      const total = totals[column.id];
+      return total
+        ? { content: formatMoneyForPdf(total.value, currency), styles: { fillColor, textColor: total.textColor, fontStyle: 'bold', halign: 'right' } }
+        : { content: '', styles: { fillColor } };
+    })
+  ];
+};
+
+const transactionCell = (column: ReportColumn, t: ShopifyTransaction, context: TransactionPdfContext): string => {
+  switch (column) {
+    case 'time': return formatTransactionTime(t.dateTime, context.settings);
+    case 'order': return t.orderNumber;
+    case 'customer': return t.customerName;
+    case 'type': return t.type;
+    case 'cardBrand': return t.cardBrand;
+    case 'amount': return formatMoneyForPdf(t.amount, t.currency);
+    case 'fee': return formatMoneyForPdf(t.fee, t.currency);
+    case 'net': return formatMoneyForPdf(t.net, t.currency);
+    case 'verify': {
+      // Verified rows carry the reviewer's initials
+      const verification = context.verifications[getVerificationKey(t)];
+      return verification ? `[${getReviewerInitials(verification.reviewer)}]` : '[  ]';
+    }
+  }
+};
+
+// One reporting day's transactions, batched by source and file, with their subtotals
+const drawDayTable = (context: TransactionPdfContext, group: DailyGroup, startY: number): number => {
+  const { doc, columns, homeCurrency } = context;
+  // Rows keep their own currency; every subtotal and total is in the home currency
+  const tableBody: any[] = [];
+
+  // Group transactions by source, then by sourceFile within each source
+  const hasMultipleSources = group.sourceTotals.length > 1;
+
+  group.sourceTotals.forEach(sourceTotals => {
+    const transactionsByFile: Record<string, ShopifyTransaction[]> = {};
+    group.transactions.filter(t => t.source === sourceTotals.source).forEach(t => {
+      const key = t.sourceFile || 'Unknown Source';
+      if (!transactionsByFile[key]) {
+        transactionsByFile[key] = [];
+      }
+      transactionsByFile[key].push(t);
+    });
+
+    // Iterate through each file group
+    Object.values(transactionsByFile).forEach(txns => {
+
+      // Calculate Subtotals for this file using cent-based math to avoid float errors
+      // (payouts, conversions and failed captures are listed but not counted)
+      const counted = txns.filter(countsTowardTotals).map(toHomeCents);
+      const fileSubtotal = counted.reduce((sum, t) => sum + t.amount, 0) / 100;
+      const fileFees = counted.reduce((sum, t) => sum + t.fee, 0) / 100;
+      const fileNet = counted.reduce((sum, t) => sum + t.net, 0) / 100;
+
+      // Transaction Rows
+      txns.forEach(t => {
+        tableBody.push(columns.map(column => transactionCell(column.id, t, context)));
       });
 
-      // Summary Box for THIS GROUP ONLY
-      const finalY = (doc as any).lastAutoTable.finalY || 45;
-      const summaryBoxHeight = 40; 
-      
-      let summaryY = finalY + 15;
-      if (summaryY + summaryBoxHeight > pageHeight - 20) {
-        doc.addPage();
-        summaryY = 20;
+      // Batch Subtotal Row (Generic, no filename)
+      tableBody.push(buildSubtotalRow(columns, `Batch Subtotal (${txns.length} txns)`, fileSubtotal, fileFees, fileNet, homeCurrency, BATCH_FILL));
+    });
+
+    // Source Subtotal Row, only needed when the day mixes sources
+    if (hasMultipleSources) {
+      const label = `${getProcessor(sourceTotals.source).label} Subtotal (${sourceTotals.count} txns)`;
+      tableBody.push(buildSubtotalRow(columns, label, sourceTotals.amount, sourceTotals.fees, sourceTotals.net, homeCurrency, SOURCE_FILL));
+    }
+  });
+
+  // Sales, refunds, chargebacks... each on its own line, with its fees alongside
+  if (group.categoryTotals.length > 1) {
+    group.categoryTotals.forEach(totals => {
+      const uncounted = isCountedCategory(totals.category) ? '' : ', not counted';
+      const label = `${CATEGORY_LABELS[totals.category]} (${totals.count} txns${uncounted})`;
+      tableBody.push(buildSubtotalRow(columns, label, totals.amount, totals.fees, totals.net, homeCurrency, CATEGORY_FILL));
+    });
+  }
+
+  const columnStyles: Record<number, { halign?: 'right' | 'center', cellWidth?: number }> = {};
+  columns.forEach((column, i) => {
+    if (column.isMoney) columnStyles[i] = { halign: 'right' };
+    if (column.id === 'verify') columnStyles[i] = { halign: 'center', cellWidth: 20 };
+  });
+
+  autoTable(doc, {
+    startY,
+    head: [columns.map(c => c.label)],
+    body: tableBody,
+    theme: 'striped',
+    headStyles: { fillColor: hexToRgb(context.template.accentColor), halign: 'left' },
+    columnStyles,
+    alternateRowStyles: { fillColor: [255, 255, 255] },
+    margin: { top: PAGE_TOP, bottom: PAGE_BOTTOM },
+    styles: { fontSize: 7 }
+  });
+
+  return (doc as any).lastAutoTable.finalY || startY;
+};
+
+interface SummaryBoxTotals {
+  count: number;
+  gross: number;
+  fees: number;
+  net: number;
+  sourceTotals: SourceTotals[];
+  currencyTotals: CurrencyTotals[];
+  transactions: ShopifyTransaction[];
+}
+
+// Totals box for a day or the whole period, moved to a new page when it won't fit
+const drawSummaryBox = (context: TransactionPdfContext, heading: string, totals: SummaryBoxTotals, y: number) => {
+  const { doc, homeCurrency, verifications } = context;
+  const money = (amount: number) => formatMoneyForPdf(amount, homeCurrency);
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const summaryBoxHeight = 40;
+
+  let summaryY = y;
+  if (summaryY + summaryBoxHeight > pageHeight - PAGE_BOTTOM) {
+    doc.addPage();
+    summaryY = PAGE_TOP + 2;
+  }
+
+  doc.setFillColor(245, 247, 250);
+  doc.rect(14, summaryY, pageWidth - 28, summaryBoxHeight, 'F');
+
+  doc.setFontSize(12);
+  doc.setTextColor(40);
+  doc.text(heading, 20, summaryY + 8);
+
+  doc.setFontSize(10);
+  doc.setTextColor(100);
+  doc.text(`Total Transactions: ${totals.count}`, 20, summaryY + 18);
+  doc.text(`Total Fees: ${money(Math.abs(totals.fees))}`, 20, summaryY + 26);
+  doc.text(`Total Net: ${money(totals.net)}`, 20, summaryY + 34);
+  // Channel and original-currency breakdowns share the bottom right corner
+  const breakdowns: string[] = [];
+  if (totals.sourceTotals.length > 1) {
+    breakdowns.push(totals.sourceTotals.map(t => `${getProcessor(t.source).label} ${money(t.amount)}`).join('  |  '));
+  }
+  if (totals.currencyTotals.length > 1) {
+    breakdowns.push(totals.currencyTotals
+      .map(t => `${formatMoneyForPdf(t.amount, t.currency)}${t.homeRate === null ? ' (no rate)' : ''}`)
+      .join('  |  '));
+  }
+  if (breakdowns.length > 0) {
+    doc.setFontSize(8);
+    doc.text(doc.splitTextToSize(breakdowns.join('\n'), 86), pageWidth - 100, summaryY + 32);
+  }
+
+  doc.setFontSize(14);
+  doc.setTextColor(40);
+  doc.text(`Gross Balance: ${money(totals.gross)}`, pageWidth - 100, summaryY + 18);
+
+  doc.setFontSize(10);
+  doc.setTextColor(100);
+  doc.text(`Verified: ${countVerified(totals.transactions, verifications)} of ${totals.count}`, pageWidth - 100, summaryY + 26);
+};
+
+// Shown beside each reporting day's heading
+const verifiedLabel = (group: DailyGroup, verifications: VerificationMap) => {
+  return `Verified: ${countVerified(group.transactions, verifications)} of ${group.count}`;
+};
+
+const groupTotals = (group: DailyGroup): SummaryBoxTotals => ({
+  count: group.count,
+  gross: group.subtotal,
+  fees: group.subtotalFees,
+  net: group.subtotalNet,
+  sourceTotals: group.sourceTotals,
+  currencyTotals: group.currencyTotals,
+  transactions: group.transactions
+});
+
+const periodTotals = (summary: ReportSummary): SummaryBoxTotals => ({
+  count: summary.transactionCount,
+  gross: summary.totalAmount,
+  fees: summary.totalFees,
+  net: summary.totalNet,
+  sourceTotals: summary.sourceTotals,
+  currencyTotals: summary.currencyTotals,
+  transactions: summary.allTransactions
+});
+
+// Logo in the top left corner, company name in the top right
+const drawLetterhead = (doc: jsPDF, template: ReportTemplate) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  if (template.logoDataUrl) {
+    const { width, height } = doc.getImageProperties(template.logoDataUrl);
+    const scale = Math.min(40 / width, 14 / height);
+    doc.addImage(template.logoDataUrl, 14, 12, width * scale, height * scale);
+  }
+  if (template.companyName) {
+    doc.setFontSize(9);
+    doc.setTextColor(100);
+    doc.text(doc.splitTextToSize(template.companyName, 50), pageWidth - 14, 16, { align: 'right' });
+  }
+};
+
+// Header text, footer text and page numbers, drawn once the page count is known
+const drawPageFurniture = (doc: jsPDF, template: ReportTemplate, firstPage: number) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const pageCount = doc.getNumberOfPages();
+
+  for (let page = firstPage; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    doc.setTextColor(150);
+    if (template.headerText) {
+      doc.text(template.headerText, pageWidth / 2, 8, { align: 'center' });
+    }
+    doc.text(`Page ${page} of ${pageCount}`, pageWidth / 2, pageHeight - 10, { align: 'center' });
+    if (template.footerText) {
+      doc.text(doc.splitTextToSize(template.footerText, pageWidth / 2 - 40), 14, pageHeight - 10);
+    }
+  }
+};
+
+const createDocument = (template: ReportTemplate) => new jsPDF({ orientation: template.orientation, format: template.pageSize });
+
+const safeFileName = (value: string) => value.replace(/[^a-z0-9]/gi, '-').substring(0, 50);
+
+/**
+ * Prints the transaction report with the company's template: a PDF per reporting day, or
+ * with the consolidated layout a single PDF for the whole period.
+ */
+export const generateTransactionPDF = (summary: ReportSummary, verifications: VerificationMap = {}, template: ReportTemplate = DEFAULT_REPORT_TEMPLATE) => {
+  // One source keeps its own title; a mixed upload is a combined payments report
+  const { reportTitle, filePrefix } = getReportLabels(summary.sourceTotals.map(t => t.source));
+  const title = template.title || reportTitle;
+  const columns = REPORT_COLUMNS.filter(c => template.columns.includes(c.id));
+  const contextFor = (doc: jsPDF): TransactionPdfContext => ({
+    doc,
+    template,
+    columns,
+    settings: summary.reportingSettings,
+    homeCurrency: summary.currencySettings.homeCurrency,
+    verifications
+  });
+
+  if (template.layout === 'consolidated') {
+    const doc = createDocument(template);
+    drawConsolidatedReport(contextFor(doc), summary, title);
+    doc.save(`${filePrefix}-${safeFileName(summary.dateRange)}.pdf`);
+    return;
+  }
+
+  // Generate a separate PDF for EACH Reporting Day Group
+  // (the pre-calculated daily groups from the processor, which follow the reporting settings)
+  summary.dailyGroups.forEach(group => {
+    const doc = createDocument(template);
+    const context = contextFor(doc);
+    const pageWidth = doc.internal.pageSize.getWidth();
+
+    drawLetterhead(doc, template);
+
+    // Header - Centered
+    doc.setFontSize(22);
+    doc.setTextColor(40);
+    doc.text(title, pageWidth / 2, 22, { align: 'center' });
+
+    doc.setFontSize(12);
+    doc.setTextColor(100);
+    doc.text(`Reporting Date: ${group.date}  |  ${verifiedLabel(group, verifications)}`, pageWidth / 2, 30, { align: 'center' });
+
+    doc.setFontSize(8);
+    doc.setTextColor(150);
+    doc.text(describeReportingSettings(summary.reportingSettings), pageWidth / 2, 36, { align: 'center' });
+
+    const finalY = drawDayTable(context, group, 45);
+    // Summary Box for THIS GROUP ONLY
+    drawSummaryBox(context, 'Daily Summary', groupTotals(group), finalY + 15);
+
+    drawPageFurniture(doc, template, 1);
+    doc.save(`${filePrefix}-${safeFileName(group.date)}.pdf`);
+  });
+};
+
+const TOC_LINE_HEIGHT = 7;
+
+// Where each contents entry goes: its page (counted from the first contents page) and line
+const layoutContents = (entryCount: number, pageHeight: number): { page: number, y: number }[] => {
+  const positions: { page: number, y: number }[] = [];
+  let page = 0;
+  let y = 40;
+  for (let i = 0; i < entryCount; i++) {
+    if (y > pageHeight - PAGE_BOTTOM - 6) {
+      page++;
+      y = PAGE_TOP + 10;
+    }
+    positions.push({ page, y });
+    y += TOC_LINE_HEIGHT;
+  }
+  return positions;
+};
+
+// Cover, period summary, contents, one section per reporting day and a closing totals page
+const drawConsolidatedReport = (context: TransactionPdfContext, summary: ReportSummary, title: string) => {
+  const { doc, template, homeCurrency } = context;
+  const money = (amount: number) => formatMoneyForPdf(amount, homeCurrency);
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const accent = hexToRgb(template.accentColor);
+  const tableOptions = {
+    theme: 'striped' as const,
+    headStyles: { fillColor: accent, halign: 'left' as const },
+    margin: { top: PAGE_TOP, bottom: PAGE_BOTTOM },
+    styles: { fontSize: 8 }
+  };
+  const drawHeading = (text: string, y = 28) => {
+    doc.setFontSize(18);
+    doc.setTextColor(40);
+    doc.text(text, 14, y);
+  };
+
+  // Cover
+  doc.setFillColor(...accent);
+  doc.rect(0, 0, pageWidth, 12, 'F');
+  doc.rect(0, pageHeight - 12, pageWidth, 12, 'F');
+  let coverY = pageHeight * 0.3;
+  if (template.logoDataUrl) {
+    const { width, height } = doc.getImageProperties(template.logoDataUrl);
+    const scale = Math.min(80 / width, 30 / height);
+    doc.addImage(template.logoDataUrl, (pageWidth - width * scale) / 2, coverY - height * scale, width * scale, height * scale);
+    coverY += 12;
+  }
+  if (template.companyName) {
+    doc.setFontSize(16);
+    doc.setTextColor(100);
+    doc.text(template.companyName, pageWidth / 2, coverY, { align: 'center' });
+    coverY += 14;
+  }
+  doc.setFontSize(26);
+  doc.setTextColor(40);
+  doc.text(title, pageWidth / 2, coverY, { align: 'center' });
+  doc.setFontSize(14);
+  doc.setTextColor(100);
+  doc.text(`Period: ${summary.dateRange}`, pageWidth / 2, coverY + 12, { align: 'center' });
+  doc.setFontSize(10);
+  doc.text(`${summary.dailyGroups.length} reporting day(s)  |  ${summary.transactionCount} transactions`, pageWidth / 2, coverY + 22, { align: 'center' });
+  doc.setFontSize(8);
+  doc.setTextColor(150);
+  doc.text(describeReportingSettings(summary.reportingSettings), pageWidth / 2, coverY + 30, { align: 'center' });
+  doc.text(`Generated ${new Date().toLocaleString()}`, pageWidth / 2, coverY + 36, { align: 'center' });
+
+  // Period summary: the totals, then the channel, category and currency breakdowns
+  doc.addPage();
+  const summaryPage = doc.getNumberOfPages();
+  drawHeading('Period Summary');
+  drawSummaryBox(context, 'Totals', periodTotals(summary), 36);
+  let finalY = 36 + 40;
+
+  if (summary.sourceTotals.length > 1) {
+    autoTable(doc, {
+      ...tableOptions,
+      startY: finalY + 10,
+      head: [['Source', 'Txns', 'Amount', 'Fees', 'Net']],
+      body: summary.sourceTotals.map(t => [getProcessor(t.source).label, t.count, money(t.amount), money(t.fees), money(t.net)]),
+      columnStyles: { 1: { halign: 'right' }, 2: { halign: 'right' }, 3: { halign: 'right' }, 4: { halign: 'right' } }
+    });
+    finalY = (doc as any).lastAutoTable.finalY;
+  }
+  autoTable(doc, {
+    ...tableOptions,
+    startY: finalY + 10,
+    head: [['Category', 'Txns', 'Amount', 'Fees', 'Net']],
+    body: summary.categoryTotals.map(t => [
+      `${CATEGORY_LABELS[t.category]}${isCountedCategory(t.category) ? '' : ' (not counted)'}`,
+      t.count, money(t.amount), money(t.fees), money(t.net)
+    ]),
+    columnStyles: { 1: { halign: 'right' }, 2: { halign: 'right' }, 3: { halign: 'right' }, 4: { halign: 'right' } }
+  });
+  finalY = (doc as any).lastAutoTable.finalY;
+  if (summary.currencyTotals.length > 1) {
+    autoTable(doc, {
+      ...tableOptions,
+      startY: finalY + 10,
+      head: [['Currency', 'Txns', 'Amount', 'Fees', 'Net', `Rate to ${homeCurrency}`]],
+      body: summary.currencyTotals.map(t => [
+        t.currency, t.count,
+        formatMoneyForPdf(t.amount, t.currency), formatMoneyForPdf(t.fees, t.currency), formatMoneyForPdf(t.net, t.currency),
+        t.homeRate === null ? 'No rate' : String(t.homeRate)
+      ]),
+      columnStyles: { 1: { halign: 'right' }, 2: { halign: 'right' }, 3: { halign: 'right' }, 4: { halign: 'right' }, 5: { halign: 'right' } }
+    });
+  }
+
+  // Contents pages are reserved now and filled in once every section's page is known
+  const contents = layoutContents(summary.dailyGroups.length + 1, pageHeight);
+  const contentsPageCount = contents[contents.length - 1].page + 1;
+  for (let i = 0; i < contentsPageCount; i++) doc.addPage();
+  const firstContentsPage = doc.getNumberOfPages() - contentsPageCount + 1;
+
+  // One section per reporting day, each starting on a new page
+  const sectionPages = summary.dailyGroups.map(group => {
+    doc.addPage();
+    const page = doc.getNumberOfPages();
+    doc.setFontSize(8);
+    doc.setTextColor(150);
+    doc.text('REPORTING DAY', 14, 22);
+    drawHeading(group.date, 30);
+    doc.setFontSize(10);
+    doc.setTextColor(100);
+    doc.text(verifiedLabel(group, context.verifications), pageWidth - 14, 30, { align: 'right' });
+    const tableEnd = drawDayTable(context, group, 36);
+    drawSummaryBox(context, 'Daily Summary', groupTotals(group), tableEnd + 15);
+    return page;
+  });
+
+  // Closing totals: every day on one line, then the period's totals
+  doc.addPage();
+  const totalsPage = doc.getNumberOfPages();
+  drawHeading('Period Totals');
+  autoTable(doc, {
+    ...tableOptions,
+    startY: 36,
+    head: [['Reporting Day', 'Txns', 'Gross', 'Fees', 'Net', 'Verified']],
+    body: summary.dailyGroups.map(group => [
+      group.date, group.count, money(group.subtotal), money(group.subtotalFees), money(group.subtotalNet),
+      `${countVerified(group.transactions, context.verifications)} of ${group.count}`
+    ]),
+    foot: [[
+      'Total', summary.transactionCount, money(summary.totalAmount), money(summary.totalFees), money(summary.totalNet),
+      `${countVerified(summary.allTransactions, context.verifications)} of ${summary.transactionCount}`
+    ]],
+    showFoot: 'lastPage',
+    footStyles: { fillColor: SOURCE_FILL, textColor: [30, 41, 59], halign: 'right' },
+    columnStyles: { 1: { halign: 'right' }, 2: { halign: 'right' }, 3: { halign: 'right' }, 4: { halign: 'right' }, 5: { halign: 'right' } }
+  });
+  drawSummaryBox(context, 'Period Totals', periodTotals(summary), (doc as any).lastAutoTable.finalY + 15);
+
+  // Contents, linked to each section, and the matching bookmarks
+  const entries = [
+    ...summary.dailyGroups.map((group, i) => ({ label: group.date, detail: `${group.count} txns  |  Net ${money(group.subtotalNet)}`, page: sectionPages[i] })),
+    { label: 'Period Totals', detail: '', page: totalsPage }
+  ];
+  doc.setPage(firstContentsPage);
+  drawHeading('Contents');
+  entries.forEach((entry, i) => {
+    const { page, y } = contents[i];
+    doc.setPage(firstContentsPage + page);
+    doc.setFontSize(10);
+    doc.setTextColor(40);
+    doc.textWithLink(entry.label, 14, y, { pageNumber: entry.page });
+    doc.setFontSize(8);
+    doc.setTextColor(120);
+    doc.text(entry.detail, pageWidth / 2, y, { align: 'center' });
+    doc.setFontSize(10);
+    doc.setTextColor(40);
+    doc.text(String(entry.page), pageWidth - 14, y, { align: 'right' });
+    doc.setDrawColor(226, 232, 240);
+    doc.line(14, y + 2, pageWidth - 14, y + 2);
+  });
+
+  doc.outline.add(null, 'Period Summary', { pageNumber: summaryPage });
+  doc.outline.add(null, 'Contents', { pageNumber: firstContentsPage });
+  entries.forEach(entry => doc.outline.add(null, entry.label, { pageNumber: entry.page }));
+
+  // The cover carries no header, footer or page number
+  drawPageFurniture(doc, template, 2);
+};
+
+const STATUS_COLORS: Record<ReconciliationStatus, [number, number, number]> = {
+  matched: [22, 163, 74],
+  variance: [217, 119, 6],
+  unmatched: [220, 38, 38]
+};
+
+// One printable report: every reporting day against the bank, then deposits nothing matched
+export const generateReconciliationPDF = (summary: ReportSummary, reconciliation: ReconciliationResult) => {
+  const formatMoney = (amount: number) => formatMoneyForPdf(amount, summary.currencySettings.homeCurrency);
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const { settings } = reconciliation;
+
+  doc.setFontSize(22);
+  doc.setTextColor(40);
+  doc.text('Bank Deposit Reconciliation', pageWidth / 2, 22, { align: 'center' });
+
+  doc.setFontSize(12);
+  doc.setTextColor(100);
+  doc.text(`Period: ${summary.dateRange}`, pageWidth / 2, 30, { align: 'center' });
+
+  doc.setFontSize(8);
+  doc.setTextColor(150);
+  doc.text(
+    `Tolerance: ${settings.dateToleranceDays} day(s), ${formatMoney(settings.amountTolerance)}  |  ${describeReportingSettings(summary.reportingSettings)}`,
+    pageWidth / 2, 36, { align: 'center' }
+  );
+
+  const dayRows = summary.dailyGroups
+    .filter(group => reconciliation.days[group.dateKey])
+    .map(group => {
+      const day = reconciliation.days[group.dateKey];
+      return [
+        group.date,
+        formatMoney(day.expectedNet),
+        day.deposits.map(d => d.date).join('\n'),
+        day.deposits.map(d => d.reference || d.description).join('\n'),
+        day.deposits.length > 0 ? formatMoney(day.depositedAmount) : '-',
+        formatMoney(day.variance),
+        day.status.toUpperCase()
+      ];
+    });
+
+  const didDrawPage = (data: { pageNumber: number }) => {
+    doc.setFontSize(8);
+    doc.setTextColor(150);
+    doc.text(`Page ${data.pageNumber}`, pageWidth / 2, pageHeight - 10, { align: 'center' });
+  };
+
+  autoTable(doc, {
+    startY: 45,
+    head: [['Reporting Day', 'Expected Net', 'Deposit Date', 'Bank Reference', 'Deposited', 'Variance', 'Status']],
+    body: dayRows,
+    theme: 'striped',
+    headStyles: { fillColor: [51, 65, 85], halign: 'left' },
+    columnStyles: {
+      1: { halign: 'right' },
+      4: { halign: 'right' },
+      5: { halign: 'right' },
+      6: { halign: 'center', fontStyle: 'bold' }
+    },
+    styles: { fontSize: 7 },
+    didParseCell: (data) => {
+      if (data.section === 'body' && data.column.index === 6) {
+        const status = String(data.cell.raw).toLowerCase() as ReconciliationStatus;
+        data.cell.styles.textColor = STATUS_COLORS[status];
       }
+    },
+    didDrawPage
+  });
+
+  let finalY = (doc as any).lastAutoTable.finalY || 45;
+
+  if (reconciliation.unmatchedDeposits.length > 0) {
+    doc.setFontSize(12);
+    doc.setTextColor(40);
+    doc.text('Unmatched Deposits', 14, finalY + 12);
+
+    autoTable(doc, {
+      startY: finalY + 16,
+      head: [['Date', 'Description', 'Reference', 'Amount', 'Statement']],
+      body: reconciliation.unmatchedDeposits.map(d => [d.date, d.description, d.reference, formatMoney(d.amount), d.sourceFile]),
+      theme: 'striped',
+      headStyles: { fillColor: [51, 65, 85], halign: 'left' },
+      columnStyles: { 3: { halign: 'right' } },
+      styles: { fontSize: 7 },
+      didDrawPage
+    });
+    finalY = (doc as any).lastAutoTable.finalY;
+  }
+
+  // Totals box
+  const days = Object.values(reconciliation.days);
+  const count = (status: ReconciliationStatus) => days.filter(d => d.status === status).length;
+  const sum = (values: number[]) => values.reduce((total, v) => total + Math.round(v * 100), 0) / 100;
+  const expected = sum(days.map(d => d.expectedNet));
+  const deposited = sum(days.map(d => d.depositedAmount));
+
+  let summaryY = finalY + 15;
+  if (summaryY + 40 > pageHeight - 20) {
+    doc.addPage();
+    summaryY = 20;
+  }
+
+  doc.setFillColor(245, 247, 250);
+  doc.rect(14, summaryY, pageWidth - 28, 40, 'F');
+
+  doc.setFontSize(12);
+  doc.setTextColor(40);
+  doc.text('Reconciliation Summary', 20, summaryY + 8);
 
-      doc.setFillColor(245, 247, 250);
-      doc.rect(14, summaryY, pageWidth - 28, summaryBoxHeight, 'F');
-      
-      doc.setFontSize(12);
-      doc.setTextColor(40);
-      doc.text('Daily Summary', 20, summaryY + 8);
-      
-      doc.setFontSize(10);
-      doc.setTextColor(100);
-      doc.text(`Total Transactions: ${group.count}`, 20, summaryY + 18);
-      doc.text(`Total Fees: $${Math.abs(group.subtotalFees).toLocaleString(undefined, { minimumFractionDigits: 2 })}`, 20, summaryY + 26);
-      doc.text(`Total Net: $${group.subtotalNet.toLocaleString(undefined, { minimumFractionDigits: 2 })}`, 20, summaryY + 34);
-      
-      doc.setFontSize(14);
-      doc.setTextColor(40);
-      doc.text(`Gross Balance: $${group.subtotal.toLocaleString(undefined, { minimumFractionDigits: 2 })}`, pageWidth - 100, summaryY + 18);
-
-      const safeFilename = group.date.replace(/[^a-z0-9]/gi, '-').substring(0, 50);
-      doc.save(`${filePrefix}-${safeFilename}.pdf`);
+  doc.setFontSize(10);
+  doc.setTextColor(100);
+  doc.text(`Matched Days: ${count('matched')}`, 20, summaryY + 18);
+  doc.text(`Days With Variance: ${count('variance')}`, 20, summaryY + 26);
+  doc.text(`Unmatched Days: ${count('unmatched')}  |  Unmatched Deposits: ${reconciliation.unmatchedDeposits.length}`, 20, summaryY + 34);
+
+  doc.text(`Expected Net: ${formatMoney(expected)}`, pageWidth - 100, summaryY + 18);
+  doc.text(`Deposited: ${formatMoney(deposited)}`, pageWidth - 100, summaryY + 26);
+  doc.setFontSize(12);
+  doc.setTextColor(40);
+  doc.text(`Variance: ${formatMoney(Math.round((deposited - expected) * 100) / 100)}`, pageWidth - 100, summaryY + 34);
+
+  const safeRange = summary.dateRange.replace(/[^a-z0-9]/gi, '-').substring(0, 50);
+  doc.save(`Reconciliation-${safeRange}.pdf`);
+};
+
+const formatAmount = (amount: number) => amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// The record of one IIF-to-QBO conversion, for the month-end close package
+export const generateConversionAuditPDF = (audit: ConversionAudit) => {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const { source } = audit;
+  const balancedText = (isBalanced: boolean) => isBalanced ? 'BALANCED' : 'OUT OF BALANCE';
+
+  doc.setFontSize(22);
+  doc.setTextColor(40);
+  doc.text('IIF Conversion Audit', pageWidth / 2, 22, { align: 'center' });
+
+  doc.setFontSize(12);
+  doc.setTextColor(100);
+  doc.text(`${source.mode} mode  |  ${source.fileName}`, pageWidth / 2, 30, { align: 'center' });
+
+  const didDrawPage = (data: { pageNumber: number }) => {
+    doc.setFontSize(8);
+    doc.setTextColor(150);
+    doc.text(`Page ${data.pageNumber}`, pageWidth / 2, pageHeight - 10, { align: 'center' });
+  };
+
+  // Where the rows came from and what they add up to
+  const issues = audit.validation
+    ? `${audit.validation.errors.length} error(s), ${audit.validation.warnings.length} warning(s)`
+    : 'Not run';
+  autoTable(doc, {
+    startY: 38,
+    body: [
+      ['Source File', source.fileName],
+      ['SHA-256', source.fileHash ?? 'Not available'],
+      ['Converted', new Date(source.convertedAt).toLocaleString()],
+      ['Conversion Mode', source.mode],
+      ['Documents', `${audit.documents.length} (${audit.unbalancedCount} out of balance)`],
+      ['Lines', String(audit.lineCount)],
+      ['Total Debits', formatAmount(audit.debits)],
+      ['Total Credits', formatAmount(audit.credits)],
+      ['Pre-flight Checks', issues]
+    ],
+    theme: 'plain',
+    styles: { fontSize: 8, cellPadding: 1 },
+    columnStyles: { 0: { fontStyle: 'bold', cellWidth: 40 } },
+    didDrawPage
+  });
+
+  // One line per journal/bill with its balance check
+  doc.setFontSize(12);
+  doc.setTextColor(40);
+  let finalY = (doc as any).lastAutoTable.finalY;
+  doc.text('Documents', 14, finalY + 10);
+  autoTable(doc, {
+    startY: finalY + 14,
+    head: [['Document', 'Date', 'Name', 'Lines', 'Debits', 'Credits', 'Difference', 'Check']],
+    body: audit.documents.map(d => [
+      d.label, d.date, d.name, d.lines.filter(l => !l.isOffset).length,
+      formatAmount(d.debits), formatAmount(d.credits), formatAmount(d.difference), balancedText(d.isBalanced)
+    ]),
+    foot: [['Total', '', '', audit.lineCount, formatAmount(audit.debits), formatAmount(audit.credits), formatAmount(Math.round((audit.debits - audit.credits) * 100) / 100), '']],
+    theme: 'striped',
+    headStyles: { fillColor: [51, 65, 85], halign: 'left' },
+    footStyles: { fillColor: SOURCE_FILL, textColor: [30, 41, 59] },
+    columnStyles: {
+      3: { halign: 'right' },
+      4: { halign: 'right' },
+      5: { halign: 'right' },
+      6: { halign: 'right' },
+      7: { halign: 'center', fontStyle: 'bold' }
+    },
+    styles: { fontSize: 7 },
+    didParseCell: (data) => {
+      if (data.section === 'body' && data.column.index === 7) {
+        data.cell.styles.textColor = STATUS_COLORS[data.cell.raw === 'BALANCED' ? 'matched' : 'unmatched'];
+      }
+    },
+    didDrawPage
+  });
+
+  // Raw IIF account -> the QBO account the mappings put in its place
+  finalY = (doc as any).lastAutoTable.finalY;
+  doc.setFontSize(12);
+  doc.setTextColor(40);
+  doc.text('Account Mapping Substitutions', 14, finalY + 10);
+  if (audit.substitutions.length === 0) {
+    doc.setFontSize(9);
+    doc.setTextColor(100);
+    doc.text('None: these rows were not converted from IIF accounts.', 14, finalY + 17);
+    finalY += 17;
+  } else {
+    autoTable(doc, {
+      startY: finalY + 14,
+      head: [['IIF Account', 'QBO Account', 'Lines']],
+      body: audit.substitutions.map(s => [s.sourceAccount, s.isMapped ? s.qboAccount : `${s.qboAccount} (unchanged)`, s.lineCount]),
+      theme: 'striped',
+      headStyles: { fillColor: [51, 65, 85], halign: 'left' },
+      columnStyles: { 2: { halign: 'right' } },
+      styles: { fontSize: 7 },
+      didParseCell: (data) => {
+        if (data.section === 'body' && data.column.index === 1 && !audit.substitutions[data.row.index].isMapped) {
+          data.cell.styles.textColor = STATUS_COLORS.variance;
+        }
+      },
+      didDrawPage
+    });
+    finalY = (doc as any).lastAutoTable.finalY;
+  }
+
+  // Every line, grouped under its document, with the document's totals
+  const detailRows: any[] = [];
+  audit.documents.forEach(d => {
+    detailRows.push([{
+      content: `${d.label}  |  ${d.date}${d.name ? `  |  ${d.name}` : ''}`,
+      colSpan: 5,
+      styles: { fillColor: SOURCE_FILL, textColor: [30, 41, 59], fontStyle: 'bold' }
+    }]);
+    d.lines.forEach(line => {
+      detailRows.push([
+        line.account,
+        line.description,
+        line.name,
+        line.debit ? formatAmount(line.debit) : '',
+        line.credit ? formatAmount(line.credit) : ''
+      ].map(content => line.isOffset ? { content, styles: { fontStyle: 'italic', textColor: [100, 116, 139] } } : content));
+    });
+    detailRows.push([
+      { content: balancedText(d.isBalanced), colSpan: 3, styles: { fillColor: BATCH_FILL, fontStyle: 'bold', halign: 'right', textColor: STATUS_COLORS[d.isBalanced ? 'matched' : 'unmatched'] } },
+      { content: formatAmount(d.debits), styles: { fillColor: BATCH_FILL, fontStyle: 'bold', halign: 'right' } },
+      { content: formatAmount(d.credits), styles: { fillColor: BATCH_FILL, fontStyle: 'bold', halign: 'right' } }
+    ]);
   });
+
+  doc.setFontSize(12);
+  doc.setTextColor(40);
+  doc.text('Document Lines', 14, finalY + 10);
+  autoTable(doc, {
+    startY: finalY + 14,
+    head: [['Account', 'Description', 'Name', 'Debit', 'Credit']],
+    body: detailRows,
+    theme: 'plain',
+    headStyles: { fillColor: [51, 65, 85], textColor: 255, halign: 'left' },
+    columnStyles: { 3: { halign: 'right' }, 4: { halign: 'right' } },
+    styles: { fontSize: 7 },
+    didDrawPage
+  });
+
+  const baseName = source.fileName.replace(/\.[^/.]+$/, '');
+  doc.save(`Conversion-Audit-${safeFileName(baseName)}.pdf`);
+};
+
+// One page comparing two saved report snapshots: headline totals, then the average day by weekday
+export const generateComparisonPDF = (comparison: SnapshotComparison) => {
+  const { baseline, current } = comparison;
+  const money = (amount: number) => formatMoneyForPdf(amount, current.homeCurrency);
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+
+  doc.setFontSize(22);
+  doc.setTextColor(40);
+  doc.text('Period Comparison', pageWidth / 2, 22, { align: 'center' });
+
+  doc.setFontSize(10);
+  doc.setTextColor(100);
+  doc.text(`Baseline: ${baseline.name} (${baseline.dateRange})`, pageWidth / 2, 30, { align: 'center' });
+  doc.text(`Compared: ${current.name} (${current.dateRange})`, pageWidth / 2, 36, { align: 'center' });
+
+  let startY = 44;
+  if (comparison.currencyMismatch) {
+    doc.setFontSize(8);
+    doc.setTextColor(...STATUS_COLORS.variance);
+    doc.text(
+      `The baseline is in ${baseline.homeCurrency} and the compared period in ${current.homeCurrency}; amounts are not converted.`,
+      pageWidth / 2, 42, { align: 'center' }
+    );
+    startY = 48;
+  }
+
+  const deltaColor = (value: unknown) => {
+    const text = String(value);
+    if (text.startsWith('+')) return STATUS_COLORS.matched;
+    if (text.startsWith('-') && text !== '-') return STATUS_COLORS.unmatched;
+    return undefined;
+  };
+  // Green up, red down; a higher fee rate isn't good news, so rates stay uncolored
+  const colorDeltas = (columns: number[], skipRow: (index: number) => boolean = () => false) => (data: CellHookData) => {
+    if (data.section !== 'body' || !columns.includes(data.column.index) || skipRow(data.row.index)) return;
+    const color = deltaColor(data.cell.raw);
+    if (color) data.cell.styles.textColor = color;
+  };
+
+  autoTable(doc, {
+    startY,
+    head: [['Metric', 'Baseline', 'Compared', 'Change', 'Change %']],
+    body: comparison.metrics.map(m => [
+      m.label,
+      formatComparisonValue(m.baseline, m.format, money),
+      formatComparisonValue(m.current, m.format, money),
+      formatComparisonValue(m.delta, m.format, money, true),
+      formatDeltaPercent(m)
+    ]),
+    theme: 'striped',
+    headStyles: { fillColor: [51, 65, 85], halign: 'left' },
+    columnStyles: {
+      0: { fontStyle: 'bold' },
+      1: { halign: 'right' },
+      2: { halign: 'right' },
+      3: { halign: 'right' },
+      4: { halign: 'right' }
+    },
+    styles: { fontSize: 8 },
+    didParseCell: colorDeltas([3, 4], index => comparison.metrics[index].format === 'percent')
+  });
+
+  // Average reporting day per weekday; a weekday either period never reported stays blank
+  const finalY = (doc as any).lastAutoTable.finalY;
+  doc.setFontSize(12);
+  doc.setTextColor(40);
+  doc.text('Average Day by Weekday', 14, finalY + 10);
+  autoTable(doc, {
+    startY: finalY + 14,
+    head: [['Weekday', 'Days', 'Baseline Gross', 'Compared Gross', 'Change', 'Change %', 'Baseline Txns', 'Compared Txns', 'Net Change']],
+    body: comparison.weekdays.map(w => [
+      WEEKDAY_LABELS[w.weekday],
+      `${w.baselineDays} / ${w.currentDays}`,
+      formatComparisonValue(w.gross.baseline, 'money', money),
+      formatComparisonValue(w.gross.current, 'money', money),
+      formatComparisonValue(w.gross.delta, 'money', money, true),
+      formatDeltaPercent(w.gross),
+      formatComparisonValue(w.count.baseline, 'count', money),
+      formatComparisonValue(w.count.current, 'count', money),
+      formatComparisonValue(w.net.delta, 'money', money, true)
+    ]),
+    theme: 'striped',
+    headStyles: { fillColor: [51, 65, 85], halign: 'left' },
+    columnStyles: {
+      0: { fontStyle: 'bold' },
+      1: { halign: 'center' },
+      2: { halign: 'right' },
+      3: { halign: 'right' },
+      4: { halign: 'right' },
+      5: { halign: 'right' },
+      6: { halign: 'right' },
+      7: { halign: 'right' },
+      8: { halign: 'right' }
+    },
+    styles: { fontSize: 7 },
+    didParseCell: colorDeltas([4, 5, 8])
+  });
+
+  doc.setFontSize(8);
+  doc.setTextColor(150);
+  doc.text(`Generated ${new Date().toLocaleString()}`, pageWidth / 2, pageHeight - 10, { align: 'center' });
+
+  doc.save(`Comparison-${safeFileName(baseline.dateRange)}-vs-${safeFileName(current.dateRange)}.pdf`);
 };
@@ -0,0 +1,52 @@
+import { TransactionProcessor, feeFromNet, hasHeaders, parseMoney, pickColumn } from './processor';
+import { classifyTransaction } from '../transactionCategories';
+
+// Settlement lines that pay the balance out or carry it between settlements
+const EXCLUDED_TYPES = ['disbursement', 'transfer', 'reserve', 'carry over', 'carryover'];
+
+/**
+ * Amazon Pay settlement report: one line per capture, refund or chargeback with
+ * "TransactionPostedDate", "TransactionType", "TransactionAmount" and "NetTransactionAmount".
+ */
+export const amazonPayProcessor: TransactionProcessor = {
+  source: 'AMAZON_PAY',
+  label: 'Amazon Pay',
+  reportTitle: 'Amazon Pay Settlement Report',
+  filePrefix: 'AmazonPay-Report',
+  journalPrefix: 'AMZ',
+
+  detect: (headers) => hasHeaders(headers, ['TransactionPostedDate', 'TransactionType', 'NetTransactionAmount']),
+
+  isExcluded: (row) => EXCLUDED_TYPES.some(type => (row['TransactionType'] || '').toLowerCase().includes(type)),
+
+  mapRow: (row, { sourceFile, entryIndex }) => {
+    const posted = pickColumn(row, 'TransactionPostedDate');
+    if (!posted) return null;
+
+    const amount = parseMoney(row['TransactionAmount']);
+    const net = parseMoney(row['NetTransactionAmount']);
+    if (isNaN(amount) || isNaN(net)) return null;
+    if (amount === 0 && net === 0) return null;
+
+    const transactionId = pickColumn(row, 'AmazonTransactionId', 'TransactionId', 'ChargeId');
+    const orderId = pickColumn(row, 'SellerOrderId', 'MerchantOrderId', 'SellerReferenceId') || transactionId || `AP-${entryIndex}`;
+
+    const type = pickColumn(row, 'TransactionType') || 'Unknown';
+    return {
+      id: `${transactionId || orderId}-${entryIndex}`,
+      orderNumber: orderId,
+      dateTime: posted,
+      customerName: pickColumn(row, 'BuyerName', 'StoreName', 'Store Name', 'TransactionDescription') || 'Amazon Pay Buyer',
+      amount,
+      fee: feeFromNet(amount, net),
+      net,
+      type,
+      category: classifyTransaction(type, amount, 'AMAZON_PAY'),
+      cardBrand: 'Amazon Pay',
+      currency: pickColumn(row, 'CurrencyCode', 'Currency') || 'USD',
+      sourceFile,
+      source: 'AMAZON_PAY',
+      payoutId: pickColumn(row, 'SettlementId') || undefined
+    };
+  }
+};
@@ -0,0 +1,53 @@
+import { CsvPreview, FileImportPlan, ImportProfile, ReportSource } from '../../types';
+import { detectBuiltinMapping, findImportProfile } from '../importProfiles';
+import { TransactionProcessor } from './processor';
+import { shopifyProcessor } from './shopify';
+import { paypalProcessor } from './paypal';
+import { stripeProcessor } from './stripe';
+import { squareProcessor } from './square';
+import { amazonPayProcessor } from './amazonPay';
+
+export type { TransactionProcessor, CsvRow, RowContext } from './processor';
+
+// Shopify last: its built-in layout also reads common headers like "Date" and "Amount"
+export const PROCESSORS: TransactionProcessor[] = [
+  paypalProcessor,
+  stripeProcessor,
+  squareProcessor,
+  amazonPayProcessor,
+  shopifyProcessor
+];
+
+export const getProcessor = (source: ReportSource): TransactionProcessor => {
+  const processor = PROCESSORS.find(p => p.source === source);
+  if (!processor) throw new Error(`No processor for ${source}.`);
+  return processor;
+};
+
+/**
+ * Picks the source for an uploaded file from its header row. A saved import profile wins
+ * (the user mapped exactly this layout), then the first processor that recognizes it.
+ * Null means the layout is unknown and needs the mapping wizard.
+ */
+export const planFileImport = (preview: CsvPreview, profiles: ImportProfile[]): FileImportPlan | null => {
+  const profile = findImportProfile(preview.headers, profiles);
+  if (profile) {
+    return { source: 'SHOPIFY', columnMapping: profile.mapping };
+  }
+
+  const processor = PROCESSORS.find(p => p.detect(preview.headers));
+  if (!processor) return null;
+
+  if (processor.source === 'SHOPIFY') {
+    return { source: 'SHOPIFY', columnMapping: detectBuiltinMapping(preview.headers) ?? undefined };
+  }
+  return { source: processor.source };
+};
+
+// Heading, file name and journal number prefixes for a report covering one or more sources
+export const getReportLabels = (sources: ReportSource[]): { label: string, reportTitle: string, filePrefix: string, journalPrefix: string } => {
+  if (sources.length === 1) {
+    return getProcessor(sources[0]);
+  }
+  return { label: 'Payments', reportTitle: 'Payment Transaction Report', filePrefix: 'Payments-Report', journalPrefix: 'PAY' };
+};
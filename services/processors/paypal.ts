@@ -0,0 +1,50 @@
+import { TransactionProcessor, hasHeaders, parseMoney } from './processor';
+import { classifyTransaction } from '../transactionCategories';
+
+// Moving money out of PayPal isn't a sale; leaving these in would unbalance the day
+const EXCLUDED_TYPES = ['General Withdrawal', 'User Initiated Withdrawal'];
+
+// PayPal Activity Download: "Date", "Time", "Name", "Gross", "Fee", "Net", "Transaction ID", "Type"
+export const paypalProcessor: TransactionProcessor = {
+  source: 'PAYPAL',
+  label: 'PayPal',
+  reportTitle: 'PayPal Transaction Report',
+  filePrefix: 'PayPal-Report',
+  journalPrefix: 'PP',
+
+  detect: (headers) => hasHeaders(headers, ['Date', 'Time', 'Gross', 'Net', 'Transaction ID']),
+
+  isExcluded: (row) => EXCLUDED_TYPES.includes(row['Type']),
+
+  mapRow: (row, { sourceFile, entryIndex }) => {
+    const dateStr = row['Date'];
+    const timeStr = row['Time'];
+    if (!dateStr || !timeStr) return null;
+
+    const amount = parseMoney(row['Gross']);
+    const fee = parseMoney(row['Fee']);
+    const net = parseMoney(row['Net']);
+
+    // Filter out empty entries if any (sometimes PayPal exports summary rows)
+    if (amount === 0 && fee === 0 && net === 0) return null;
+
+    const orderId = row['Transaction ID'] || `PP-${entryIndex}`;
+
+    const type = row['Type'] || 'Unknown';
+    return {
+      id: `${orderId}-${entryIndex}`,
+      orderNumber: orderId,
+      dateTime: `${dateStr} ${timeStr}`, // "MM/DD/YYYY HH:mm:ss", store-local
+      customerName: row['Name'] || 'Unknown',
+      amount,
+      fee,
+      net,
+      type,
+      category: classifyTransaction(type, amount, 'PAYPAL'),
+      cardBrand: 'PayPal', // PayPal doesn't expose card brand in this CSV
+      currency: row['Currency'] || 'USD',
+      sourceFile,
+      source: 'PAYPAL'
+    };
+  }
+};
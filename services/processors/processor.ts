@@ -0,0 +1,53 @@
+import { ColumnMapping, ReportSource, ShopifyTransaction } from '../../types';
+
+export type CsvRow = Record<string, string>;
+
+export interface RowContext {
+  sourceFile: string;
+  entryIndex: number;              // Row's position in its file, so ids are stable across reloads
+  columnMapping?: ColumnMapping;   // Only set for sources read through an import profile (Shopify)
+}
+
+/**
+ * One payment channel's CSV export. The shared pipeline in csvProcessor reads the file,
+ * drops excluded rows, maps the rest and builds the report; a processor only knows its layout.
+ */
+export interface TransactionProcessor {
+  source: ReportSource;
+  label: string;
+  reportTitle: string;   // PDF heading
+  filePrefix: string;    // PDF file name prefix
+  journalPrefix: string; // Start of the daily QBO journal numbers
+  // True when a header row looks like this source's export
+  detect: (headers: string[]) => boolean;
+  // Rows that aren't sales activity (payouts, withdrawals, summary lines)
+  isExcluded: (row: CsvRow) => boolean;
+  // Null when the row can't be read as a transaction
+  mapRow: (row: CsvRow, context: RowContext) => ShopifyTransaction | null;
+}
+
+// "$1,234.50", "-0.59", "(12.00)" -> number; empty -> 0; unreadable -> NaN
+export const parseMoney = (value: string | undefined): number => {
+  if (!value || !value.trim()) return 0;
+  const negative = /^\s*\(.*\)\s*$/.test(value);
+  const amount = parseFloat(value.replace(/[^0-9.-]+/g, ""));
+  return negative ? -Math.abs(amount) : amount;
+};
+
+// First non-empty value among the given headers (exports rename columns between versions)
+export const pickColumn = (row: CsvRow, ...headers: string[]): string => {
+  for (const header of headers) {
+    const value = row[header];
+    if (value && value.trim()) return value.trim();
+  }
+  return '';
+};
+
+export const hasHeaders = (headers: string[], required: string[]): boolean => {
+  return required.every(header => headers.includes(header));
+};
+
+// Fee as the gap between gross and net, negative like PayPal's, so amount + fee = net
+export const feeFromNet = (amount: number, net: number): number => {
+  return (Math.round(net * 100) - Math.round(amount * 100)) / 100;
+};
@@ -0,0 +1,65 @@
+import { ColumnMapping, TransactionField } from '../../types';
+import { detectBuiltinMapping } from '../importProfiles';
+import { CsvRow, TransactionProcessor, parseMoney } from './processor';
+import { classifyTransaction } from '../transactionCategories';
+
+// Shopify exports vary by report, so columns come from the file's import profile
+// (the built-in layout or one saved from the mapping wizard)
+export const shopifyProcessor: TransactionProcessor = {
+  source: 'SHOPIFY',
+  label: 'Shopify',
+  reportTitle: 'Web Order Transaction Report',
+  filePrefix: 'Shopify-Report',
+  journalPrefix: 'SHOP',
+
+  detect: (headers) => detectBuiltinMapping(headers) !== null,
+
+  isExcluded: () => false,
+
+  mapRow: (row, { sourceFile, entryIndex, columnMapping }) => {
+    if (!columnMapping) {
+      throw new Error(`No column mapping for ${sourceFile}.`);
+    }
+    const column = (field: TransactionField) => readMapped(row, columnMapping, field);
+
+    // An empty date is kept as-is; the transaction is listed under the undated group
+    const dateTime = column('dateTime');
+
+    const orderId = column('orderNumber') || `Line-${entryIndex}`;
+    const amount = parseMoney(column('amount') || '0');
+    if (isNaN(amount)) return null;
+
+    const fee = parseMoney(column('fee') || '0');
+    let net = parseMoney(column('net') || '0');
+
+    // If Net is 0 but we have Amount and Fee, calculate it.
+    // Assuming Fee is often negative in exports. If Fee is positive, we might need logic, 
+    // but usually Net = Amount + Fee (algebraic sum)
+    if (net === 0 && (amount !== 0 || fee !== 0)) {
+        net = (Math.round(amount * 100) + Math.round(fee * 100)) / 100;
+    }
+
+    const type = column('type') || 'Unknown';
+    return {
+      id: `${orderId}-${entryIndex}`,
+      orderNumber: orderId,
+      dateTime,
+      customerName: column('customerName') || 'Internal/Guest',
+      amount,
+      fee,
+      net,
+      type,
+      category: classifyTransaction(type, amount, 'SHOPIFY'),
+      cardBrand: column('cardBrand') || 'N/A',
+      currency: column('currency') || 'USD',
+      sourceFile,
+      source: 'SHOPIFY',
+      payoutId: column('payoutId') || undefined
+    };
+  }
+};
+
+const readMapped = (row: CsvRow, mapping: ColumnMapping, field: TransactionField): string => {
+  const header = mapping[field];
+  return header && row[header] ? row[header].toString().trim() : '';
+};
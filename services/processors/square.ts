@@ -0,0 +1,50 @@
+import { TransactionProcessor, hasHeaders, parseMoney, pickColumn } from './processor';
+import { classifyTransaction } from '../transactionCategories';
+
+/**
+ * Square Transactions export: "Date", "Time", "Total Collected", "Fees", "Net Total",
+ * "Transaction ID", "Event Type". Date and Time are in the seller's location timezone.
+ */
+export const squareProcessor: TransactionProcessor = {
+  source: 'SQUARE',
+  label: 'Square',
+  reportTitle: 'Square Transaction Report',
+  filePrefix: 'Square-Report',
+  journalPrefix: 'SQ',
+
+  detect: (headers) => hasHeaders(headers, ['Date', 'Time', 'Total Collected', 'Net Total', 'Transaction ID']),
+
+  // Square lists only sales and refunds; drop blank summary lines
+  isExcluded: (row) => !row['Transaction ID'] && !row['Payment ID'],
+
+  mapRow: (row, { sourceFile, entryIndex }) => {
+    const dateStr = row['Date'];
+    const timeStr = row['Time'];
+    if (!dateStr || !timeStr) return null;
+
+    const amount = parseMoney(row['Total Collected']);
+    const fee = parseMoney(row['Fees']);
+    const net = parseMoney(row['Net Total']);
+    if (isNaN(amount)) return null;
+
+    const orderId = pickColumn(row, 'Transaction ID', 'Payment ID') || `SQ-${entryIndex}`;
+
+    const type = pickColumn(row, 'Event Type') || 'Payment';
+    return {
+      id: `${orderId}-${entryIndex}`,
+      orderNumber: orderId,
+      dateTime: `${dateStr} ${timeStr}`,
+      customerName: pickColumn(row, 'Customer Name', 'Customer Reference ID') || 'Walk-in',
+      amount,
+      fee,
+      net,
+      type,
+      category: classifyTransaction(type, amount, 'SQUARE'),
+      cardBrand: pickColumn(row, 'Card Brand') || (parseMoney(row['Cash']) ? 'Cash' : 'Square'),
+      currency: 'USD', // The Transactions export is in the account currency and has no currency column
+      sourceFile,
+      source: 'SQUARE',
+      payoutId: pickColumn(row, 'Deposit ID') || undefined
+    };
+  }
+};
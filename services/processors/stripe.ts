@@ -0,0 +1,60 @@
+import { TransactionProcessor, feeFromNet, parseMoney, pickColumn } from './processor';
+import { classifyTransaction } from '../transactionCategories';
+
+// Balance transactions that move money to the bank rather than record a sale
+const EXCLUDED_TYPES = ['payout', 'payout_cancel', 'payout_failure', 'transfer'];
+
+// Stripe's timestamps are UTC without an offset; mark them so the store timezone applies
+const toUtcTimestamp = (value: string): string => {
+  if (!value || /(Z|[+-]\d{2}:?\d{2})$/.test(value)) return value;
+  return `${value.replace(' ', 'T')}Z`;
+};
+
+/**
+ * Stripe balance transactions, either the dashboard export ("id", "Type", "Amount", "Fee", "Net",
+ * "Created (UTC)") or the itemized balance change report ("balance_transaction_id", "gross", "net",
+ * "created_utc", "reporting_category"). Stripe fees are positive; they're stored negative.
+ */
+export const stripeProcessor: TransactionProcessor = {
+  source: 'STRIPE',
+  label: 'Stripe',
+  reportTitle: 'Stripe Balance Transaction Report',
+  filePrefix: 'Stripe-Report',
+  journalPrefix: 'STRP',
+
+  detect: (headers) =>
+    (headers.includes('Created (UTC)') && headers.includes('Net')) ||
+    (headers.includes('balance_transaction_id') && headers.includes('created_utc')),
+
+  isExcluded: (row) => EXCLUDED_TYPES.includes(pickColumn(row, 'Type', 'reporting_category').toLowerCase()),
+
+  mapRow: (row, { sourceFile, entryIndex }) => {
+    const created = pickColumn(row, 'Created (UTC)', 'created_utc');
+    if (!created) return null;
+
+    const amount = parseMoney(pickColumn(row, 'Amount', 'gross'));
+    const net = parseMoney(pickColumn(row, 'Net', 'net'));
+    if (isNaN(amount) || isNaN(net)) return null;
+
+    const transactionId = pickColumn(row, 'id', 'balance_transaction_id');
+    const orderId = pickColumn(row, 'Source', 'source_id') || transactionId || `ST-${entryIndex}`;
+
+    const type = pickColumn(row, 'Type', 'reporting_category') || 'Unknown';
+    return {
+      id: `${transactionId || orderId}-${entryIndex}`,
+      orderNumber: orderId,
+      dateTime: toUtcTimestamp(created),
+      customerName: pickColumn(row, 'Customer Name', 'customer_name', 'Customer Email', 'customer_email', 'Description', 'description') || 'Unknown',
+      amount,
+      fee: feeFromNet(amount, net),
+      net,
+      type,
+      category: classifyTransaction(type, amount, 'STRIPE'),
+      cardBrand: pickColumn(row, 'Card Brand', 'card_brand') || 'Stripe',
+      currency: (pickColumn(row, 'Currency', 'currency') || 'USD').toUpperCase(),
+      sourceFile,
+      source: 'STRIPE',
+      payoutId: pickColumn(row, 'Transfer', 'automatic_payout_id') || undefined
+    };
+  }
+};
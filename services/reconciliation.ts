@@ -0,0 +1,141 @@
+import { BankDeposit, DailyGroup, DayReconciliation, ReconciliationResult, ReconciliationSettings } from '../types';
+import { ipcRenderer } from './ipc';
+import { toHomeCents } from './currency';
+
+/**
+ * Matches imported bank deposits to reporting days. Deposits that name a payout ID are matched
+ * to that payout's transactions first; the rest are matched to each day's outstanding net
+ * within the date/amount tolerance.
+ */
+
+export const DEFAULT_RECONCILIATION_SETTINGS: ReconciliationSettings = {
+  dateToleranceDays: 3,
+  amountTolerance: 0.01
+};
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+const daysBetween = (a: string, b: string): number => {
+  return Math.abs(Date.parse(`${a}T00:00:00Z`) - Date.parse(`${b}T00:00:00Z`)) / 86400000;
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Net of each payout, split by the reporting day its transactions fall on (in home-currency cents)
+const collectPayouts = (groups: DailyGroup[]): Record<string, Record<string, number>> => {
+  const payouts: Record<string, Record<string, number>> = {};
+  groups.forEach(group => {
+    group.transactions.forEach(t => {
+      if (!t.payoutId || t.homeRate === null) return;
+      const byDay = payouts[t.payoutId] ??= {};
+      byDay[group.dateKey] = (byDay[group.dateKey] || 0) + toHomeCents(t).net;
+    });
+  });
+  return payouts;
+};
+
+const attach = (day: DayReconciliation, deposit: BankDeposit, cents: number, matchedBy: 'payout' | 'amount') => {
+  if (!day.deposits.includes(deposit)) day.deposits.push(deposit);
+  day.depositedAmount = (toCents(day.depositedAmount) + cents) / 100;
+  day.matchedBy = day.matchedBy ?? matchedBy;
+};
+
+export const reconcileDeposits = (
+  groups: DailyGroup[],
+  deposits: BankDeposit[],
+  settings: ReconciliationSettings
+): ReconciliationResult => {
+  // The undated group has no day to deposit against
+  const datedGroups = groups.filter(g => g.dateKey !== '');
+  const toleranceCents = toCents(settings.amountTolerance);
+
+  const days: Record<string, DayReconciliation> = {};
+  datedGroups.forEach(group => {
+    days[group.dateKey] = {
+      dateKey: group.dateKey,
+      expectedNet: group.subtotalNet,
+      deposits: [],
+      depositedAmount: 0,
+      variance: 0,
+      status: 'unmatched',
+      matchedBy: null
+    };
+  });
+
+  const used = new Set<string>();
+
+  // 1. Payout IDs: the deposit pays out exactly these transactions, whatever days they span
+  const payouts = collectPayouts(datedGroups);
+  const payoutIds = Object.keys(payouts);
+  deposits.forEach(deposit => {
+    const text = `${deposit.description} ${deposit.reference}`;
+    const payoutId = payoutIds.find(id => new RegExp(`\\b${escapeRegExp(id)}\\b`, 'i').test(text));
+    if (!payoutId) return;
+
+    const dayKeys = Object.keys(payouts[payoutId]).sort();
+    const payoutCents = dayKeys.reduce((sum, key) => sum + payouts[payoutId][key], 0);
+    dayKeys.forEach(key => attach(days[key], deposit, payouts[payoutId][key], 'payout'));
+    // Whatever the bank paid beyond (or short of) the payout lands on its latest day
+    const remainder = toCents(deposit.amount) - payoutCents;
+    if (remainder !== 0) attach(days[dayKeys[dayKeys.length - 1]], deposit, remainder, 'payout');
+
+    used.add(deposit.id);
+    payoutIds.splice(payoutIds.indexOf(payoutId), 1);
+  });
+
+  // 2. Amount and date: the closest deposit to what each day still expects, oldest day first
+  Object.keys(days).sort().forEach(dateKey => {
+    const day = days[dateKey];
+    const outstanding = toCents(day.expectedNet) - toCents(day.depositedAmount);
+    if (outstanding <= toleranceCents) return;
+
+    let best: { deposit: BankDeposit, amountDiff: number, dateDiff: number } | null = null;
+    for (const deposit of deposits) {
+      if (used.has(deposit.id)) continue;
+      const amountDiff = Math.abs(toCents(deposit.amount) - outstanding);
+      const dateDiff = daysBetween(deposit.date, dateKey);
+      if (amountDiff > toleranceCents || dateDiff > settings.dateToleranceDays) continue;
+      if (!best || amountDiff < best.amountDiff || (amountDiff === best.amountDiff && dateDiff < best.dateDiff)) {
+        best = { deposit, amountDiff, dateDiff };
+      }
+    }
+
+    if (best) {
+      attach(day, best.deposit, toCents(best.deposit.amount), 'amount');
+      used.add(best.deposit.id);
+    }
+  });
+
+  Object.values(days).forEach(day => {
+    const varianceCents = toCents(day.depositedAmount) - toCents(day.expectedNet);
+    day.variance = varianceCents / 100;
+    if (day.deposits.length === 0) {
+      day.status = 'unmatched';
+    } else {
+      day.status = Math.abs(varianceCents) <= toleranceCents ? 'matched' : 'variance';
+    }
+  });
+
+  return {
+    days,
+    unmatchedDeposits: deposits.filter(d => !used.has(d.id)),
+    settings
+  };
+};
+
+// Saved tolerances, falling back to the defaults outside Electron or when none are saved
+export const loadReconciliationSettings = async (): Promise<ReconciliationSettings> => {
+  const res = await ipcRenderer.invoke('settings:get-reconciliation');
+  if (!res?.success || !res.settings) return DEFAULT_RECONCILIATION_SETTINGS;
+  return { ...DEFAULT_RECONCILIATION_SETTINGS, ...res.settings };
+};
+
+export const saveReconciliationSettings = async (settings: ReconciliationSettings): Promise<void> => {
+  if (!(settings.dateToleranceDays >= 0) || !(settings.amountTolerance >= 0)) {
+    throw new Error('Reconciliation tolerances must be zero or more.');
+  }
+  const res = await ipcRenderer.invoke('settings:save-reconciliation', { settings });
+  if (res && !res.success) {
+    throw new Error(res.error);
+  }
+};
@@ -0,0 +1,170 @@
+import { ReportSnapshot, ReportSummary } from '../types';
+import { getReportLabels } from './processors';
+import { ipcRenderer } from './ipc';
+
+/**
+ * Saved report snapshots and the period-over-period comparison between two of them.
+ * A snapshot keeps a report's totals and per-day totals, not its transactions.
+ */
+
+export interface ComparisonMetric {
+  label: string;
+  format: 'money' | 'count' | 'percent';
+  baseline: number | null;
+  current: number | null;
+  delta: number | null;         // Current less baseline
+  deltaPercent: number | null;  // Change relative to the baseline
+}
+
+// Average reporting day on one weekday in each period
+export interface WeekdayComparison {
+  weekday: number;  // 0 = Sunday
+  baselineDays: number;
+  currentDays: number;
+  gross: ComparisonMetric;
+  net: ComparisonMetric;
+  count: ComparisonMetric;
+}
+
+export interface SnapshotComparison {
+  baseline: ReportSnapshot;
+  current: ReportSnapshot;
+  metrics: ComparisonMetric[];
+  weekdays: WeekdayComparison[];
+  currencyMismatch: boolean;  // Totals are in different home currencies
+}
+
+const round = (value: number, places = 2) => {
+  const factor = Math.pow(10, places);
+  return Math.round(value * factor) / factor;
+};
+
+const average = (values: number[]): number | null => {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+};
+
+const buildMetric = (label: string, format: ComparisonMetric['format'], baseline: number | null, current: number | null): ComparisonMetric => {
+  const places = format === 'count' ? 1 : 2;
+  const delta = baseline !== null && current !== null ? round(current - baseline, places) : null;
+  return {
+    label,
+    format,
+    baseline: baseline === null ? null : round(baseline, places),
+    current: current === null ? null : round(current, places),
+    delta,
+    deltaPercent: delta !== null && baseline ? round(delta / Math.abs(baseline) * 100) : null
+  };
+};
+
+// Shared by the comparison panel and its PDF; `money` formats in the snapshot's currency
+export const formatComparisonValue = (value: number | null, format: ComparisonMetric['format'], money: (amount: number) => string, signed = false): string => {
+  if (value === null) return '-';
+  const sign = signed && value > 0 ? '+' : '';
+  if (format === 'money') return sign + money(value);
+  if (format === 'percent') return `${sign}${value.toFixed(2)}%`;
+  return sign + value.toLocaleString('en-US', { maximumFractionDigits: 1 });
+};
+
+export const formatDeltaPercent = (metric: ComparisonMetric): string => {
+  return metric.deltaPercent === null ? '-' : `${metric.deltaPercent > 0 ? '+' : ''}${metric.deltaPercent.toFixed(1)}%`;
+};
+
+// e.g. "Shopify 1/1/2024 - 1/31/2024"
+export const getDefaultSnapshotName = (summary: ReportSummary): string => {
+  const { label } = getReportLabels(summary.sourceTotals.map(t => t.source));
+  return `${label} ${summary.dateRange}`;
+};
+
+export const createReportSnapshot = (summary: ReportSummary, name = getDefaultSnapshotName(summary)): ReportSnapshot => ({
+  id: '',
+  name,
+  createdAt: new Date().toISOString(),
+  dateRange: summary.dateRange,
+  homeCurrency: summary.currencySettings.homeCurrency,
+  sourceFiles: Array.from(new Set(summary.allTransactions.map(t => t.sourceFile))).sort(),
+  transactionCount: summary.transactionCount,
+  totalAmount: summary.totalAmount,
+  totalFees: summary.totalFees,
+  totalNet: summary.totalNet,
+  sourceTotals: summary.sourceTotals,
+  categoryTotals: summary.categoryTotals,
+  days: summary.dailyGroups
+    .filter(group => group.dateKey !== '')
+    .map(group => ({ dateKey: group.dateKey, count: group.count, gross: group.subtotal, fees: group.subtotalFees, net: group.subtotalNet }))
+    .sort((a, b) => a.dateKey.localeCompare(b.dateKey))
+});
+
+const categoryTotal = (snapshot: ReportSnapshot, category: string) => snapshot.categoryTotals.find(t => t.category === category);
+
+const getWeekday = (dateKey: string): number => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+};
+
+export const compareSnapshots = (baseline: ReportSnapshot, current: ReportSnapshot): SnapshotComparison => {
+  const salesOf = (s: ReportSnapshot) => categoryTotal(s, 'SALE');
+  const feeRate = (s: ReportSnapshot) => {
+    const sales = salesOf(s)?.amount ?? 0;
+    return sales > 0 ? Math.abs(s.totalFees) / sales * 100 : null;
+  };
+  const averageSale = (s: ReportSnapshot) => {
+    const sales = salesOf(s);
+    return sales && sales.count > 0 ? sales.amount / sales.count : null;
+  };
+  const metric = (label: string, format: ComparisonMetric['format'], value: (s: ReportSnapshot) => number | null) => {
+    return buildMetric(label, format, value(baseline), value(current));
+  };
+
+  const metrics = [
+    metric('Gross', 'money', s => s.totalAmount),
+    metric('Fees', 'money', s => s.totalFees),
+    metric('Net', 'money', s => s.totalNet),
+    metric('Refunds', 'money', s => categoryTotal(s, 'REFUND')?.amount ?? 0),
+    metric('Transactions', 'count', s => s.transactionCount),
+    metric('Sales', 'count', s => salesOf(s)?.count ?? 0),
+    metric('Average Sale', 'money', averageSale),
+    metric('Effective Fee Rate', 'percent', feeRate),
+    metric('Reporting Days', 'count', s => s.days.length),
+    metric('Average Daily Gross', 'money', s => average(s.days.map(d => d.gross)))
+  ];
+
+  const weekdays = [0, 1, 2, 3, 4, 5, 6].map(weekday => {
+    const baselineDays = baseline.days.filter(d => getWeekday(d.dateKey) === weekday);
+    const currentDays = current.days.filter(d => getWeekday(d.dateKey) === weekday);
+    return {
+      weekday,
+      baselineDays: baselineDays.length,
+      currentDays: currentDays.length,
+      gross: buildMetric('Gross', 'money', average(baselineDays.map(d => d.gross)), average(currentDays.map(d => d.gross))),
+      net: buildMetric('Net', 'money', average(baselineDays.map(d => d.net)), average(currentDays.map(d => d.net))),
+      count: buildMetric('Transactions', 'count', average(baselineDays.map(d => d.count)), average(currentDays.map(d => d.count)))
+    };
+  });
+
+  return { baseline, current, metrics, weekdays, currencyMismatch: baseline.homeCurrency !== current.homeCurrency };
+};
+
+export const loadReportSnapshots = async (): Promise<ReportSnapshot[]> => {
+  const res = await ipcRenderer.invoke('report-snapshots:list');
+  return res?.success ? res.snapshots : [];
+};
+
+// Adds a new snapshot, or replaces (renames) the one with the same id
+export const saveReportSnapshot = async (snapshot: ReportSnapshot): Promise<ReportSnapshot> => {
+  const res = await ipcRenderer.invoke('report-snapshots:save', { snapshot });
+  if (!res) {
+    // Browser dev mode: comparable for this session, just not remembered
+    return { ...snapshot, id: snapshot.id || `local-${Date.now()}` };
+  }
+  if (!res.success) {
+    throw new Error(res.error);
+  }
+  return res.snapshot;
+};
+
+export const deleteReportSnapshot = async (id: string): Promise<void> => {
+  const res = await ipcRenderer.invoke('report-snapshots:delete', { id });
+  if (res && !res.success) {
+    throw new Error(res.error);
+  }
+};
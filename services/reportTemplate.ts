@@ -0,0 +1,94 @@
+import { ReportColumn, ReportTemplate } from '../types';
+import { ipcRenderer } from './ipc';
+
+/**
+ * Report templates: how the transaction PDF looks (company name, logo, columns, page setup,
+ * header/footer text) and whether it is one file per reporting day or one for the period.
+ */
+
+// Every column, in the order the PDF prints them
+export const REPORT_COLUMNS: { id: ReportColumn, label: string, isMoney: boolean }[] = [
+  { id: 'time', label: 'Time', isMoney: false },
+  { id: 'order', label: 'Order #', isMoney: false },
+  { id: 'customer', label: 'Customer', isMoney: false },
+  { id: 'type', label: 'Type', isMoney: false },
+  { id: 'cardBrand', label: 'Card Type', isMoney: false },
+  { id: 'amount', label: 'Amount', isMoney: true },
+  { id: 'fee', label: 'Fee', isMoney: true },
+  { id: 'net', label: 'Net', isMoney: true },
+  { id: 'verify', label: 'Verify', isMoney: false }
+];
+
+// The report as it has always printed: every column, US Letter, one file per day
+export const DEFAULT_REPORT_TEMPLATE: ReportTemplate = {
+  companyName: '',
+  logoDataUrl: null,
+  title: '',
+  columns: REPORT_COLUMNS.map(c => c.id),
+  pageSize: 'letter',
+  orientation: 'portrait',
+  accentColor: '#334155',
+  headerText: '',
+  footerText: '',
+  layout: 'daily'
+};
+
+// Logos are embedded in the saved template, so keep them small
+const MAX_LOGO_BYTES = 1.5 * 1024 * 1024;
+
+export const hexToRgb = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+/**
+ * Checks a template before it's saved and puts its columns in print order.
+ * Throws with a readable message when something can't be used.
+ */
+export const validateReportTemplate = (template: ReportTemplate): ReportTemplate => {
+  const columns = REPORT_COLUMNS.map(c => c.id).filter(id => template.columns.includes(id));
+  if (columns.length === 0) {
+    throw new Error('Pick at least one column for the report.');
+  }
+  if (!/^#[0-9a-f]{6}$/i.test(template.accentColor)) {
+    throw new Error(`"${template.accentColor}" is not a color. Use the #RRGGBB form, e.g. #334155.`);
+  }
+
+  return {
+    ...template,
+    companyName: template.companyName.trim(),
+    title: template.title.trim(),
+    headerText: template.headerText.trim(),
+    footerText: template.footerText.trim(),
+    columns
+  };
+};
+
+// Reads a logo image into the data URL the template stores
+export const readLogoFile = (file: File): Promise<string> => {
+  if (!['image/png', 'image/jpeg'].includes(file.type)) {
+    return Promise.reject(new Error(`${file.name} is not a PNG or JPEG image.`));
+  }
+  if (file.size > MAX_LOGO_BYTES) {
+    return Promise.reject(new Error(`${file.name} is too large for a logo (1.5 MB at most).`));
+  }
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error(`Could not read ${file.name}.`));
+    reader.readAsDataURL(file);
+  });
+};
+
+export const loadReportTemplate = async (): Promise<ReportTemplate> => {
+  const res = await ipcRenderer.invoke('report-template:get');
+  if (!res?.success || !res.template) return DEFAULT_REPORT_TEMPLATE;
+  return { ...DEFAULT_REPORT_TEMPLATE, ...res.template };
+};
+
+export const saveReportTemplate = async (template: ReportTemplate): Promise<void> => {
+  const res = await ipcRenderer.invoke('report-template:save', { template: validateReportTemplate(template) });
+  if (res && !res.success) {
+    throw new Error(res.error);
+  }
+};
@@ -0,0 +1,168 @@
+import { ReportingSettings } from '../types';
+import { ipcRenderer } from './ipc';
+
+/**
+ * Reporting-day rules: which calendar day a transaction is reported (and deposited) on.
+ * Times are read in the store's timezone, not the timezone of the machine running the app.
+ */
+
+export const WEEKDAY_LABELS = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+// Matches the original hard-coded behavior: 4:00 PM cutoff, local timezone, no roll-forward
+export const DEFAULT_REPORTING_SETTINGS: ReportingSettings = {
+  cutoffTime: '16:00',
+  timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  rollForwardDays: [],
+  holidays: []
+};
+
+interface WallClock {
+  year: number;
+  month: number;  // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+// "2024-01-05 16:30:00", "2024-01-05T16:30" or "01/05/2024 16:30:00" with no offset
+const NAIVE_ISO = /^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{1,2}):(\d{2}))?(?::\d{2}(?:\.\d+)?)?$/;
+const NAIVE_US = /^(\d{1,2})\/(\d{1,2})\/(\d{2,4})(?:\s+(\d{1,2}):(\d{2})(?::\d{2})?\s*(AM|PM)?)?$/i;
+
+const formatterCache: Record<string, Intl.DateTimeFormat> = {};
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  if (!formatterCache[timeZone]) {
+    formatterCache[timeZone] = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric', month: '2-digit', day: '2-digit',
+      hour: '2-digit', minute: '2-digit'
+    });
+  }
+  return formatterCache[timeZone];
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Wall-clock time of a transaction in the store's timezone.
+ * Timestamps without an offset (e.g. PayPal's Date + Time columns) are already store-local;
+ * anything with an offset or "Z" is converted.
+ */
+export const getStoreWallClock = (dateTime: string, timeZone: string): WallClock | null => {
+  const value = dateTime.trim();
+
+  const iso = value.match(NAIVE_ISO);
+  if (iso) {
+    return { year: +iso[1], month: +iso[2], day: +iso[3], hour: +(iso[4] ?? 0), minute: +(iso[5] ?? 0) };
+  }
+
+  const us = value.match(NAIVE_US);
+  if (us) {
+    let hour = +(us[4] ?? 0);
+    const meridiem = us[6]?.toUpperCase();
+    if (meridiem === 'PM' && hour < 12) hour += 12;
+    if (meridiem === 'AM' && hour === 12) hour = 0;
+    const year = us[3].length === 2 ? 2000 + +us[3] : +us[3];
+    return { year, month: +us[1], day: +us[2], hour, minute: +(us[5] ?? 0) };
+  }
+
+  const instant = new Date(value);
+  if (isNaN(instant.getTime())) return null;
+
+  const parts = Object.fromEntries(getFormatter(timeZone).formatToParts(instant).map(p => [p.type, p.value]));
+  return { year: +parts.year, month: +parts.month, day: +parts.day, hour: +parts.hour, minute: +parts.minute };
+};
+
+const toDateKey = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * Reporting day of a transaction as YYYY-MM-DD: at or after the cutoff it moves to the next day,
+ * then it keeps rolling forward past roll-forward weekdays and holidays.
+ */
+export const getReportingDateKey = (dateTime: string, settings: ReportingSettings): string | null => {
+  const clock = getStoreWallClock(dateTime, settings.timeZone);
+  if (!clock) return null;
+
+  // Calendar arithmetic in UTC so DST and the machine timezone can't shift the day
+  const date = new Date(Date.UTC(clock.year, clock.month - 1, clock.day));
+
+  const [cutoffHour, cutoffMinute] = settings.cutoffTime.split(':').map(Number);
+  if (clock.hour * 60 + clock.minute >= cutoffHour * 60 + cutoffMinute) {
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+
+  // Bounded so a misconfiguration (every weekday rolled) can't loop forever
+  for (let i = 0; i < 14; i++) {
+    const isRolled = settings.rollForwardDays.includes(date.getUTCDay()) || settings.holidays.includes(toDateKey(date));
+    if (!isRolled) break;
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+
+  return toDateKey(date);
+};
+
+// Display form of a reporting-day key, in the user's locale
+export const formatDateKey = (dateKey: string): string => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString(undefined, { timeZone: 'UTC' });
+};
+
+// Transaction time as shown in the ledger and PDF (store-local)
+export const formatTransactionTime = (dateTime: string, settings: ReportingSettings): string => {
+  const clock = getStoreWallClock(dateTime, settings.timeZone);
+  if (!clock) return '';
+  return new Date(Date.UTC(2000, 0, 1, clock.hour, clock.minute))
+    .toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', timeZone: 'UTC' });
+};
+
+export const describeReportingSettings = (settings: ReportingSettings): string => {
+  const parts = [`Cutoff ${settings.cutoffTime} ${settings.timeZone}`];
+  if (settings.rollForwardDays.length > 0) {
+    parts.push(`${settings.rollForwardDays.map(d => WEEKDAY_LABELS[d]).join('/')} roll forward`);
+  }
+  if (settings.holidays.length > 0) {
+    parts.push(`${settings.holidays.length} holiday(s)`);
+  }
+  return parts.join(' | ');
+};
+
+// Throws on settings that would group transactions incorrectly
+export const validateReportingSettings = (settings: ReportingSettings): ReportingSettings => {
+  if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(settings.cutoffTime)) {
+    throw new Error(`Cutoff time "${settings.cutoffTime}" must be HH:MM (24-hour).`);
+  }
+  if (!isValidTimeZone(settings.timeZone)) {
+    throw new Error(`"${settings.timeZone}" is not a valid IANA timezone.`);
+  }
+  if (settings.rollForwardDays.length >= 7) {
+    throw new Error('At least one weekday must stay a reporting day.');
+  }
+  const badHoliday = settings.holidays.find(h => !/^\d{4}-\d{2}-\d{2}$/.test(h));
+  if (badHoliday) {
+    throw new Error(`Holiday "${badHoliday}" must be a YYYY-MM-DD date.`);
+  }
+  return settings;
+};
+
+// Saved settings, falling back to the defaults outside Electron or when none are saved
+export const loadReportingSettings = async (): Promise<ReportingSettings> => {
+  const res = await ipcRenderer.invoke('settings:get-reporting');
+  if (!res?.success || !res.settings) return DEFAULT_REPORTING_SETTINGS;
+  return { ...DEFAULT_REPORTING_SETTINGS, ...res.settings };
+};
+
+export const saveReportingSettings = async (settings: ReportingSettings): Promise<void> => {
+  validateReportingSettings(settings);
+  const res = await ipcRenderer.invoke('settings:save-reporting', { settings });
+  if (res && !res.success) {
+    throw new Error(res.error);
+  }
+};
@@ -0,0 +1,84 @@
+import { CategoryTotals, ReportSource, ShopifyTransaction, TransactionCategory } from '../types';
+import { toHomeCents } from './currency';
+
+/**
+ * Normalizes the raw type/status strings of every export into one category. Rules are tried
+ * in order and the first match wins, so the specific ones ("Chargeback Reversal", "Hold on
+ * Balance for Dispute") sit above the broad ones ("Reversal", "Dispute").
+ */
+
+interface CategoryRule {
+  category: TransactionCategory;
+  pattern: RegExp;
+  sources?: ReportSource[];  // Only applies to these exports; all when omitted
+}
+
+export const CATEGORY_RULES: CategoryRule[] = [
+  // The two legs of a balance moved between currencies (PayPal "General Currency Conversion")
+  { category: 'CONVERSION', pattern: /currency conversion/i },
+  // Money parked or moved around inside the processor account
+  { category: 'ADJUSTMENT', pattern: /hold on balance|account hold|cancellation of hold|reserve|adjustment|correction/i },
+  { category: 'CHARGEBACK', pattern: /chargeback|dispute|payment reversal|claim/i },
+  { category: 'PAYOUT', pattern: /payout|withdrawal|transfer|disbursement|bank deposit/i },
+  { category: 'REFUND', pattern: /refund|return/i },
+  // Stripe lists its own and platform fees as balance lines
+  { category: 'ADJUSTMENT', pattern: /^(stripe_fee|application_fee|fee|tax)$/i, sources: ['STRIPE'] },
+  { category: 'FAILED', pattern: /fail|declined|void|cancel|denied|expired/i },
+  { category: 'SALE', pattern: /sale|charge|payment|capture|order|authoriz|paid|success|complete|pending/i }
+];
+
+// Display order of the per-category subtotals
+export const TRANSACTION_CATEGORIES: TransactionCategory[] = ['SALE', 'REFUND', 'CHARGEBACK', 'ADJUSTMENT', 'CONVERSION', 'PAYOUT', 'FAILED'];
+
+export const CATEGORY_LABELS: Record<TransactionCategory, string> = {
+  SALE: 'Sales',
+  REFUND: 'Refunds',
+  CHARGEBACK: 'Chargebacks',
+  ADJUSTMENT: 'Adjustments',
+  CONVERSION: 'Conversions',
+  PAYOUT: 'Payouts',
+  FAILED: 'Failed'
+};
+
+// Payouts and currency conversions move money that's already counted; failed captures never moved any
+const UNCOUNTED_CATEGORIES: TransactionCategory[] = ['CONVERSION', 'PAYOUT', 'FAILED'];
+
+export const isCountedCategory = (category: TransactionCategory): boolean => !UNCOUNTED_CATEGORIES.includes(category);
+
+// Foreign amounts with no rate into the home currency can't be added to home totals either
+export const countsTowardTotals = (t: ShopifyTransaction): boolean => isCountedCategory(t.category) && t.homeRate !== null;
+
+// Types no rule knows fall back on the sign: money out is treated as a refund
+export const classifyTransaction = (type: string, amount: number, source: ReportSource): TransactionCategory => {
+  const rule = CATEGORY_RULES.find(r => (!r.sources || r.sources.includes(source)) && r.pattern.test(type));
+  if (rule) return rule.category;
+  return amount < 0 ? 'REFUND' : 'SALE';
+};
+
+// Per-category count and cent-exact home-currency totals, in TRANSACTION_CATEGORIES order; empty
+// categories are left out, and so are amounts with no rate into the home currency
+export const summarizeByCategory = (transactions: ShopifyTransaction[]): CategoryTotals[] => {
+  const cents: Partial<Record<TransactionCategory, { count: number, amount: number, fees: number, net: number }>> = {};
+
+  transactions.filter(t => t.homeRate !== null).forEach(t => {
+    const totals = cents[t.category] ??= { count: 0, amount: 0, fees: 0, net: 0 };
+    const home = toHomeCents(t);
+    totals.count += 1;
+    totals.amount += home.amount;
+    totals.fees += home.fee;
+    totals.net += home.net;
+  });
+
+  return TRANSACTION_CATEGORIES
+    .filter(category => cents[category])
+    .map(category => {
+      const totals = cents[category]!;
+      return {
+        category,
+        count: totals.count,
+        amount: totals.amount / 100,
+        fees: totals.fees / 100,
+        net: totals.net / 100
+      };
+    });
+};
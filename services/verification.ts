@@ -0,0 +1,55 @@
+import { ShopifyTransaction, TransactionVerification } from '../types';
+import { ipcRenderer } from './ipc';
+
+/**
+ * Reviewer sign-offs on report rows. A sign-off belongs to one row of one exact file, so it
+ * comes back when the same CSV is loaded again but not for an edited or different export.
+ */
+
+export type VerificationMap = Record<string, TransactionVerification>;
+
+export const getVerificationKey = (t: ShopifyTransaction): string => `${t.sourceFileHash || t.sourceFile}:${t.id}`;
+
+// "Jane van Doe" -> "JVD"; a single name gives its first two letters
+export const getReviewerInitials = (reviewer: string): string => {
+  const words = reviewer.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return '';
+  if (words.length === 1) return words[0].slice(0, 2).toUpperCase();
+  return words.map(w => w[0]).join('').toUpperCase().slice(0, 3);
+};
+
+export const countVerified = (transactions: ShopifyTransaction[], verifications: VerificationMap): number => {
+  return transactions.filter(t => verifications[getVerificationKey(t)]).length;
+};
+
+export const loadVerifications = async (): Promise<VerificationMap> => {
+  const res = await ipcRenderer.invoke('verifications:list');
+  return res?.success ? res.verifications : {};
+};
+
+// A new sign-off by the reviewer, stamped now
+export const createVerification = (reviewer: string, note = ''): TransactionVerification => {
+  if (!reviewer.trim()) {
+    throw new Error('Enter a reviewer name before verifying transactions.');
+  }
+  return { reviewer: reviewer.trim(), verifiedAt: new Date().toISOString(), note: note.trim() };
+};
+
+export const saveVerification = async (key: string, verification: TransactionVerification): Promise<TransactionVerification> => {
+  const res = await ipcRenderer.invoke('verifications:save', { key, verification });
+  if (!res) {
+    // Browser dev mode: kept for this session only
+    return verification;
+  }
+  if (!res.success) {
+    throw new Error(res.error);
+  }
+  return res.verification;
+};
+
+export const deleteVerification = async (key: string): Promise<void> => {
+  const res = await ipcRenderer.invoke('verifications:delete', { key });
+  if (res && !res.success) {
+    throw new Error(res.error);
+  }
+};
@@ -0,0 +1,138 @@
+import { strToU8, zipSync } from 'fflate';
+
+/**
+ * Minimal XLSX (Office Open XML) workbook writer: strings, numbers and formulas with a few
+ * fixed styles, which is all the report exports need. Formulas carry their computed value
+ * so viewers that don't recalculate still show totals.
+ */
+
+export type XlsxStyle = 'header' | 'money' | 'total' | 'totalMoney';
+
+export type XlsxCell =
+  | string
+  | number
+  | null
+  | { value?: string | number, formula?: string, style?: XlsxStyle };
+
+export interface XlsxSheet {
+  name: string;
+  rows: XlsxCell[][];
+  columnWidths?: number[];  // In characters
+}
+
+// cellXfs indexes in STYLES_XML; 0 is the default
+const STYLE_INDEX: Record<XlsxStyle, number> = {
+  header: 1,
+  money: 2,
+  total: 3,
+  totalMoney: 4
+};
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="1"><numFmt numFmtId="164" formatCode="#,##0.00"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="3"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill><fill><patternFill patternType="solid"><fgColor rgb="FFE2E8F0"/><bgColor indexed="64"/></patternFill></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="5">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="2" borderId="0" xfId="0" applyFont="1" applyFill="1"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+<xf numFmtId="164" fontId="1" fillId="0" borderId="0" xfId="0" applyNumberFormat="1" applyFont="1"/>
+</cellXfs>
+</styleSheet>`;
+
+const escapeXml = (value: string): string => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  // Control characters other than tab/newline aren't allowed in XML
+  .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '');
+
+// 0 -> A, 25 -> Z, 26 -> AA
+export const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+// Excel's rules: at most 31 characters, none of : \ / ? * [ ]
+export const toSheetName = (name: string): string => {
+  return name.replace(/[:\\/?*[\]]/g, '-').substring(0, 31) || 'Sheet';
+};
+
+// 'Sheet Name'!A1, quoted as formulas need
+export const sheetRef = (sheetName: string, cell: string): string => `'${sheetName.replace(/'/g, "''")}'!${cell}`;
+
+const cellXml = (cell: XlsxCell, ref: string): string => {
+  if (cell === null || cell === '') return '';
+  const { value, formula, style } = typeof cell === 'object' ? cell : { value: cell, formula: undefined, style: undefined };
+  const s = style ? ` s="${STYLE_INDEX[style]}"` : '';
+  const f = formula ? `<f>${escapeXml(formula)}</f>` : '';
+
+  if (typeof value === 'number') {
+    return `<c r="${ref}"${s}>${f}<v>${Number.isFinite(value) ? value : 0}</v></c>`;
+  }
+  if (formula) {
+    return `<c r="${ref}"${s} t="str">${f}<v>${escapeXml(value ?? '')}</v></c>`;
+  }
+  return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value ?? '')}</t></is></c>`;
+};
+
+const sheetXml = (sheet: XlsxSheet): string => {
+  const cols = sheet.columnWidths && sheet.columnWidths.length > 0
+    ? `<cols>${sheet.columnWidths.map((width, i) => `<col min="${i + 1}" max="${i + 1}" width="${width}" customWidth="1"/>`).join('')}</cols>`
+    : '';
+  const rows = sheet.rows.map((row, r) => {
+    const cells = row.map((cell, c) => cellXml(cell, `${columnName(c)}${r + 1}`)).join('');
+    return `<row r="${r + 1}">${cells}</row>`;
+  }).join('');
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">${cols}<sheetData>${rows}</sheetData></worksheet>`;
+};
+
+export const buildXlsx = (sheets: XlsxSheet[]): Uint8Array<ArrayBuffer> => {
+  const names = new Set<string>();
+  sheets.forEach(sheet => {
+    if (names.has(sheet.name.toLowerCase())) throw new Error(`Duplicate sheet name "${sheet.name}".`);
+    names.add(sheet.name.toLowerCase());
+  });
+
+  const files: Record<string, Uint8Array> = {
+    '[Content_Types].xml': strToU8(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+${sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('\n')}
+</Types>`),
+    '_rels/.rels': strToU8(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`),
+    'xl/workbook.xml': strToU8(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets>${sheets.map((sheet, i) => `<sheet name="${escapeXml(sheet.name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')}</sheets>
+<calcPr calcId="191029" fullCalcOnLoad="1"/>
+</workbook>`),
+    'xl/_rels/workbook.xml.rels': strToU8(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+${sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('\n')}
+<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`),
+    'xl/styles.xml': strToU8(STYLES_XML)
+  };
+  sheets.forEach((sheet, i) => {
+    files[`xl/worksheets/sheet${i + 1}.xml`] = strToU8(sheetXml(sheet));
+  });
+
+  return zipSync(files, { level: 6 }) as Uint8Array<ArrayBuffer>;
+};
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
@@ -1,4 +1,10 @@
 
+// Payment channels the reporter can read (see services/processors)
+export type ReportSource = 'SHOPIFY' | 'PAYPAL' | 'STRIPE' | 'SQUARE' | 'AMAZON_PAY';
+
+// Normalized kind of a transaction, from its raw type (see services/transactionCategories)
+export type TransactionCategory = 'SALE' | 'REFUND' | 'CHARGEBACK' | 'ADJUSTMENT' | 'CONVERSION' | 'PAYOUT' | 'FAILED';
+
 export interface ShopifyTransaction {
   id: string;
   orderNumber: string;
@@ -7,19 +13,65 @@ export interface ShopifyTransaction {
   amount: number;
   fee: number;
   net: number;
-  type: string;
+  type: string;                   // Raw type/status as exported
+  category: TransactionCategory;
   cardBrand: string;
   currency: string;
   sourceFile: string;
+  source: ReportSource;
+  homeRate?: number | null;  // Set by buildReportSummary: multiplier into the home currency, null when there's no rate
+  payoutId?: string;  // Payout/settlement the processor paid this out in, when the export says
+  sourceFileHash?: string;  // SHA-256 of the source file's content
+}
+
+// A reviewer's sign-off on one transaction, saved by getVerificationKey (transaction id + file hash)
+export interface TransactionVerification {
+  reviewer: string;
+  verifiedAt: string;  // ISO timestamp
+  note: string;
+}
+
+// Totals for one payment channel within a report or a reporting day
+export interface SourceTotals {
+  source: ReportSource;
+  count: number;  // Transactions counted toward the totals
+  amount: number;
+  fees: number;
+  net: number;
+}
+
+// Totals for one transaction category within a report or a reporting day
+export interface CategoryTotals {
+  category: TransactionCategory;
+  count: number;
+  amount: number;
+  fees: number;
+  net: number;
+}
+
+// Totals for one currency, in that currency
+export interface CurrencyTotals {
+  currency: string;
+  count: number;
+  amount: number;
+  fees: number;
+  net: number;
+  homeRate: number | null;  // Rate used into the home currency; null when not converted
 }
 
+// Subtotals, source and category totals are in the home currency. They leave out payouts, failed
+// captures and amounts with no rate into the home currency, which are still listed
 export interface DailyGroup {
-  date: string;
+  date: string;     // Display form of the reporting day
+  dateKey: string;  // Reporting day as YYYY-MM-DD
   subtotal: number;
   subtotalFees: number;
   subtotalNet: number;
-  count: number;
+  count: number;    // Every listed transaction
   transactions: ShopifyTransaction[];
+  sourceTotals: SourceTotals[];
+  categoryTotals: CategoryTotals[];  // Includes the uncounted categories, for display
+  currencyTotals: CurrencyTotals[];
 }
 
 export interface ReportSummary {
@@ -30,12 +82,307 @@ export interface ReportSummary {
   transactionCount: number;
   dailyGroups: DailyGroup[];
   allTransactions: ShopifyTransaction[];
+  sourceTotals: SourceTotals[];          // Per-channel breakdown, largest first
+  categoryTotals: CategoryTotals[];      // Sales, refunds, chargebacks... in display order
+  currencyTotals: CurrencyTotals[];      // Per original currency, home currency first
+  reportingSettings: ReportingSettings;  // Rules the daily groups were built with
+  currencySettings: CurrencySettings;    // Home currency and rates the totals were converted with
+  conversionRates: Record<string, ConversionRate>;  // Rates actually used, by currency
   aiAnalysis?: string;
 }
 
+// Decides which reporting day (and deposit) a transaction belongs to
+export interface ReportingSettings {
+  cutoffTime: string;         // HH:MM, 24-hour; at or after it a sale belongs to the next day
+  timeZone: string;           // Store's IANA timezone, e.g. America/New_York
+  rollForwardDays: number[];  // Weekdays (0 = Sunday) whose sales roll to the next reporting day
+  holidays: string[];         // YYYY-MM-DD dates that also roll forward
+}
+
+// Home currency the totals are reported in, and how foreign amounts get there
+export interface CurrencySettings {
+  homeCurrency: string;          // ISO 4217 code, e.g. USD
+  convertToHome: boolean;        // Off: foreign amounts are only totalled in their own currency
+  rates: Record<string, number>; // Currency -> home currency units per 1 unit
+}
+
+export interface ConversionRate {
+  rate: number;
+  source: 'table' | 'paypal';  // User rate table, or PayPal's own currency conversion rows
+}
+
+// --- Report Templates ---
+
+// Columns the transaction PDF can show, in print order
+export type ReportColumn = 'time' | 'order' | 'customer' | 'type' | 'cardBrand' | 'amount' | 'fee' | 'net' | 'verify';
+
+// Look of the transaction PDF (saved per company)
+export interface ReportTemplate {
+  companyName: string;
+  logoDataUrl: string | null;     // PNG or JPEG data URL
+  title: string;                  // Blank: the report's own title (e.g. "Stripe Transaction Report")
+  columns: ReportColumn[];
+  pageSize: 'letter' | 'legal' | 'a4';
+  orientation: 'portrait' | 'landscape';
+  accentColor: string;            // #RRGGBB of table headers and the cover band
+  headerText: string;             // Printed at the top of every page
+  footerText: string;             // Printed at the bottom of every page, beside the page number
+  layout: 'daily' | 'consolidated';  // One PDF per reporting day, or one PDF for the period
+}
+
+// --- CSV Import Profiles ---
+
+// ShopifyTransaction fields a CSV column can be mapped to (id and sourceFile are generated)
+export type TransactionField = 'dateTime' | 'orderNumber' | 'customerName' | 'amount' | 'fee' | 'net' | 'type' | 'cardBrand' | 'currency' | 'payoutId';
+
+// Field -> CSV header; unmapped fields use their defaults
+export type ColumnMapping = Partial<Record<TransactionField, string>>;
+
+// A saved mapping, matched to files by the fingerprint of their header row
+export interface ImportProfile {
+  id: string;
+  name: string;
+  fingerprint: string;
+  headers: string[];
+  mapping: ColumnMapping;
+  createdAt: string;
+}
+
+// Header row and first few rows of a file, for detection and the mapping wizard
+export interface CsvPreview {
+  fileName: string;
+  headers: string[];
+  sampleRows: Record<string, string>[];
+}
+
+// How one uploaded file is read: its detected source, plus the column mapping for Shopify layouts
+export interface FileImportPlan {
+  source: ReportSource;
+  columnMapping?: ColumnMapping;
+}
+
+// --- Bank Reconciliation ---
+
+// A credit line from an imported bank statement
+export interface BankDeposit {
+  id: string;
+  date: string;         // YYYY-MM-DD
+  amount: number;
+  description: string;
+  reference: string;    // Bank reference / FITID
+  sourceFile: string;
+}
+
+export interface ReconciliationSettings {
+  dateToleranceDays: number;  // How far a deposit's date may be from the reporting day
+  amountTolerance: number;    // Largest difference still treated as the same amount
+}
+
+export type ReconciliationStatus = 'matched' | 'variance' | 'unmatched';
+
+export interface DayReconciliation {
+  dateKey: string;
+  expectedNet: number;     // DailyGroup.subtotalNet
+  deposits: BankDeposit[];
+  depositedAmount: number; // Part of the matched deposits attributed to this day
+  variance: number;        // depositedAmount - expectedNet
+  status: ReconciliationStatus;
+  matchedBy: 'payout' | 'amount' | null;
+}
+
+export interface ReconciliationResult {
+  days: Record<string, DayReconciliation>;  // Keyed by DailyGroup.dateKey
+  unmatchedDeposits: BankDeposit[];
+  settings: ReconciliationSettings;
+}
+
+// --- Ledger Filters ---
+
+// Narrows the ledger (and, optionally, its exports); empty lists and blank fields match everything
+export interface LedgerFilter {
+  search: string;             // Matched against order number and customer
+  types: string[];            // Raw type/status values
+  cardBrands: string[];
+  sourceFiles: string[];
+  minAmount: number | null;   // In the transaction's own currency
+  maxAmount: number | null;
+  dateFrom: string;           // Reporting day, YYYY-MM-DD
+  dateTo: string;
+  weekdays: number[];         // Store-local weekday of the transaction (0 = Sunday)
+  hours: number[];            // Store-local hour of the transaction, 0-23
+}
+
+export type LedgerSortField = 'dateTime' | 'orderNumber' | 'customerName' | 'type' | 'cardBrand' | 'amount';
+
+export interface LedgerSort {
+  field: LedgerSortField;
+  direction: 'asc' | 'desc';
+}
+
+// --- Report Snapshots ---
+
+// One reporting day's totals, as kept in a snapshot
+export interface SnapshotDay {
+  dateKey: string;  // YYYY-MM-DD
+  count: number;
+  gross: number;
+  fees: number;
+  net: number;
+}
+
+// The totals of a processed report, saved so later periods can be compared with it.
+// Transactions aren't kept, only what the comparison needs.
+export interface ReportSnapshot {
+  id: string;
+  name: string;
+  createdAt: string;
+  dateRange: string;
+  homeCurrency: string;
+  sourceFiles: string[];
+  transactionCount: number;
+  totalAmount: number;
+  totalFees: number;
+  totalNet: number;
+  sourceTotals: SourceTotals[];
+  categoryTotals: CategoryTotals[];
+  days: SnapshotDay[];  // Dated reporting days, oldest first
+}
+
+// --- Daily Journals ---
+
+// QBO accounts the daily payment journals post to (saved per company)
+export interface JournalAccounts {
+  sales: string;     // Credited with the day's gross sales
+  fees: string;      // Debited with merchant/processing fees
+  refunds: string;   // Debited with refunds
+  clearing: string;  // Debited with the net the processor owes (cleared by the payout deposit)
+}
+
 export enum ReportStatus {
   IDLE = 'IDLE',
+  MAPPING = 'MAPPING',
   PROCESSING = 'PROCESSING',
   READY = 'READY',
   ERROR = 'ERROR'
 }
+
+// --- QuickBooks Sync ---
+
+export type SyncDocumentStatus = 'new' | 'exists' | 'conflict';
+
+export type SyncAction = 'create' | 'update' | 'skip';
+
+// Result of looking a converted document up in QBO before posting it
+export interface SyncDocumentCheck {
+  key: string;
+  entity: string;
+  docNumber: string;
+  vendorName: string;
+  amount: number;
+  status: SyncDocumentStatus;
+  existingId?: string;
+  syncToken?: string;
+  existingAmount?: number;
+}
+
+export interface SyncDecision {
+  action: SyncAction;
+  existingId?: string;
+  syncToken?: string;
+}
+
+// A document posted to QBO, as recorded in the sync history
+export interface SyncedDocument {
+  key: string;
+  entity: string;
+  docNumber: string;
+  action: 'create' | 'update';
+  id: string | null;
+  syncToken: string | null;
+}
+
+export interface SyncResult {
+  success: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+  errors: string[];
+  documents: SyncedDocument[];
+}
+
+// Vendors/accounts used by a batch that don't exist in QBO
+export type ReferenceKind = 'vendors' | 'accounts';
+export type ReferenceAction = 'create' | 'map' | 'skip';
+
+export interface ReferenceResolution {
+  action: ReferenceAction;
+  accountType?: string;  // 'create' of an account
+  targetId?: string;     // 'map'
+  targetName?: string;
+}
+
+export interface MissingReference {
+  name: string;
+  documents: string[];  // Keys of the documents that use it
+  saved: ReferenceResolution | null;  // Choice remembered from a previous run
+}
+
+export interface QboEntityOption {
+  id: string;
+  name: string;
+}
+
+export interface MissingReferenceReport {
+  vendors: MissingReference[];
+  accounts: MissingReference[];
+  existing: Record<ReferenceKind, QboEntityOption[]>;
+}
+
+// Sent over 'qb:sync-progress' while a batch is posting
+export interface SyncProgress {
+  total: number;
+  processed: number;
+  success: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+  resumed: boolean;  // Continuing a previously interrupted run of the same batch
+}
+
+export interface SyncCheckpointSummary {
+  mode: string;
+  startedAt: string;
+  updatedAt: string;
+  completed: number;
+}
+
+export interface SyncUndoRecord {
+  timestamp: string;
+  deleted: number;
+  failed: number;
+  errors: string[];
+  deletedKeys: string[];  // Accumulated across every undo attempt of the run
+}
+
+export interface SyncHistoryRun {
+  runId: string;
+  timestamp: string;
+  companyId: string;
+  companyName?: string;
+  realmId?: string | null;
+  mode: string;
+  fileName: string | null;
+  fileHash: string | null;
+  counts: Pick<SyncResult, 'success' | 'updated' | 'skipped' | 'failed'>;
+  documents: SyncedDocument[];
+  interrupted?: string | null;  // Error that stopped the run; documents are those posted before it
+  undo: SyncUndoRecord | null;
+}
+
+// --- Company Profiles ---
+
+export interface CompanyProfile {
+  id: string;
+  name: string;
+  realmId: string | null;  // Bound on the first QuickBooks login
+}